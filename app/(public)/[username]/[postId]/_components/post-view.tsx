@@ -0,0 +1,440 @@
+"use client";
+
+import React, { useEffect, useState, FormEvent } from "react";
+import PublicHeader from "../../_components/public-header";
+import PostArticle, { type PostWithAuthor } from "@/components/post-article";
+import SeriesNavigator from "@/components/series-navigator";
+import TableOfContents from "@/components/table-of-contents";
+import { useUser } from "@clerk/nextjs";
+import { useConvexMutation, useConvexQuery } from "@/hooks/use-convex-query";
+import { api } from "@/convex/_generated/api";
+import { notFound } from "next/navigation";
+import Image from "next/image";
+import Link from "next/link";
+import {
+  Heart,
+  Loader2,
+  MessageCircle,
+  Send,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { BarLoader } from "react-spinners";
+import type { Id, Doc } from "@/convex/_generated/dataModel";
+import { addHeadingAnchors } from "@/lib/heading-anchors";
+import { sanitizeHtml } from "@/lib/sanitize-html";
+
+const convexApi = api as any;
+
+// Type definitions
+type CommentAuthor = {
+  _id: Id<"users">;
+  name: string;
+  username?: string;
+  imageUrl?: string;
+};
+
+type Comment = Doc<"comments"> & {
+  author?: CommentAuthor;
+  authorId: Id<"users">;
+};
+
+interface PostViewProps {
+  username: string;
+  postId: string; // Canonical slug, or the raw ID of a post without one
+}
+
+// The live post page - the server page has already redirected old slugs
+const PostView: React.FC<PostViewProps> = ({ username, postId }) => {
+  const { user: currentUser } = useUser();
+
+  const { data: currentConvexUser } = useConvexQuery(
+    convexApi.users.getCurrentUser,
+    currentUser ? {} : "skip"
+  );
+
+  const [commentContent, setCommentContent] = useState("");
+
+  const {
+    data: post,
+    isLoading: postLoading,
+    error: postError,
+  } = useConvexQuery<PostWithAuthor | null>(
+    convexApi.public.getPublishedPost,
+    {
+      username,
+      slugOrId: postId,
+    }
+  );
+
+  // The URL may hold a slug, so everything else keys off the resolved post ID
+  const resolvedPostId: Id<"posts"> | undefined = post?._id;
+
+  const { data: comments, isLoading: commentsLoading } = useConvexQuery<
+    Comment[] | undefined
+  >(
+    convexApi.comments.getPostComments,
+    resolvedPostId ? { postId: resolvedPostId } : "skip"
+  );
+
+  // Get like status for current user
+  const { data: hasLiked } = useConvexQuery<boolean | undefined>(
+    convexApi.likes.hasUserLiked,
+    currentUser && resolvedPostId ? { postId: resolvedPostId } : "skip"
+  );
+
+  const toggleLike = useConvexMutation(convexApi.likes.toggleLike);
+
+  const { mutate: addComment, isLoading: isSubmittingComment } =
+    useConvexMutation(convexApi.comments.addComment);
+
+  const deleteComment = useConvexMutation(convexApi.comments.deleteComment);
+
+  const incrementView = useConvexMutation(
+    convexApi.public.incrementViewCount
+  );
+
+  // Track view when post loads
+  useEffect(() => {
+    if (post && !postLoading) {
+      incrementView.mutate({ postId: post._id });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [postLoading, post?._id]);
+
+  if (postLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#A1A1AA] mx-auto mb-4"></div>
+          <p className="text-[#6B7280]">Loading post...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (postError || !post) {
+    notFound();
+  }
+
+  // Same anchors PostArticle renders, for the table of contents
+  const { headings } = addHeadingAnchors(sanitizeHtml(post.content));
+
+  const handleLikeToggle = async (): Promise<void> => {
+    if (!currentUser) {
+      toast.error("Please sign in to like posts");
+      return;
+    }
+
+    try {
+      await toggleLike.mutate({ postId: post._id });
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to update like");
+      }
+    }
+  };
+
+  const handleCommentSubmit = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+
+    if (!currentUser) {
+      toast.error("Please sign in to comment");
+      return;
+    }
+
+    if (!commentContent.trim()) {
+      toast.error("Comment cannot be empty");
+      return;
+    }
+
+    try {
+      await addComment({
+        postId: post._id,
+        content: commentContent.trim(),
+      });
+      setCommentContent("");
+      toast.success("Comment added!");
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to add comment");
+      }
+    }
+  };
+
+  const handleDeleteComment = async (commentId: Id<"comments">): Promise<void> => {
+    try {
+      await deleteComment.mutate({ commentId });
+      toast.success("Comment deleted");
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error("Failed to delete comment");
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen text-[#A1A1AA]">
+      <PublicHeader link={`/${username}`} title="Back to Profile" />
+
+      <div
+        className={`mx-auto px-6 py-8 ${
+          headings.length > 0 ? "max-w-6xl lg:flex lg:gap-12" : "max-w-4xl"
+        }`}
+      >
+        <div className="max-w-4xl flex-1 min-w-0">
+          <PostArticle post={post}>
+            <div className="flex items-center gap-6 pt-4 border-t border-slate-800">
+              <Button
+                onClick={handleLikeToggle}
+                variant="ghost"
+                className={`flex items-center gap-2 ${
+                  hasLiked
+                    ? "text-red-400 hover:text-red-300"
+                    : "text-[#6B7280] hover:text-[#EDEEF0]"
+                }`}
+                disabled={toggleLike.isLoading}
+              >
+                <Heart className={`h-5 w-5 ${hasLiked ? "fill-current" : ""}`} />
+                {post.likeCount.toLocaleString()}
+              </Button>
+
+              <div className="flex items-center gap-2 text-[#6B7280]">
+                <MessageCircle className="h-5 w-5" />
+                {comments?.length || 0} comments
+              </div>
+            </div>
+          </PostArticle>
+
+          <SeriesNavigator postId={post._id} username={username} />
+
+          {/* Comments Section */}
+          <div className="mt-12 space-y-6">
+            <h2 className="text-2xl font-bold text-[#EDEEF0]">Comments</h2>
+
+            {currentUser ? (
+              <Card className="card-glass">
+                <CardContent className="p-6">
+                  <form onSubmit={handleCommentSubmit} className="space-y-4">
+                    <Textarea
+                      value={commentContent}
+                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                        setCommentContent(e.target.value)
+                      }
+                      placeholder="Write a comment..."
+                      className="bg-slate-800 border-slate-600 text-[#EDEEF0] placeholder:text-[#6B7280] resize-none"
+                      rows={3}
+                      maxLength={1000}
+                    />
+
+                    <div className="flex items-center justify-between">
+                      <p className="text-xs text-[#4B5563]">
+                        {commentContent.length}/1000 characters
+                      </p>
+                      <Button
+                        type="submit"
+                        disabled={isSubmittingComment || !commentContent.trim()}
+                        variant="primary"
+                      >
+                        {isSubmittingComment ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Send className="h-4 w-4 mr-2" />
+                        )}
+                        Post Comment
+                      </Button>
+                    </div>
+                  </form>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className="card-glass">
+                <CardContent className="p-6 text-center">
+                  <p className="text-[#6B7280] mb-4">
+                    Sign in to join the conversation
+                  </p>
+                  <Link href="/sign-in">
+                    <Button variant="primary">Sign In</Button>
+                  </Link>
+                </CardContent>
+              </Card>
+            )}
+
+            {commentsLoading ? (
+              <BarLoader width={"100%"} color="#D8B4FE" />
+            ) : comments && comments.length > 0 ? (
+              <div className="space-y-4">
+                {comments.map((comment: Comment) => (
+                  <Card key={comment._id} className="card-glass">
+                    <CardContent className="p-6">
+                      <div className="flex items-start justify-between mb-3">
+                        <div className="flex items-center space-x-3">
+                          <div className="relative w-8 h-8">
+                            {comment.author?.imageUrl ? (
+                              <Image
+                                src={comment.author.imageUrl}
+                                alt={comment.author.name}
+                                fill
+                                className="rounded-full object-cover"
+                                sizes="32px"
+                              />
+                            ) : (
+                              <div className="w-full h-full rounded-full bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-sm font-bold">
+                                {comment.author?.name?.charAt(0).toUpperCase() ||
+                                  "?"}
+                              </div>
+                            )}
+                          </div>
+
+                          <div>
+                            <p className="font-medium text-[#EDEEF0]">
+                              {comment.author?.name || "Anonymous"}
+                            </p>
+                            <p className="text-xs text-[#6B7280]">
+                              {new Date(comment.createdAt).toLocaleDateString(
+                                "en-US",
+                                {
+                                  month: "short",
+                                  day: "numeric",
+                                  hour: "2-digit",
+                                  minute: "2-digit",
+                                }
+                              )}
+                            </p>
+                          </div>
+                        </div>
+
+                        {/* delete button */}
+                        {currentConvexUser &&
+                          comment.author &&
+                          (currentConvexUser._id === comment.authorId ||
+                            currentConvexUser._id === post.authorId) && (
+                            <Button
+                              onClick={() => handleDeleteComment(comment._id)}
+                              variant="ghost"
+                              size="sm"
+                              className="text-[#6B7280] hover:text-[#A1A1AA]"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                      </div>
+
+                      <p className="text-[#A1A1AA] whitespace-pre-wrap">
+                        {comment.content}
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <Card className="card-glass">
+                <CardContent className="text-center py-8">
+                  <MessageCircle className="h-12 w-12 text-slate-600 mx-auto mb-4" />
+                  <p className="text-slate-400">No comments yet</p>
+                  <p className="text-slate-500 text-sm mt-1">
+                    Be the first to share your thoughts!
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+
+        {headings.length > 0 && (
+          <aside className="hidden lg:block w-56 flex-shrink-0">
+            <TableOfContents headings={headings} />
+          </aside>
+        )}
+      </div>
+
+      {/* Custom prose styles */}
+      <style jsx global>{`
+        .prose-invert h1[id],
+        .prose-invert h2[id],
+        .prose-invert h3[id] {
+          scroll-margin-top: 6rem;
+        }
+        .prose-invert h1 {
+          color: #EDEEF0;
+          font-weight: 700;
+          font-size: 2.5rem;
+          margin: 1.5rem 0;
+        }
+        .prose-invert h2 {
+          color: #D1D5DB;
+          font-weight: 600;
+          font-size: 2rem;
+          margin: 1.25rem 0;
+        }
+        .prose-invert h3 {
+          color: #D1D5DB;
+          font-weight: 600;
+          font-size: 1.5rem;
+          margin: 1rem 0;
+        }
+        .prose-invert p {
+          color: #A1A1AA;
+          line-height: 1.7;
+          margin: 1rem 0;
+        }
+        .prose-invert blockquote {
+          border-left: 4px solid #6B7280;
+          color: #A1A1AA;
+          padding-left: 1rem;
+          margin: 1.5rem 0;
+          font-style: italic;
+        }
+        .prose-invert a {
+          color: #D1D5DB;
+        }
+        .prose-invert a:hover {
+          color: #EDEEF0;
+        }
+        .prose-invert code {
+          background: rgb(51, 65, 85);
+          color: #A1A1AA;
+          padding: 0.125rem 0.25rem;
+          border-radius: 0.25rem;
+        }
+        .prose-invert pre {
+          background: rgb(30, 41, 59);
+          color: #EDEEF0;
+          padding: 1rem;
+          border-radius: 0.5rem;
+          border: 1px solid rgb(71, 85, 105);
+          overflow-x: auto;
+        }
+        .prose-invert ul,
+        .prose-invert ol {
+          color: #A1A1AA;
+          padding-left: 1.5rem;
+        }
+        .prose-invert li {
+          margin: 0.25rem 0;
+        }
+        .prose-invert img {
+          border-radius: 0.5rem;
+          margin: 1.5rem 0;
+        }
+        .prose-invert strong {
+          color: #EDEEF0;
+        }
+        .prose-invert em {
+          color: #A1A1AA;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default PostView;
\ No newline at end of file
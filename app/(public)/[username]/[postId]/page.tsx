@@ -1,55 +1,10 @@
-"use client";
-
-import React, { useEffect, useState, FormEvent } from "react";
-import PublicHeader from "../_components/public-header";
-import { useUser } from "@clerk/nextjs";
-import { useConvexMutation, useConvexQuery } from "@/hooks/use-convex-query";
+import React from "react";
+import { notFound, permanentRedirect } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import { fetchQuery } from "convex/nextjs";
 import { api } from "@/convex/_generated/api";
-import { notFound } from "next/navigation";
-import Image from "next/image";
-import Link from "next/link";
-import {
-  Calendar,
-  Eye,
-  Heart,
-  Loader2,
-  MessageCircle,
-  Send,
-  Trash2,
-} from "lucide-react";
-import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
-import { toast } from "sonner";
-import { Card, CardContent } from "@/components/ui/card";
-import { Textarea } from "@/components/ui/textarea";
-import { BarLoader } from "react-spinners";
-import type { Id, Doc } from "@/convex/_generated/dataModel";
-
-const convexApi = api as any;
-
-// Type definitions
-type AuthorInfo = {
-  _id: Id<"users">;
-  name: string;
-  username?: string;
-  imageUrl?: string;
-};
-
-type PostWithAuthor = Doc<"posts"> & {
-  author: AuthorInfo;
-};
-
-type CommentAuthor = {
-  _id: Id<"users">;
-  name: string;
-  username?: string;
-  imageUrl?: string;
-};
-
-type Comment = Doc<"comments"> & {
-  author?: CommentAuthor;
-  authorId: Id<"users">;
-};
+import { RESERVED_SLUGS } from "@/lib/slug";
+import PostView from "./_components/post-view";
 
 interface PostPageProps {
   params: Promise<{
@@ -58,468 +13,28 @@ interface PostPageProps {
   }>;
 }
 
-const PostPage: React.FC<PostPageProps> = ({ params }) => {
-  const { username, postId } = React.use(params);
-  const { user: currentUser } = useUser();
-
-  // Validate postId - Convex IDs are typically alphanumeric and don't match common route names
-  // Common invalid values: "followers", "edit", "create", "settings", etc.
-  const invalidPostIds = ["followers", "edit", "create", "settings", "posts", "dashboard"];
-  const isValidPostId = postId && !invalidPostIds.includes(postId.toLowerCase()) && postId.length > 10;
+export default async function PostPage({ params }: PostPageProps) {
+  const { username, postId } = await params;
 
-  if (!isValidPostId) {
+  // Validate postId - it's a slug or Convex ID, never one of the reserved route names
+  if (!postId || RESERVED_SLUGS.includes(postId.toLowerCase())) {
     notFound();
   }
 
-  const { data: currentConvexUser } = useConvexQuery(
-    convexApi.users.getCurrentUser,
-    currentUser ? {} : "skip"
+  // Resolved on the server so old slugs and raw IDs get a real 308 to the
+  // canonical slug URL, which crawlers follow. The reader's token lets
+  // followers-only posts resolve too.
+  const { getToken } = await auth();
+  const token = await getToken({ template: "convex" });
+  const post = await fetchQuery(
+    api.public.getPublishedPost,
+    { username, slugOrId: postId },
+    { token: token ?? undefined }
   );
 
-  const [commentContent, setCommentContent] = useState("");
-
-  const {
-    data: post,
-    isLoading: postLoading,
-    error: postError,
-  } = useConvexQuery<PostWithAuthor | null>(
-    convexApi.public.getPublishedPost,
-    isValidPostId
-      ? {
-          username,
-          postId: postId as Id<"posts">,
-        }
-      : "skip"
-  );
-
-  const { data: comments, isLoading: commentsLoading } = useConvexQuery<
-    Comment[] | undefined
-  >(
-    convexApi.comments.getPostComments,
-    isValidPostId ? { postId: postId as Id<"posts"> } : "skip"
-  );
-
-  // Get like status for current user
-  const { data: hasLiked } = useConvexQuery<boolean | undefined>(
-    convexApi.likes.hasUserLiked,
-    currentUser && isValidPostId ? { postId: postId as Id<"posts"> } : "skip"
-  );
-
-  const toggleLike = useConvexMutation(convexApi.likes.toggleLike);
-
-  const { mutate: addComment, isLoading: isSubmittingComment } =
-    useConvexMutation(convexApi.comments.addComment);
-
-  const deleteComment = useConvexMutation(convexApi.comments.deleteComment);
-
-  const incrementView = useConvexMutation(
-    convexApi.public.incrementViewCount
-  );
-
-  // Track view when post loads
-  useEffect(() => {
-    if (post && !postLoading && isValidPostId) {
-      incrementView.mutate({ postId: postId as Id<"posts"> });
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [postLoading, post?._id, isValidPostId]);
-
-  if (postLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#A1A1AA] mx-auto mb-4"></div>
-          <p className="text-[#6B7280]">Loading post...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (postError || !post) {
-    notFound();
+  if (post?.slug && post.slug !== postId) {
+    permanentRedirect(`/${username}/${post.slug}`);
   }
 
-  const handleLikeToggle = async (): Promise<void> => {
-    if (!currentUser) {
-      toast.error("Please sign in to like posts");
-      return;
-    }
-
-    try {
-      await toggleLike.mutate({ postId: postId as Id<"posts"> });
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        toast.error(error.message);
-      } else {
-        toast.error("Failed to update like");
-      }
-    }
-  };
-
-  const handleCommentSubmit = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
-    e.preventDefault();
-
-    if (!currentUser) {
-      toast.error("Please sign in to comment");
-      return;
-    }
-
-    if (!commentContent.trim()) {
-      toast.error("Comment cannot be empty");
-      return;
-    }
-
-    try {
-      await addComment({
-        postId: postId as Id<"posts">,
-        content: commentContent.trim(),
-      });
-      setCommentContent("");
-      toast.success("Comment added!");
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        toast.error(error.message);
-      } else {
-        toast.error("Failed to add comment");
-      }
-    }
-  };
-
-  const handleDeleteComment = async (commentId: Id<"comments">): Promise<void> => {
-    try {
-      await deleteComment.mutate({ commentId });
-      toast.success("Comment deleted");
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        toast.error(error.message);
-      } else {
-        toast.error("Failed to delete comment");
-      }
-    }
-  };
-
-  return (
-    <div className="min-h-screen text-[#A1A1AA]">
-      <PublicHeader link={`/${username}`} title="Back to Profile" />
-
-      <div className="max-w-4xl mx-auto px-6 py-8">
-        <article className="space-y-8">
-          {/* Featured Image */}
-          {post.featuredImage && (
-            <div className="relative w-full h-96 rounded-xl overflow-hidden">
-              <Image
-                src={post.featuredImage}
-                alt={post.title}
-                fill
-                className="object-cover"
-                sizes="(max-width: 768px) 100vw, 896px"
-                priority
-              />
-            </div>
-          )}
-
-          <div className="space-y-4">
-            <h1 className="text-4xl md:text-5xl font-bold gradient-text-primary">
-              {post.title}
-            </h1>
-
-            <div className="flex items-center justify-between">
-              <Link href={`/${username}`}>
-                <div className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
-                  <div className="relative w-12 h-12">
-                    {post.author.imageUrl ? (
-                      <Image
-                        src={post.author.imageUrl}
-                        alt={post.author.name}
-                        fill
-                        className="rounded-full object-cover"
-                        sizes="48px"
-                      />
-                    ) : (
-                      <div className="w-full h-full rounded-full bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-lg font-bold">
-                        {post.author.name.charAt(0).toUpperCase()}
-                      </div>
-                    )}
-                  </div>
-
-                  <div>
-                    <p className="font-semibold text-[#EDEEF0]">
-                      {post.author.name}
-                    </p>
-                    <p className="text-sm text-[#6B7280]">
-                      @{post.author.username}
-                    </p>
-                  </div>
-                </div>
-              </Link>
-
-              <div className="text-right text-sm text-[#6B7280]">
-                {post.publishedAt && (
-                  <div className="flex items-center gap-1 mb-1">
-                    <Calendar className="h-4 w-4" />
-                    {new Date(post.publishedAt).toLocaleDateString("en-US", {
-                      month: "long",
-                      day: "numeric",
-                      year: "numeric",
-                    })}
-                  </div>
-                )}
-                <div className="flex items-center gap-1">
-                  <Eye className="h-4 w-4" />
-                  {(post.viewCount || 0).toLocaleString()} views
-                </div>
-              </div>
-            </div>
-
-            {post.tags && post.tags.length > 0 && (
-              <div className="flex flex-wrap gap-2">
-                {post.tags.map((tag: string) => (
-                  <Badge
-                    key={tag}
-                    variant="secondary"
-                    className="bg-zinc-800/50 text-[#A1A1AA] border-zinc-700"
-                  >
-                    {tag}
-                  </Badge>
-                ))}
-              </div>
-            )}
-          </div>
-
-          {/* Post Content */}
-          <div
-            className="prose prose-lg max-w-none prose-invert prose-purple"
-            dangerouslySetInnerHTML={{ __html: post.content }}
-          />
-
-          <div className="flex items-center gap-6 pt-4 border-t border-slate-800">
-            <Button
-              onClick={handleLikeToggle}
-              variant="ghost"
-              className={`flex items-center gap-2 ${
-                hasLiked
-                  ? "text-red-400 hover:text-red-300"
-                  : "text-[#6B7280] hover:text-[#EDEEF0]"
-              }`}
-              disabled={toggleLike.isLoading}
-            >
-              <Heart className={`h-5 w-5 ${hasLiked ? "fill-current" : ""}`} />
-              {post.likeCount.toLocaleString()}
-            </Button>
-
-            <div className="flex items-center gap-2 text-[#6B7280]">
-              <MessageCircle className="h-5 w-5" />
-              {comments?.length || 0} comments
-            </div>
-          </div>
-        </article>
-
-        {/* Comments Section */}
-        <div className="mt-12 space-y-6">
-          <h2 className="text-2xl font-bold text-[#EDEEF0]">Comments</h2>
-
-          {currentUser ? (
-            <Card className="card-glass">
-              <CardContent className="p-6">
-                <form onSubmit={handleCommentSubmit} className="space-y-4">
-                  <Textarea
-                    value={commentContent}
-                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                      setCommentContent(e.target.value)
-                    }
-                    placeholder="Write a comment..."
-                    className="bg-slate-800 border-slate-600 text-[#EDEEF0] placeholder:text-[#6B7280] resize-none"
-                    rows={3}
-                    maxLength={1000}
-                  />
-
-                  <div className="flex items-center justify-between">
-                    <p className="text-xs text-[#4B5563]">
-                      {commentContent.length}/1000 characters
-                    </p>
-                    <Button
-                      type="submit"
-                      disabled={isSubmittingComment || !commentContent.trim()}
-                      variant="primary"
-                    >
-                      {isSubmittingComment ? (
-                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      ) : (
-                        <Send className="h-4 w-4 mr-2" />
-                      )}
-                      Post Comment
-                    </Button>
-                  </div>
-                </form>
-              </CardContent>
-            </Card>
-          ) : (
-            <Card className="card-glass">
-              <CardContent className="p-6 text-center">
-                <p className="text-[#6B7280] mb-4">
-                  Sign in to join the conversation
-                </p>
-                <Link href="/sign-in">
-                  <Button variant="primary">Sign In</Button>
-                </Link>
-              </CardContent>
-            </Card>
-          )}
-
-          {commentsLoading ? (
-            <BarLoader width={"100%"} color="#D8B4FE" />
-          ) : comments && comments.length > 0 ? (
-            <div className="space-y-4">
-              {comments.map((comment: Comment) => (
-                <Card key={comment._id} className="card-glass">
-                  <CardContent className="p-6">
-                    <div className="flex items-start justify-between mb-3">
-                      <div className="flex items-center space-x-3">
-                        <div className="relative w-8 h-8">
-                          {comment.author?.imageUrl ? (
-                            <Image
-                              src={comment.author.imageUrl}
-                              alt={comment.author.name}
-                              fill
-                              className="rounded-full object-cover"
-                              sizes="32px"
-                            />
-                          ) : (
-                            <div className="w-full h-full rounded-full bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-sm font-bold">
-                              {comment.author?.name?.charAt(0).toUpperCase() ||
-                                "?"}
-                            </div>
-                          )}
-                        </div>
-
-                        <div>
-                          <p className="font-medium text-[#EDEEF0]">
-                            {comment.author?.name || "Anonymous"}
-                          </p>
-                          <p className="text-xs text-[#6B7280]">
-                            {new Date(comment.createdAt).toLocaleDateString(
-                              "en-US",
-                              {
-                                month: "short",
-                                day: "numeric",
-                                hour: "2-digit",
-                                minute: "2-digit",
-                              }
-                            )}
-                          </p>
-                        </div>
-                      </div>
-
-                      {/* delete button */}
-                      {currentConvexUser &&
-                        comment.author &&
-                        (currentConvexUser._id === comment.authorId ||
-                          currentConvexUser._id === post.authorId) && (
-                          <Button
-                            onClick={() => handleDeleteComment(comment._id)}
-                            variant="ghost"
-                            size="sm"
-                            className="text-[#6B7280] hover:text-[#A1A1AA]"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        )}
-                    </div>
-
-                    <p className="text-[#A1A1AA] whitespace-pre-wrap">
-                      {comment.content}
-                    </p>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-          ) : (
-            <Card className="card-glass">
-              <CardContent className="text-center py-8">
-                <MessageCircle className="h-12 w-12 text-slate-600 mx-auto mb-4" />
-                <p className="text-slate-400">No comments yet</p>
-                <p className="text-slate-500 text-sm mt-1">
-                  Be the first to share your thoughts!
-                </p>
-              </CardContent>
-            </Card>
-          )}
-        </div>
-      </div>
-
-      {/* Custom prose styles */}
-      <style jsx global>{`
-        .prose-invert h1 {
-          color: #EDEEF0;
-          font-weight: 700;
-          font-size: 2.5rem;
-          margin: 1.5rem 0;
-        }
-        .prose-invert h2 {
-          color: #D1D5DB;
-          font-weight: 600;
-          font-size: 2rem;
-          margin: 1.25rem 0;
-        }
-        .prose-invert h3 {
-          color: #D1D5DB;
-          font-weight: 600;
-          font-size: 1.5rem;
-          margin: 1rem 0;
-        }
-        .prose-invert p {
-          color: #A1A1AA;
-          line-height: 1.7;
-          margin: 1rem 0;
-        }
-        .prose-invert blockquote {
-          border-left: 4px solid #6B7280;
-          color: #A1A1AA;
-          padding-left: 1rem;
-          margin: 1.5rem 0;
-          font-style: italic;
-        }
-        .prose-invert a {
-          color: #D1D5DB;
-        }
-        .prose-invert a:hover {
-          color: #EDEEF0;
-        }
-        .prose-invert code {
-          background: rgb(51, 65, 85);
-          color: #A1A1AA;
-          padding: 0.125rem 0.25rem;
-          border-radius: 0.25rem;
-        }
-        .prose-invert pre {
-          background: rgb(30, 41, 59);
-          color: #EDEEF0;
-          padding: 1rem;
-          border-radius: 0.5rem;
-          border: 1px solid rgb(71, 85, 105);
-          overflow-x: auto;
-        }
-        .prose-invert ul,
-        .prose-invert ol {
-          color: #A1A1AA;
-          padding-left: 1.5rem;
-        }
-        .prose-invert li {
-          margin: 0.25rem 0;
-        }
-        .prose-invert img {
-          border-radius: 0.5rem;
-          margin: 1.5rem 0;
-        }
-        .prose-invert strong {
-          color: #EDEEF0;
-        }
-        .prose-invert em {
-          color: #A1A1AA;
-        }
-      `}</style>
-    </div>
-  );
-};
-
-export default PostPage;
\ No newline at end of file
+  return <PostView username={username} postId={postId} />;
+}
@@ -2,8 +2,9 @@
 
 import React from "react";
 import { notFound } from "next/navigation";
+import { usePaginatedQuery } from "convex/react";
 import Image from "next/image";
-import { Calendar, UserPlus, UserCheck } from "lucide-react";
+import { Calendar, Layers, UserPlus, UserCheck } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { api } from "@/convex/_generated/api";
@@ -11,9 +12,8 @@ import { useConvexQuery, useConvexMutation } from "@/hooks/use-convex-query";
 import { useUser } from "@clerk/nextjs";
 import { toast } from "sonner";
 import Link from "next/link";
-import PostCard from "@/components/post-card";
-import type { Post } from "@/components/post-card";
-import type { Doc, Id } from "@/convex/_generated/dataModel";
+import PaginatedPostGrid from "@/components/paginated-post-grid";
+import type { Doc } from "@/convex/_generated/dataModel";
 import PublicHeader from "./_components/public-header";
 
 interface ProfilePageProps {
@@ -24,14 +24,20 @@ interface ProfilePageProps {
 
 type PublicUser = Doc<"users">;
 
-type PublishedPostsResponse = {
-  posts: Post[];
-  hasMore: boolean;
-  nextCursor: Id<"posts"> | null;
+type SeriesSummary = Doc<"series"> & {
+  postCount: number;
 };
 
+type ProfileStats = {
+  postCount: number;
+  totalViews: number;
+  totalLikes: number;
+} | null;
+
 const convexApi = api as any;
 
+const PAGE_SIZE = 12;
+
 export default function ProfilePage({ params }: ProfilePageProps) {
   const { username } = React.use(params);
   const { user: currentUser } = useUser();
@@ -45,15 +51,28 @@ export default function ProfilePage({ params }: ProfilePageProps) {
     username,
   });
 
-  // Get user's posts
-  const { data: postsData, isLoading: postsLoading } =
-    useConvexQuery<PublishedPostsResponse>(
-      convexApi.public.getPublishedPostsByUsername,
-      {
-        username,
-        limit: 20,
-      }
-    );
+  // Get user's posts, a page at a time
+  const {
+    results: posts,
+    status: postsStatus,
+    loadMore,
+  } = usePaginatedQuery(
+    convexApi.public.getPublishedPostsByUsername,
+    { username },
+    { initialNumItems: PAGE_SIZE }
+  );
+
+  // Totals across all of their posts, not just the loaded pages
+  const { data: stats } = useConvexQuery<ProfileStats>(
+    convexApi.public.getProfileStats,
+    { username }
+  );
+
+  // Get the author's series
+  const { data: series } = useConvexQuery<SeriesSummary[]>(
+    convexApi.series.getSeriesByUsername,
+    { username }
+  );
 
   // Get follower count
   const { data: followerCount } = useConvexQuery(
@@ -70,7 +89,7 @@ export default function ProfilePage({ params }: ProfilePageProps) {
   // Follow mutation
   const toggleFollow = useConvexMutation(convexApi.follows.toggleFollow);
 
-  if (userLoading || postsLoading) {
+  if (userLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -85,7 +104,6 @@ export default function ProfilePage({ params }: ProfilePageProps) {
     notFound();
   }
 
-  const posts: Post[] = postsData?.posts || [];
   const isOwnProfile = currentUser && currentUser.publicMetadata?.username === user.username;
 
   const handleFollowToggle = async () => {
@@ -169,7 +187,9 @@ export default function ProfilePage({ params }: ProfilePageProps) {
         {/* Stats */}
         <div className="flex justify-center gap-8 mb-12">
           <div className="text-center">
-            <div className="text-2xl font-bold text-[#EDEEF0]">{posts.length}</div>
+            <div className="text-2xl font-bold text-[#EDEEF0]">
+              {stats?.postCount ?? 0}
+            </div>
             <div className="text-sm text-[#6B7280]">Posts</div>
           </div>
           <div className="text-center">
@@ -180,47 +200,59 @@ export default function ProfilePage({ params }: ProfilePageProps) {
           </div>
           <div className="text-center">
             <div className="text-2xl font-bold text-[#EDEEF0]">
-              {posts
-                .reduce((acc, post) => acc + post.viewCount, 0)
-                .toLocaleString()}
+              {(stats?.totalViews ?? 0).toLocaleString()}
             </div>
             <div className="text-sm text-[#6B7280]">Total Views</div>
           </div>
           <div className="text-center">
             <div className="text-2xl font-bold text-white">
-              {posts
-                .reduce((acc, post) => acc + post.likeCount, 0)
-                .toLocaleString()}
+              {(stats?.totalLikes ?? 0).toLocaleString()}
             </div>
             <div className="text-sm text-slate-400">Total Likes</div>
           </div>
         </div>
 
+        {/* Series */}
+        {series && series.length > 0 && (
+          <div className="space-y-6 mb-12">
+            <h2 className="text-2xl font-bold text-white">Series</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {series.map((item) => (
+                <Link key={item._id} href={`/${username}/series/${item.slug}`}>
+                  <Card className="card-glass h-full hover:border-slate-600 transition-colors">
+                    <CardContent className="p-6 space-y-2">
+                      <p className="text-xs uppercase tracking-wide text-[#6B7280] flex items-center">
+                        <Layers className="h-3 w-3 mr-1" />
+                        {item.postCount} {item.postCount === 1 ? "part" : "parts"}
+                      </p>
+                      <h3 className="text-lg font-semibold text-[#EDEEF0]">
+                        {item.title}
+                      </h3>
+                      {item.description && (
+                        <p className="text-sm text-[#6B7280] line-clamp-2">
+                          {item.description}
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Posts */}
         <div className="space-y-6">
           <h2 className="text-2xl font-bold text-white">Recent Posts</h2>
 
-          {posts.length === 0 ? (
-            <Card className="card-glass">
-              <CardContent className="text-center py-12">
-                <p className="text-slate-400 text-lg">No posts yet</p>
-                <p className="text-slate-500 text-sm mt-2">
-                  Check back later for new content!
-                </p>
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-              {posts.map((post) => (
-                <PostCard
-                  key={post._id}
-                  post={post}
-                  showActions={false}
-                  showAuthor={false}
-                />
-              ))}
-            </div>
-          )}
+          <PaginatedPostGrid
+            posts={posts}
+            status={postsStatus}
+            loadMore={loadMore}
+            pageSize={PAGE_SIZE}
+            emptyMessage="No posts yet"
+            showAuthor={false}
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,195 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { notFound } from "next/navigation";
+import { ArrowDown, ArrowUp, Layers } from "lucide-react";
+import { useUser } from "@clerk/nextjs";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { api } from "@/convex/_generated/api";
+import { useConvexMutation, useConvexQuery } from "@/hooks/use-convex-query";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import PublicHeader from "../../_components/public-header";
+
+// Type definitions
+type PublishedSeries = {
+  series: Doc<"series">;
+  author: {
+    _id: Id<"users">;
+    name: string;
+    username?: string;
+    imageUrl?: string;
+  };
+  posts: Doc<"posts">[];
+} | null;
+
+interface SeriesPageProps {
+  params: Promise<{
+    username: string;
+    slug: string;
+  }>;
+}
+
+export default function SeriesPage({ params }: SeriesPageProps) {
+  const { username, slug } = React.use(params);
+  const { user: currentUser } = useUser();
+
+  const {
+    data,
+    isLoading,
+    error,
+  } = useConvexQuery<PublishedSeries>(api.series.getPublishedSeries, {
+    username,
+    slug,
+  });
+
+  const { data: currentConvexUser } = useConvexQuery<Doc<"users"> | null>(
+    api.users.getCurrentUser,
+    currentUser ? {} : "skip"
+  );
+
+  const { mutate: reorderSeries, isLoading: isReordering } =
+    useConvexMutation(api.series.reorder);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#A1A1AA] mx-auto mb-4"></div>
+          <p className="text-[#6B7280]">Loading series...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    notFound();
+  }
+
+  const { series, author, posts } = data;
+  const isOwner = currentConvexUser?._id === author._id;
+
+  // Swap a part with its neighbour; hidden parts (drafts etc.) keep their place
+  const handleMove = async (index: number, offset: -1 | 1): Promise<void> => {
+    const from = series.postIds.indexOf(posts[index]._id);
+    const to = series.postIds.indexOf(posts[index + offset]._id);
+    const postIds = [...series.postIds];
+    [postIds[from], postIds[to]] = [postIds[to], postIds[from]];
+
+    try {
+      await reorderSeries({ id: series._id, postIds });
+      toast.success("Series order updated");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  return (
+    <div className="min-h-screen text-[#A1A1AA]">
+      <PublicHeader link={`/${username}`} title="Back to Profile" />
+
+      <div className="max-w-4xl mx-auto px-6 py-12 space-y-8">
+        {/* Series header */}
+        <div className="space-y-4">
+          <p className="text-sm uppercase tracking-wide text-[#6B7280] flex items-center">
+            <Layers className="h-4 w-4 mr-2" />
+            Series • {posts.length} {posts.length === 1 ? "part" : "parts"}
+          </p>
+          <h1 className="text-4xl font-bold gradient-text-primary">
+            {series.title}
+          </h1>
+          {series.description && (
+            <p className="text-lg text-[#A1A1AA]">{series.description}</p>
+          )}
+
+          <Link
+            href={`/${username}`}
+            className="inline-flex items-center gap-3"
+          >
+            <div className="relative w-8 h-8">
+              {author.imageUrl ? (
+                <Image
+                  src={author.imageUrl}
+                  alt={author.name}
+                  fill
+                  className="rounded-full object-cover"
+                  sizes="32px"
+                />
+              ) : (
+                <div className="w-full h-full rounded-full bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-sm font-bold">
+                  {author.name.charAt(0).toUpperCase()}
+                </div>
+              )}
+            </div>
+            <span className="text-[#EDEEF0] font-medium">{author.name}</span>
+          </Link>
+        </div>
+
+        {/* Parts */}
+        {posts.length === 0 ? (
+          <Card className="card-glass">
+            <CardContent className="text-center py-12">
+              <p className="text-slate-400 text-lg">No parts published yet</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <ol className="space-y-4">
+            {posts.map((post, index) => (
+              <li key={post._id}>
+                <Card className="card-glass">
+                  <CardContent className="p-6 flex items-start gap-4">
+                    <span className="text-2xl font-bold text-[#4B5563] w-8 flex-shrink-0">
+                      {index + 1}
+                    </span>
+                    <div className="min-w-0 flex-1">
+                      <Link
+                        href={`/${username}/${post.slug || post._id}`}
+                        className="text-lg font-semibold text-[#EDEEF0] hover:underline"
+                      >
+                        {post.title}
+                      </Link>
+                      {post.publishedAt && (
+                        <p className="text-sm text-[#6B7280] mt-1">
+                          {new Date(post.publishedAt).toLocaleDateString(
+                            "en-US",
+                            { month: "long", day: "numeric", year: "numeric" }
+                          )}
+                        </p>
+                      )}
+                    </div>
+
+                    {isOwner && (
+                      <div className="flex flex-col gap-1 flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={index === 0 || isReordering}
+                          onClick={() => handleMove(index, -1)}
+                          aria-label="Move up"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={index === posts.length - 1 || isReordering}
+                          onClick={() => handleMove(index, 1)}
+                          aria-label="Move down"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+import { usePaginatedQuery } from "convex/react";
+import { FolderOpen } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import PaginatedPostGrid from "@/components/paginated-post-grid";
+import PublicHeader from "../../[username]/_components/public-header";
+
+interface CategoryPageProps {
+  params: Promise<{
+    category: string;
+  }>;
+}
+
+const PAGE_SIZE = 12;
+
+export default function CategoryPage({ params }: CategoryPageProps) {
+  const { category: categoryParam } = React.use(params);
+  const category = decodeURIComponent(categoryParam);
+
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.tags.getCategoryPosts,
+    { category },
+    { initialNumItems: PAGE_SIZE }
+  );
+
+  return (
+    <div className="min-h-screen text-[#A1A1AA]">
+      <PublicHeader link="/feed" title="Back to Feed" />
+
+      <div className="max-w-7xl mx-auto px-6 py-12">
+        <div className="text-center mb-12">
+          <p className="text-xs uppercase tracking-wide text-[#6B7280] flex items-center justify-center mb-2">
+            <FolderOpen className="h-3 w-3 mr-1" />
+            Category
+          </p>
+          <h1 className="text-4xl font-bold gradient-text-primary">{category}</h1>
+        </div>
+
+        <PaginatedPostGrid
+          posts={results}
+          status={status}
+          loadMore={loadMore}
+          pageSize={PAGE_SIZE}
+          emptyMessage={`No posts in ${category} yet`}
+        />
+      </div>
+    </div>
+  );
+}
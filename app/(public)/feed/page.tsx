@@ -1,10 +1,19 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { useInView } from "react-intersection-observer";
-import { TrendingUp, UserPlus, Loader2, Sparkles } from "lucide-react";
+import { usePaginatedQuery } from "convex/react";
+import {
+  TrendingUp,
+  UserPlus,
+  Loader2,
+  Sparkles,
+  Hash,
+  Users,
+  Clock,
+} from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { api } from "@/convex/_generated/api";
@@ -14,15 +23,16 @@ import { toast } from "sonner";
 import PostCard from "@/components/post-card";
 import type { Post } from "@/components/post-card";
 import type { Id } from "@/convex/_generated/dataModel";
+import { tagUrl } from "@/lib/tags";
+import {
+  DEFAULT_TRENDING_WINDOW,
+  TRENDING_WINDOWS,
+  TRENDING_WINDOW_OPTIONS,
+  type TrendingWindow,
+} from "@/lib/trending";
 
 // Type definitions
-type TabType = "feed" | "trending";
-
-type FeedResponse = {
-  posts: Post[];
-  hasMore: boolean;
-  nextCursor?: Id<"posts"> | null;
-};
+type TabType = "forYou" | "following" | "latest" | "trending";
 
 type RecentPost = {
   _id: Id<"posts">;
@@ -32,6 +42,11 @@ type RecentPost = {
   likeCount: number;
 };
 
+type PopularTag = {
+  tag: string;
+  postCount: number;
+};
+
 type SuggestedUser = {
   _id: Id<"users">;
   name: string;
@@ -44,20 +59,45 @@ type SuggestedUser = {
 
 const convexApi = api as any;
 
+const FEED_TABS: { id: TabType; label: string; icon: typeof TrendingUp }[] = [
+  { id: "forYou", label: "For You", icon: Sparkles },
+  { id: "following", label: "Following", icon: Users },
+  { id: "latest", label: "Latest", icon: Clock },
+  { id: "trending", label: "Trending", icon: TrendingUp },
+];
+
+const FEED_QUERIES = {
+  forYou: convexApi.feed.getForYouFeed,
+  following: convexApi.feed.getFollowingFeed,
+  latest: convexApi.feed.getFeed,
+  trending: convexApi.trending.getTrendingPosts,
+} satisfies Record<TabType, unknown>;
+
+const PAGE_SIZE = 15;
+
 export default function FeedPage(): React.JSX.Element {
   const { user: currentUser } = useUser();
-  const [activeTab, setActiveTab] = useState<TabType>("feed");
+  const [activeTab, setActiveTab] = useState<TabType>("forYou");
+  const [trendingWindow, setTrendingWindow] = useState<TrendingWindow>(
+    DEFAULT_TRENDING_WINDOW
+  );
 
   // Infinite scroll detection
-  const { ref: loadMoreRef } = useInView({
+  const { ref: loadMoreRef, inView } = useInView({
     threshold: 0,
     rootMargin: "100px",
   });
 
-  // Data queries
-  const { data: feedData, isLoading: feedLoading } = useConvexQuery<
-    FeedResponse | undefined
-  >(convexApi.feed.getFeed, { limit: 15 });
+  // Data queries - the active tab's posts, a page at a time
+  const {
+    results: currentPosts,
+    status: feedStatus,
+    loadMore,
+  } = usePaginatedQuery(
+    FEED_QUERIES[activeTab],
+    activeTab === "trending" ? { window: trendingWindow } : {},
+    { initialNumItems: PAGE_SIZE }
+  );
 
   const { data: suggestedUsers, isLoading: suggestionsLoading } =
     useConvexQuery<SuggestedUser[] | undefined>(
@@ -65,9 +105,9 @@ export default function FeedPage(): React.JSX.Element {
       { limit: 6 }
     );
 
-  const { data: trendingPosts, isLoading: trendingLoading } = useConvexQuery<
-    Post[] | undefined
-  >(convexApi.feed.getTrendingPosts, { limit: 15 });
+  const { data: popularTags, isLoading: tagsLoading } = useConvexQuery<
+    PopularTag[] | undefined
+  >(convexApi.tags.getPopularTags, { limit: 12 });
 
   // Mutations
   const toggleFollow = useConvexMutation(convexApi.follows.toggleFollow);
@@ -91,20 +131,14 @@ export default function FeedPage(): React.JSX.Element {
     }
   };
 
-  // Get current posts based on active tab
-  const getCurrentPosts = (): Post[] => {
-    switch (activeTab) {
-      case "trending":
-        return trendingPosts || [];
-      default:
-        return feedData?.posts || [];
+  // Fetch the next page once the reader scrolls near the end
+  useEffect(() => {
+    if (inView && feedStatus === "CanLoadMore") {
+      loadMore(PAGE_SIZE);
     }
-  };
-
-  const currentPosts: Post[] = getCurrentPosts();
+  }, [inView, feedStatus, loadMore]);
 
-  const isLoading: boolean =
-    feedLoading || (activeTab === "trending" && trendingLoading);
+  const isLoading: boolean = feedStatus === "LoadingFirstPage";
   
   return (
     <div className="min-h-screen text-[#A1A1AA] pt-32 pb-12 relative">
@@ -132,29 +166,41 @@ export default function FeedPage(): React.JSX.Element {
           <div className="lg:col-span-4 space-y-6">
             {/* Feed Tabs */}
             <div className="flex space-x-3 p-1 bg-[#0B0D10] rounded-xl border border-[#1F2228]">
-              <button
-                onClick={() => setActiveTab("feed")}
-                className={`flex-1 px-4 py-2.5 rounded-lg font-medium text-sm transition-all duration-200 ${
-                  activeTab === "feed"
-                    ? "bg-gradient-to-b from-[#F9FAFB] to-[#D4D4D8] text-[#0B0D10] shadow-sm"
-                    : "text-[#9CA3AF] hover:text-[#D1D5DB] hover:bg-[#111318]/50"
-                }`}
-              >
-                For You
-              </button>
-              <button
-                onClick={() => setActiveTab("trending")}
-                className={`flex-1 px-4 py-2.5 rounded-lg font-medium text-sm transition-all duration-200 flex items-center justify-center ${
-                  activeTab === "trending"
-                    ? "bg-gradient-to-b from-[#F9FAFB] to-[#D4D4D8] text-[#0B0D10] shadow-sm"
-                    : "text-[#9CA3AF] hover:text-[#D1D5DB] hover:bg-[#111318]/50"
-                }`}
-              >
-                <TrendingUp className="h-4 w-4 mr-2" />
-                Trending
-              </button>
+              {FEED_TABS.map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => setActiveTab(id)}
+                  className={`flex-1 px-4 py-2.5 rounded-lg font-medium text-sm transition-all duration-200 flex items-center justify-center ${
+                    activeTab === id
+                      ? "bg-gradient-to-b from-[#F9FAFB] to-[#D4D4D8] text-[#0B0D10] shadow-sm"
+                      : "text-[#9CA3AF] hover:text-[#D1D5DB] hover:bg-[#111318]/50"
+                  }`}
+                >
+                  <Icon className="h-4 w-4 mr-2 hidden sm:block" />
+                  {label}
+                </button>
+              ))}
             </div>
 
+            {/* Trending Window */}
+            {activeTab === "trending" && (
+              <div className="flex justify-end space-x-1">
+                {TRENDING_WINDOWS.map((window) => (
+                  <button
+                    key={window}
+                    onClick={() => setTrendingWindow(window)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                      trendingWindow === window
+                        ? "bg-[#1F2228] text-[#EDEEF0]"
+                        : "text-[#6B7280] hover:text-[#D1D5DB]"
+                    }`}
+                  >
+                    {TRENDING_WINDOW_OPTIONS[window].label}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Create Post Prompt */}
             {currentUser && (
               <Link
@@ -205,12 +251,16 @@ export default function FeedPage(): React.JSX.Element {
                       <h3 className="text-2xl font-bold text-[#EDEEF0] mb-3">
                         {activeTab === "trending"
                           ? "No trending posts right now"
-                          : "No posts to show"}
+                          : activeTab === "following"
+                            ? "Nothing from the people you follow yet"
+                            : "No posts to show"}
                       </h3>
                       <p className="text-[#9CA3AF] text-base leading-relaxed max-w-md mx-auto">
                         {activeTab === "trending"
                           ? "Check back later for trending content"
-                          : "Your feed is empty for now — follow creators to see ideas appear here."}
+                          : activeTab === "following" && !currentUser
+                            ? "Sign in and follow creators to see their posts here."
+                            : "Your feed is empty for now — follow creators to see ideas appear here."}
                       </p>
                     </div>
                   </div>
@@ -236,9 +286,11 @@ export default function FeedPage(): React.JSX.Element {
                 </div>
 
                 {/* Load More Indicator */}
-                {activeTab === "feed" && feedData?.hasMore && (
+                {feedStatus !== "Exhausted" && (
                   <div ref={loadMoreRef} className="flex justify-center py-8">
-                    <Loader2 className="h-6 w-6 animate-spin text-[#9CA3AF]" />
+                    {feedStatus === "LoadingMore" && (
+                      <Loader2 className="h-6 w-6 animate-spin text-[#9CA3AF]" />
+                    )}
                   </div>
                 )}
               </>
@@ -326,6 +378,42 @@ export default function FeedPage(): React.JSX.Element {
                 )}
               </CardContent>
             </Card>
+
+            {/* Popular Tags */}
+            <Card className="card-glass">
+              <CardHeader>
+                <CardTitle className="text-[#EDEEF0] flex items-center">
+                  <Hash className="h-5 w-5 mr-2 text-[#9CA3AF]" />
+                  Popular Tags
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {tagsLoading ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-5 w-5 animate-spin text-[#9CA3AF]" />
+                  </div>
+                ) : !popularTags || popularTags.length === 0 ? (
+                  <div className="text-center py-4">
+                    <p className="text-[#6B7280] text-sm">No tags yet</p>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {popularTags.map((tag: PopularTag) => (
+                      <Link
+                        key={tag.tag}
+                        href={tagUrl(tag.tag)}
+                        className="px-3 py-1 rounded-full border border-[#1F2228] bg-[#111318] text-xs text-[#A1A1AA] hover:text-[#EDEEF0] hover:border-[#2A2D35] transition-colors"
+                      >
+                        #{tag.tag}
+                        <span className="ml-1 text-[#6B7280]">
+                          {tag.postCount}
+                        </span>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </div>
         </div>
       </div>
@@ -0,0 +1,15 @@
+import React from "react";
+
+// Draft previews are shared privately and must never be indexed
+export const metadata = {
+  title: "Post Preview",
+  robots: { index: false, follow: false },
+};
+
+export default function PreviewLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import React from "react";
+import { notFound } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { EyeOff } from "lucide-react";
+import PublicHeader from "../../[username]/_components/public-header";
+import PostArticle, { type PostWithAuthor } from "@/components/post-article";
+import { useConvexQuery } from "@/hooks/use-convex-query";
+import { api } from "@/convex/_generated/api";
+
+type PreviewPost = PostWithAuthor & {
+  previewExpiresAt: number;
+};
+
+interface PreviewPageProps {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+const PreviewPage: React.FC<PreviewPageProps> = ({ params }) => {
+  const { token } = React.use(params);
+
+  const { data: post, isLoading } = useConvexQuery<PreviewPost | null>(
+    api.previews.getPreviewPost,
+    { token }
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#A1A1AA] mx-auto mb-4"></div>
+          <p className="text-[#6B7280]">Loading preview...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Unknown, expired and revoked links all look the same
+  if (!post) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen text-[#A1A1AA]">
+      <PublicHeader link={`/${post.author.username}`} title="Back to Profile" />
+
+      {/* Preview banner */}
+      <div className="bg-amber-500/10 border-b border-amber-500/30">
+        <div className="max-w-4xl mx-auto px-6 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+          <div className="flex items-center gap-2 text-amber-300 font-medium">
+            <EyeOff className="h-4 w-4" />
+            Preview
+            {post.status !== "published" && " • This post isn't published yet"}
+          </div>
+          <span className="text-amber-200/70">
+            Link expires{" "}
+            {formatDistanceToNow(new Date(post.previewExpiresAt), {
+              addSuffix: true,
+            })}
+          </span>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-6 py-8">
+        <PostArticle post={post} showStats={false} />
+      </div>
+    </div>
+  );
+};
+
+export default PreviewPage;
@@ -0,0 +1,156 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { notFound } from "next/navigation";
+import { Calendar } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { api } from "@/convex/_generated/api";
+import { useConvexQuery } from "@/hooks/use-convex-query";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import PostCard, { type Post } from "@/components/post-card";
+import PublicHeader from "../../[username]/_components/public-header";
+
+// Type definitions
+type Member = {
+  _id: Id<"users">;
+  name: string;
+  username?: string;
+  imageUrl?: string;
+  role: "admin" | "editor" | "writer";
+};
+
+type PublishedPublication = {
+  publication: Doc<"publications">;
+  members: Member[];
+  posts: Post[];
+} | null;
+
+interface PublicationPageProps {
+  params: Promise<{
+    slug: string;
+  }>;
+}
+
+export default function PublicationPage({ params }: PublicationPageProps) {
+  const { slug } = React.use(params);
+
+  const { data, isLoading, error } = useConvexQuery<PublishedPublication>(
+    api.publications.getPublishedPublication,
+    { slug }
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#A1A1AA] mx-auto mb-4"></div>
+          <p className="text-[#6B7280]">Loading publication...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    notFound();
+  }
+
+  const { publication, members, posts } = data;
+
+  return (
+    <div className="min-h-screen text-[#A1A1AA]">
+      <PublicHeader link="/" title="Back to Home" />
+
+      <div className="max-w-7xl mx-auto px-6 py-12">
+        {/* Publication Header */}
+        <div className="text-center mb-12">
+          <div className="relative w-24 h-24 mx-auto mb-6">
+            {publication.logoUrl ? (
+              <Image
+                src={publication.logoUrl}
+                alt={publication.name}
+                fill
+                className="rounded-xl object-cover border-2 border-slate-700"
+                sizes="96px"
+              />
+            ) : (
+              <div className="w-full h-full rounded-xl bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-2xl font-bold">
+                {publication.name.charAt(0).toUpperCase()}
+              </div>
+            )}
+          </div>
+
+          <h1 className="text-4xl font-bold mb-2 gradient-text-primary">
+            {publication.name}
+          </h1>
+
+          {publication.description && (
+            <p className="text-lg text-[#6B7280] mb-4 max-w-2xl mx-auto">
+              {publication.description}
+            </p>
+          )}
+
+          <div className="flex items-center justify-center text-sm text-[#4B5563]">
+            <Calendar className="h-4 w-4 mr-2" />
+            Since{" "}
+            {new Date(publication.createdAt).toLocaleDateString("en-US", {
+              month: "long",
+              year: "numeric",
+            })}
+          </div>
+        </div>
+
+        {/* Members */}
+        <div className="flex flex-wrap justify-center gap-4 mb-12">
+          {members.map((member) => (
+            <Link
+              key={member._id}
+              href={`/${member.username}`}
+              className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+            >
+              <div className="relative w-8 h-8">
+                {member.imageUrl ? (
+                  <Image
+                    src={member.imageUrl}
+                    alt={member.name}
+                    fill
+                    className="rounded-full object-cover"
+                    sizes="32px"
+                  />
+                ) : (
+                  <div className="w-full h-full rounded-full bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-sm font-bold">
+                    {member.name.charAt(0).toUpperCase()}
+                  </div>
+                )}
+              </div>
+              <span className="text-sm text-[#D1D5DB]">{member.name}</span>
+            </Link>
+          ))}
+        </div>
+
+        {/* Posts */}
+        <div className="space-y-6">
+          <h2 className="text-2xl font-bold text-white">Recent Posts</h2>
+
+          {posts.length === 0 ? (
+            <Card className="card-glass">
+              <CardContent className="text-center py-12">
+                <p className="text-slate-400 text-lg">No posts yet</p>
+                <p className="text-slate-500 text-sm mt-2">
+                  Check back later for new content!
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {posts.map((post) => (
+                <PostCard key={post._id} post={post} showActions={false} />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQuery } from "convex/react";
+import { Search, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/convex/_generated/api";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { CATEGORIES } from "@/components/post-editor-settings";
+import SearchResultCard from "@/components/search-result-card";
+import PublicHeader from "../[username]/_components/public-header";
+
+// Type definitions
+type SearchFilters = {
+  q?: string;
+  author?: string; // Username
+  tag?: string;
+  category?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD, inclusive
+};
+
+interface SearchPageProps {
+  searchParams: Promise<SearchFilters>;
+}
+
+const ALL_CATEGORIES = "all";
+const DAY_MS: number = 24 * 60 * 60 * 1000;
+
+// Local midnight of a YYYY-MM-DD date, or undefined when it's missing or invalid
+const toTimestamp = (date?: string): number | undefined => {
+  if (!date) return undefined;
+  const timestamp = new Date(`${date}T00:00:00`).getTime();
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+};
+
+export default function SearchPage({ searchParams }: SearchPageProps) {
+  const router = useRouter();
+  const filters = React.use(searchParams);
+
+  // Typed filters are applied once the user pauses
+  const [text, setText] = useState<string>(filters.q ?? "");
+  const [author, setAuthor] = useState<string>(filters.author ?? "");
+  const [tag, setTag] = useState<string>(filters.tag ?? "");
+  const debouncedText = useDebouncedValue(text.trim(), 300);
+  const debouncedAuthor = useDebouncedValue(author.trim().replace(/^@/, ""), 300);
+  const debouncedTag = useDebouncedValue(tag.trim().replace(/^#/, ""), 300);
+
+  // Keep the filters in the URL so searches can be shared and revisited
+  const applyFilters = React.useCallback(
+    (changes: SearchFilters): void => {
+      const next = new URLSearchParams();
+      Object.entries({ ...filters, ...changes }).forEach(([key, value]) => {
+        if (value) next.set(key, value);
+      });
+      router.replace(`/search?${next.toString()}`, { scroll: false });
+    },
+    [filters, router]
+  );
+
+  useEffect(() => {
+    if (
+      debouncedText !== (filters.q ?? "") ||
+      debouncedAuthor !== (filters.author ?? "") ||
+      debouncedTag !== (filters.tag ?? "")
+    ) {
+      applyFilters({
+        q: debouncedText,
+        author: debouncedAuthor,
+        tag: debouncedTag,
+      });
+    }
+  }, [debouncedText, debouncedAuthor, debouncedTag, filters, applyFilters]);
+
+  const from = toTimestamp(filters.from);
+  const to = toTimestamp(filters.to);
+  const hasFilters = !!(
+    filters.author ||
+    filters.tag ||
+    filters.category ||
+    filters.from ||
+    filters.to
+  );
+
+  const results = useQuery(
+    api.search.searchPosts,
+    filters.q || hasFilters
+      ? {
+          query: filters.q ?? "",
+          author: filters.author,
+          tag: filters.tag,
+          category: filters.category,
+          from,
+          to: to !== undefined ? to + DAY_MS : undefined,
+        }
+      : "skip"
+  );
+
+  // The typed filters clear through the debounce like any other edit
+  const clearFilters = (): void => {
+    setAuthor("");
+    setTag("");
+    applyFilters({
+      category: undefined,
+      from: undefined,
+      to: undefined,
+    });
+  };
+
+  return (
+    <div className="min-h-screen text-[#A1A1AA]">
+      <PublicHeader link="/feed" title="Back to Feed" />
+
+      <div className="max-w-4xl mx-auto px-6 py-12 space-y-8">
+        <div className="text-center">
+          <h1 className="text-4xl font-bold mb-2 gradient-text-primary">Search</h1>
+          <p className="text-[#6B7280]">
+            Find posts by what they say, their tags or their category
+          </p>
+        </div>
+
+        {/* Search box */}
+        <div className="relative">
+          <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 h-5 w-5 text-[#6B7280]" />
+          <Input
+            autoFocus
+            placeholder="Search posts..."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="pl-12 h-12 text-base bg-[#111318] border-[#1F2228]"
+          />
+        </div>
+
+        {/* Filters */}
+        <Card className="card-glass">
+          <CardContent className="p-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+            <Input
+              placeholder="Author username"
+              value={author}
+              onChange={(e) => setAuthor(e.target.value)}
+              className="bg-[#111318] border-[#1F2228]"
+            />
+            <Input
+              placeholder="Tag"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              className="bg-[#111318] border-[#1F2228]"
+            />
+            <Select
+              value={filters.category ?? ALL_CATEGORIES}
+              onValueChange={(value) =>
+                applyFilters({
+                  category: value === ALL_CATEGORIES ? undefined : value,
+                })
+              }
+            >
+              <SelectTrigger className="w-full bg-[#111318] border-[#1F2228]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {CATEGORIES.map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {category}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              aria-label="Published from"
+              value={filters.from ?? ""}
+              onChange={(e) => applyFilters({ from: e.target.value })}
+              className="bg-[#111318] border-[#1F2228]"
+            />
+            <Input
+              type="date"
+              aria-label="Published until"
+              value={filters.to ?? ""}
+              onChange={(e) => applyFilters({ to: e.target.value })}
+              className="bg-[#111318] border-[#1F2228]"
+            />
+          </CardContent>
+        </Card>
+
+        {hasFilters && (
+          <div className="flex justify-end -mt-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={clearFilters}
+              className="text-[#6B7280] hover:text-[#EDEEF0]"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear filters
+            </Button>
+          </div>
+        )}
+
+        {/* Results */}
+        {!filters.q && !hasFilters ? (
+          <p className="text-center text-[#6B7280] py-12">
+            Start typing to search published posts
+          </p>
+        ) : results === undefined ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#A1A1AA]"></div>
+          </div>
+        ) : results.length === 0 ? (
+          <Card className="card-glass">
+            <CardContent className="text-center py-12">
+              <p className="text-slate-400 text-lg">No posts found</p>
+              <p className="text-slate-500 text-sm mt-2">
+                Try different words or fewer filters
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {results.map((result) => (
+              <SearchResultCard
+                key={result._id}
+                result={result}
+                query={filters.q ?? ""}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import React from "react";
+import { usePaginatedQuery } from "convex/react";
+import { Hash } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { useConvexQuery } from "@/hooks/use-convex-query";
+import { normalizeTag } from "@/lib/tags";
+import PaginatedPostGrid from "@/components/paginated-post-grid";
+import PublicHeader from "../../[username]/_components/public-header";
+
+// Type definitions
+type TagCount = {
+  tag: string;
+  postCount: number;
+} | null;
+
+interface TagPageProps {
+  params: Promise<{
+    tag: string;
+  }>;
+}
+
+const PAGE_SIZE = 12;
+
+export default function TagPage({ params }: TagPageProps) {
+  const { tag: tagParam } = React.use(params);
+  const tag = normalizeTag(decodeURIComponent(tagParam));
+
+  const { data: tagCount } = useConvexQuery<TagCount>(api.tags.getTag, { tag });
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.tags.getTagPosts,
+    { tag },
+    { initialNumItems: PAGE_SIZE }
+  );
+
+  return (
+    <div className="min-h-screen text-[#A1A1AA]">
+      <PublicHeader link="/feed" title="Back to Feed" />
+
+      <div className="max-w-7xl mx-auto px-6 py-12">
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold mb-2 gradient-text-primary flex items-center justify-center">
+            <Hash className="h-8 w-8 mr-1 text-[#6B7280]" />
+            {tag}
+          </h1>
+          {tagCount && (
+            <p className="text-[#6B7280]">
+              {tagCount.postCount.toLocaleString()}{" "}
+              {tagCount.postCount === 1 ? "post" : "posts"}
+            </p>
+          )}
+        </div>
+
+        <PaginatedPostGrid
+          posts={results}
+          status={status}
+          loadMore={loadMore}
+          pageSize={PAGE_SIZE}
+          emptyMessage={`No posts tagged #${tag} yet`}
+        />
+      </div>
+    </div>
+  );
+}
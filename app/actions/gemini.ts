@@ -1,6 +1,7 @@
 "use server";
 
 import { GoogleGenAI } from "@google/genai";
+import { sanitizeHtml } from "@/lib/sanitize-html";
 
 // Validate API key
 if (!process.env.GEMINI_API_KEY) {
@@ -64,7 +65,8 @@ function cleanAndStructureHTML(html: string): string {
     cleaned = "<p>" + cleaned.trim() + "</p>";
   }
 
-  return cleaned.trim();
+  // Model output is untrusted - keep only what the editor can produce
+  return sanitizeHtml(cleaned.trim());
 }
 
 export async function generateBlogContent(
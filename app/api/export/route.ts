@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { fetchQuery } from "convex/nextjs";
+import { api } from "@/convex/_generated/api";
+import type { Doc } from "@/convex/_generated/dataModel";
+import { htmlToMarkdown, toFrontMatter } from "@/lib/markdown";
+import { createZip, type ZipEntry } from "@/lib/zip";
+
+interface ExportErrorResponse {
+  success: false;
+  error: string;
+  details?: string;
+}
+
+interface ManifestEntry {
+  id: string;
+  file: string;
+  title: string;
+  slug?: string;
+  status: "draft" | "in_review" | "published";
+  visibility: string;
+  tags: string[];
+  category?: string;
+  featuredImage?: string;
+  createdAt: string;
+  updatedAt: string;
+  publishedAt?: string;
+  scheduledFor?: string;
+  viewCount: number;
+  likeCount: number;
+}
+
+const toIso = (timestamp?: number): string | undefined =>
+  timestamp !== undefined ? new Date(timestamp).toISOString() : undefined;
+
+// Markdown file for one post, with front matter the Markdown importer understands
+const toMarkdownFile = (post: Doc<"posts">): string =>
+  toFrontMatter({
+    title: post.title,
+    slug: post.slug,
+    status: post.status,
+    visibility: post.visibility ?? "public",
+    category: post.category,
+    tags: post.tags,
+    cover_image: post.featuredImage,
+    created_at: toIso(post.createdAt),
+    updated_at: toIso(post.updatedAt),
+    published_at: toIso(post.publishedAt),
+  }) +
+  "\n" +
+  htmlToMarkdown(post.content);
+
+export async function GET(): Promise<Response> {
+  try {
+    // Verify authentication
+    const { userId, getToken } = await auth();
+    const token = await getToken({ template: "convex" });
+    if (!userId || !token) {
+      return NextResponse.json<ExportErrorResponse>(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const user: Doc<"users"> = await fetchQuery(
+      api.users.getCurrentUser,
+      {},
+      { token }
+    );
+
+    // getUserPosts also lists posts the user only co-authors - those stay
+    // with their authors' archives
+    const posts: Doc<"posts">[] = (
+      await fetchQuery(api.posts.getUserPosts, {}, { token })
+    ).filter((post: Doc<"posts">) => post.authorId === user._id);
+
+    const files: ZipEntry[] = [];
+    const manifest: ManifestEntry[] = [];
+    const usedFiles: Set<string> = new Set();
+
+    for (const post of posts) {
+      // Slugs are unique per author, but older posts may still share one -
+      // never let one file overwrite another in the zip
+      let file = `posts/${post.slug || post._id}.md`;
+      if (usedFiles.has(file)) {
+        file = `posts/${post.slug}-${post._id}.md`;
+      }
+      usedFiles.add(file);
+      files.push({ name: file, data: toMarkdownFile(post) });
+
+      manifest.push({
+        id: post._id,
+        file,
+        title: post.title,
+        slug: post.slug,
+        status: post.status,
+        visibility: post.visibility ?? "public",
+        tags: post.tags,
+        category: post.category,
+        featuredImage: post.featuredImage,
+        createdAt: toIso(post.createdAt)!,
+        updatedAt: toIso(post.updatedAt)!,
+        publishedAt: toIso(post.publishedAt),
+        scheduledFor: toIso(post.scheduledFor),
+        viewCount: post.viewCount,
+        likeCount: post.likeCount,
+      });
+    }
+
+    files.push({
+      name: "posts.json",
+      data: JSON.stringify(
+        { exportedAt: new Date().toISOString(), posts: manifest },
+        null,
+        2
+      ),
+    });
+
+    const zip = createZip(files);
+    const fileName = `creatr-export-${new Date().toISOString().slice(0, 10)}.zip`;
+
+    return new Response(zip as BodyInit, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Content export error:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json<ExportErrorResponse>(
+      {
+        success: false,
+        error: "Failed to export posts",
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
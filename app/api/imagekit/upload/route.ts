@@ -53,18 +53,25 @@ export async function POST(
     // Get form data
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
+    const url = formData.get("url") as string | null; // Remote image to rehost
     const fileName = formData.get("fileName") as string | null;
 
-    if (!file) {
+    if (!file && !url) {
       return NextResponse.json(
         { success: false, error: "No file provided" },
         { status: 400 }
       );
     }
 
-    // Convert file to buffer
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
+    if (url && !/^https?:\/\//i.test(url)) {
+      return NextResponse.json(
+        { success: false, error: "Image URL must start with http(s)://" },
+        { status: 400 }
+      );
+    }
+
+    // Convert file to buffer; ImageKit fetches remote URLs itself
+    const source = file ? Buffer.from(await file.arrayBuffer()) : url!;
 
     // Generate unique filename
     const timestamp = Date.now();
@@ -74,7 +81,7 @@ export async function POST(
 
     // Upload to ImageKit - Simple server-side upload
     const uploadResponse = await imagekit.upload({
-      file: buffer,
+      file: source,
       fileName: uniqueFileName,
       folder: "/blog_images",
     });
@@ -1,20 +1,25 @@
 "use client";
 
-import React from "react";
-import { ArrowRight, Loader2 } from "lucide-react";
+import React, { useState } from "react";
+import { ArrowRight, FileText, Loader2, PlusCircle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import { api } from "@/convex/_generated/api";
 import { useConvexQuery } from "@/hooks/use-convex-query";
 import PostEditor from "@/components/post-editor";
+import MarkdownImportButton from "@/components/markdown-import-button";
+import { isOverdueSchedule } from "@/components/post-card";
 import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
 import Link from "next/link";
 import { type Id } from "@/convex/_generated/dataModel";
+import { type PostVisibility } from "@/lib/visibility";
 
 type PostData = {
   _id: Id<"posts">;
   _creationTime: number;
   title: string;
   content: string;
-  status: "draft" | "published";
+  status: "draft" | "in_review" | "published";
   authorId: Id<"users">;
   tags: string[];
   category?: string;
@@ -23,6 +28,8 @@ type PostData = {
   updatedAt: number;
   publishedAt?: number;
   scheduledFor?: number;
+  visibility?: PostVisibility;
+  seriesId?: Id<"series">;
   viewCount: number;
   likeCount: number;
 };
@@ -39,15 +46,35 @@ type UserData = {
   lastActiveAt: number;
 };
 
-export default function CreatePostPage() {
-  // Get existing draft
-  const { data: existingDraft, isLoading: isDraftLoading } =
-    useConvexQuery<PostData | null>(api.posts.getUserDraft);
+interface CreatePostPageProps {
+  searchParams: Promise<{
+    draft?: string;
+  }>;
+}
+
+export default function CreatePostPage({ searchParams }: CreatePostPageProps) {
+  const { draft: draftParam } = React.use(searchParams);
+  const [startNew, setStartNew] = useState<boolean>(false);
+
+  // All drafts the user can resume
+  const { data: drafts, isLoading: isDraftsLoading } =
+    useConvexQuery<PostData[]>(api.posts.getUserDrafts);
+
+  // Draft explicitly requested via ?draft=<id>
+  const { data: requestedDraft, isLoading: isRequestedLoading } =
+    useConvexQuery<PostData | null>(
+      api.posts.getById,
+      draftParam ? { id: draftParam as Id<"posts"> } : "skip"
+    );
 
   const { data: currentUser, isLoading: userLoading } =
     useConvexQuery<UserData>(api.users.getCurrentUser);
 
-  if (isDraftLoading || userLoading) {
+  if (
+    isDraftsLoading ||
+    userLoading ||
+    (draftParam && isRequestedLoading)
+  ) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="flex items-center space-x-3">
@@ -79,5 +106,73 @@ export default function CreatePostPage() {
     );
   }
 
-  return <PostEditor initialData={existingDraft} mode="create" />;
-}
\ No newline at end of file
+  // Resume the requested draft if it's one of ours
+  const resumeDraft =
+    draftParam && requestedDraft?.authorId === currentUser._id
+      ? requestedDraft
+      : null;
+
+  if (resumeDraft) {
+    return (
+      <PostEditor key={resumeDraft._id} initialData={resumeDraft} mode="create" />
+    );
+  }
+
+  // Let the writer pick up an existing draft or start a fresh one
+  if (!startNew && drafts && drafts.length > 0) {
+    return (
+      <div className="space-y-6 p-4 lg:p-8 max-w-3xl mx-auto">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-[#EDEEF0]">Create Post</h1>
+            <p className="text-[#9CA3AF] mt-2">
+              Continue one of your drafts or start something new
+            </p>
+          </div>
+
+          <div className="flex gap-3">
+            <MarkdownImportButton />
+            <Button variant="primary" onClick={() => setStartNew(true)}>
+              <PlusCircle className="h-4 w-4 mr-2" />
+              Start New Post
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {drafts.map((draft) => (
+            <Link key={draft._id} href={`/dashboard/create?draft=${draft._id}`}>
+              <Card className="card-glass hover:border-[#E5E7EB]/20 transition-colors mb-3">
+                <CardContent className="p-5 flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <FileText className="h-5 w-5 text-[#6B7280] flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-[#EDEEF0] truncate">
+                        {draft.title || "Untitled draft"}
+                      </p>
+                      <p className="text-xs text-[#6B7280]">
+                        Edited{" "}
+                        {formatDistanceToNow(new Date(draft.updatedAt), {
+                          addSuffix: true,
+                        })}
+                        {draft.scheduledFor &&
+                          ` • Scheduled for ${new Date(
+                            draft.scheduledFor
+                          ).toLocaleString()}${
+                            isOverdueSchedule(draft) ? " (overdue)" : ""
+                          }`}
+                      </p>
+                    </div>
+                  </div>
+                  <ArrowRight className="h-4 w-4 text-[#6B7280] flex-shrink-0" />
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return <PostEditor key="new" mode="create" />;
+}
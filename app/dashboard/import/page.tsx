@@ -0,0 +1,425 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle2,
+  FileUp,
+  ImageIcon,
+  Loader2,
+  Upload,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { matchCategory } from "@/components/post-editor-settings";
+import { api } from "@/convex/_generated/api";
+import { useConvexQuery, useConvexMutation } from "@/hooks/use-convex-query";
+import { uploadUrlToImageKit } from "@/lib/imagekit";
+import {
+  parseImportFile,
+  replaceImageUrls,
+  type ImportCandidate,
+  type ImportReport,
+} from "@/lib/post-import";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+type ImportProgress = {
+  done: number;
+  total: number;
+  current?: string;
+};
+
+type ImportResult = {
+  imported: number;
+  failed: { title: string; error: string }[];
+  imagesFailed: number;
+};
+
+const formatDate = (timestamp?: number): string =>
+  timestamp
+    ? new Date(timestamp).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })
+    : "—";
+
+export default function ImportPage() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isParsing, setIsParsing] = useState<boolean>(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [rehostImages, setRehostImages] = useState<boolean>(true);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const { data: existingPosts } = useConvexQuery<Doc<"posts">[]>(
+    api.posts.getUserPosts
+  );
+  const { mutate: importPost } = useConvexMutation<Id<"posts">>(
+    api.posts.importPost
+  );
+
+  // Titles we already have - likely a re-run of the same export
+  const existingTitles = useMemo(
+    () =>
+      new Set(
+        (existingPosts ?? []).map((post) => post.title.trim().toLowerCase())
+      ),
+    [existingPosts]
+  );
+
+  const isDuplicate = (post: ImportCandidate): boolean =>
+    existingTitles.has(post.title.trim().toLowerCase());
+
+  const selectedPosts: ImportCandidate[] =
+    report?.posts.filter((post) => selected.has(post.sourceId)) ?? [];
+  const imageCount = new Set(selectedPosts.flatMap((post) => post.imageUrls))
+    .size;
+
+  const handleFileChange = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsParsing(true);
+    setResult(null);
+    try {
+      const parsed = await parseImportFile(file);
+      setReport(parsed);
+      // Everything is selected except posts that look already imported
+      setSelected(
+        new Set(
+          parsed.posts
+            .filter((post) => !isDuplicate(post))
+            .map((post) => post.sourceId)
+        )
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to read export file";
+      toast.error(errorMessage);
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const toggleSelected = (sourceId: string, checked: boolean): void => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(sourceId);
+      } else {
+        next.delete(sourceId);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async (): Promise<void> => {
+    if (!report || selectedPosts.length === 0) return;
+
+    const rehosted = new Map<string, string>();
+    const failedImages = new Set<string>();
+    const outcome: ImportResult = { imported: 0, failed: [], imagesFailed: 0 };
+
+    for (const [index, post] of selectedPosts.entries()) {
+      setProgress({ done: index, total: selectedPosts.length, current: post.title });
+
+      try {
+        // Copy images over once each, keeping the original URL if a copy fails
+        if (rehostImages) {
+          for (const url of post.imageUrls) {
+            if (rehosted.has(url) || failedImages.has(url)) continue;
+            const fileName = url.split("/").pop()?.split("?")[0] || "image";
+            const upload = await uploadUrlToImageKit(url, fileName);
+            if (upload.success) {
+              rehosted.set(url, upload.data.url);
+            } else {
+              failedImages.add(url);
+            }
+          }
+        }
+
+        await importPost({
+          title: post.title,
+          content: replaceImageUrls(post.content, rehosted),
+          status: post.status,
+          tags: post.tags,
+          category: matchCategory(post.category),
+          featuredImage: post.featuredImage
+            ? rehosted.get(post.featuredImage) ?? post.featuredImage
+            : undefined,
+          createdAt: post.createdAt,
+          publishedAt: post.publishedAt,
+          source: report.source,
+        });
+        outcome.imported++;
+      } catch (error) {
+        outcome.failed.push({
+          title: post.title,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    outcome.imagesFailed = failedImages.size;
+    setProgress(null);
+    setResult(outcome);
+    setReport(null);
+    setSelected(new Set());
+
+    if (outcome.failed.length === 0) {
+      toast.success(`Imported ${outcome.imported} posts from ${report.source}`);
+    } else {
+      toast.error(`${outcome.failed.length} posts couldn't be imported`);
+    }
+  };
+
+  const isImporting = progress !== null;
+
+  return (
+    <div className="space-y-6 p-4 lg:p-8 max-w-5xl">
+      {/* Header */}
+      <div>
+        <Link
+          href="/dashboard/settings"
+          className="inline-flex items-center text-sm text-[#6B7280] hover:text-[#EDEEF0]"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Settings
+        </Link>
+        <h1 className="text-3xl font-bold text-[#EDEEF0] mt-2">Import Posts</h1>
+        <p className="text-[#9CA3AF] mt-2">
+          Bring your posts over from WordPress or Medium
+        </p>
+      </div>
+
+      {/* Upload */}
+      {!report && !isImporting && (
+        <Card className="card-glass">
+          <CardContent className="p-12 text-center space-y-4">
+            <FileUp className="h-12 w-12 text-[#6B7280] mx-auto" />
+            <div>
+              <h3 className="text-lg font-medium text-[#EDEEF0]">
+                Choose an export file
+              </h3>
+              <p className="text-sm text-[#6B7280] mt-1">
+                WordPress: Tools → Export (.xml) • Medium: Settings → Download
+                your information (.zip)
+              </p>
+            </div>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".xml,.zip"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              variant="primary"
+              disabled={isParsing}
+              onClick={() => inputRef.current?.click()}
+            >
+              {isParsing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              {isParsing ? "Reading export..." : "Select File"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Result of the last run */}
+      {result && !isImporting && (
+        <Card className="card-glass">
+          <CardContent className="p-6 space-y-3">
+            <div className="flex items-center gap-2 text-[#EDEEF0] font-medium">
+              <CheckCircle2 className="h-5 w-5 text-green-400" />
+              Imported {result.imported} posts
+            </div>
+            {result.imagesFailed > 0 && (
+              <p className="text-sm text-amber-300">
+                {result.imagesFailed} images couldn&apos;t be copied and still
+                point at the original site
+              </p>
+            )}
+            {result.failed.map((failure) => (
+              <p key={failure.title} className="text-sm text-red-400">
+                {failure.title}: {failure.error}
+              </p>
+            ))}
+            <Link href="/dashboard/posts">
+              <Button variant="outline" size="sm">
+                Go to My Posts
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Progress */}
+      {isImporting && (
+        <Card className="card-glass">
+          <CardContent className="p-6 space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-[#EDEEF0] truncate">
+                Importing &quot;{progress.current}&quot;
+              </span>
+              <span className="text-[#6B7280] flex-shrink-0 ml-4">
+                {progress.done}/{progress.total}
+              </span>
+            </div>
+            <Progress value={(progress.done / progress.total) * 100} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Dry-run report */}
+      {report && !isImporting && (
+        <Card className="card-glass">
+          <CardHeader>
+            <CardTitle className="text-white">
+              Review {report.source} import
+            </CardTitle>
+            <CardDescription>
+              Nothing has been imported yet. Pick the posts to bring over.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {/* Summary */}
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">
+                {report.posts.length} posts found
+              </Badge>
+              <Badge variant="secondary">
+                {report.posts.filter((p) => p.status === "published").length}{" "}
+                published
+              </Badge>
+              <Badge variant="secondary">
+                {report.posts.filter((p) => p.status === "draft").length} drafts
+              </Badge>
+              {report.skipped.length > 0 && (
+                <Badge variant="secondary">
+                  {report.skipped.length} skipped
+                </Badge>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-[#EDEEF0]">
+              <Checkbox
+                checked={rehostImages}
+                onCheckedChange={(checked) => setRehostImages(checked === true)}
+              />
+              <ImageIcon className="h-4 w-4 text-[#6B7280]" />
+              Copy {imageCount} images to our image hosting
+            </label>
+
+            {/* Posts */}
+            <div className="space-y-2">
+              {report.posts.map((post) => (
+                <div
+                  key={post.sourceId}
+                  className="flex items-start gap-3 rounded-lg border border-[#1F2228] bg-[#111318] px-4 py-3"
+                >
+                  <Checkbox
+                    className="mt-1"
+                    checked={selected.has(post.sourceId)}
+                    onCheckedChange={(checked) =>
+                      toggleSelected(post.sourceId, checked === true)
+                    }
+                  />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-[#EDEEF0] truncate">
+                        {post.title}
+                      </p>
+                      <Badge
+                        variant="outline"
+                        className={
+                          post.status === "published"
+                            ? "bg-zinc-800/50 text-[#A1A1AA] border-zinc-700"
+                            : "bg-orange-500/20 text-orange-300 border-orange-500/30"
+                        }
+                      >
+                        {post.status === "published" ? "Published" : "Draft"}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-[#6B7280]">
+                      {formatDate(post.publishedAt ?? post.createdAt)}
+                      {post.category && ` • ${matchCategory(post.category)}`}
+                      {post.tags.length > 0 && ` • ${post.tags.join(", ")}`}
+                      {post.imageUrls.length > 0 &&
+                        ` • ${post.imageUrls.length} images`}
+                    </p>
+                    {[
+                      ...(isDuplicate(post)
+                        ? ["You already have a post with this title"]
+                        : []),
+                      ...post.warnings,
+                    ].map((warning) => (
+                      <p
+                        key={warning}
+                        className="text-xs text-amber-300 flex items-center"
+                      >
+                        <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Skipped */}
+            {report.skipped.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-white">Skipped</p>
+                {report.skipped.map((item, index) => (
+                  <p key={index} className="text-xs text-[#6B7280]">
+                    {item.title || "Untitled"} — {item.reason}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setReport(null);
+                  setSelected(new Set());
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                disabled={selectedPosts.length === 0}
+                onClick={handleImport}
+              >
+                Import {selectedPosts.length} posts
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
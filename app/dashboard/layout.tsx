@@ -2,7 +2,7 @@
 
 import React, { useState } from "react";
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import {
   LayoutDashboard,
   PenTool,
@@ -11,10 +11,22 @@ import {
   Menu,
   X,
   Settings,
+  Trash2,
+  ClipboardCheck,
+  Building2,
+  Plus,
   type LucideIcon,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { UserButton } from "@clerk/nextjs";
 import { cn } from "@/lib/utils";
 import { api } from "@/convex/_generated/api";
@@ -49,6 +61,16 @@ const sidebarItems: SidebarItem[] = [
     href: "/dashboard/posts",
     icon: FileText,
   },
+  {
+    title: "Reviews",
+    href: "/dashboard/reviews",
+    icon: ClipboardCheck,
+  },
+  {
+    title: "Trash",
+    href: "/dashboard/trash",
+    icon: Trash2,
+  },
   {
     title: "Feed",
     href: "/feed",
@@ -56,6 +78,12 @@ const sidebarItems: SidebarItem[] = [
   },
 ];
 
+const MAX_SIDEBAR_DRAFTS = 3;
+
+// Switcher values that aren't publication IDs
+const PERSONAL_WORKSPACE = "personal";
+const NEW_PUBLICATION = "new";
+
 const convexApi = api as any;
 
 export default function DashboardLayout({
@@ -63,12 +91,36 @@ export default function DashboardLayout({
 }: DashboardLayoutProps): React.JSX.Element {
   const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(false);
   const pathname: string = usePathname();
+  const router = useRouter();
+
+  // Get drafts for the Create Post badge and resume list
+  const { data: drafts } = useConvexQuery<Doc<"posts">[] | undefined>(
+    convexApi.posts.getUserDrafts
+  );
+
+  // Posts waiting for the user's review
+  const { data: reviewQueue } = useConvexQuery<{ _id: string }[] | undefined>(
+    convexApi.reviews.getReviewQueue
+  );
 
-  // Get draft info for badge
-  const { data: draftPost } = useConvexQuery<Doc<"posts"> | null | undefined>(
-    convexApi.posts.getUserDraft
+  // Publications the user belongs to, for the workspace switcher
+  const { data: publications } = useConvexQuery<Doc<"publications">[] | undefined>(
+    convexApi.publications.getMyPublications
   );
 
+  const workspace: string =
+    pathname.match(/^\/dashboard\/publications\/([^/]+)/)?.[1] ??
+    PERSONAL_WORKSPACE;
+
+  const handleWorkspaceChange = (value: string): void => {
+    setIsSidebarOpen(false);
+    router.push(
+      value === PERSONAL_WORKSPACE
+        ? "/dashboard"
+        : `/dashboard/publications/${value}`
+    );
+  };
+
   const toggleSidebar = (): void => setIsSidebarOpen(!isSidebarOpen);
 
   return (
@@ -106,6 +158,29 @@ export default function DashboardLayout({
           </Button>
         </div>
 
+        {/* Workspace switcher */}
+        <div className="px-4 pt-4">
+          <Select value={workspace} onValueChange={handleWorkspaceChange}>
+            <SelectTrigger className="w-full bg-[#111318] border-[#1F2228]">
+              <Building2 className="h-4 w-4 mr-2 text-[#6B7280]" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={PERSONAL_WORKSPACE}>Personal</SelectItem>
+              {publications?.map((publication: Doc<"publications">) => (
+                <SelectItem key={publication._id} value={publication._id}>
+                  {publication.name}
+                </SelectItem>
+              ))}
+              <SelectSeparator />
+              <SelectItem value={NEW_PUBLICATION}>
+                <Plus className="h-4 w-4 mr-1 inline" />
+                New publication
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Navigation */}
         <nav className="p-4 space-y-2">
           {sidebarItems.map((item: SidebarItem, index: number) => {
@@ -114,40 +189,76 @@ export default function DashboardLayout({
               (item.href !== "/dashboard" && pathname.startsWith(item.href));
 
             return (
-              <Link
-                key={index}
-                href={item.href}
-                onClick={() => setIsSidebarOpen(false)}
-              >
-                <div
-                  className={cn(
-                    "flex items-center space-x-3 px-4 py-3 rounded-xl transition-all duration-200 group",
-                    isActive
-                      ? "bg-[#16181D] border border-[#1F2228] text-[#EDEEF0]"
-                      : "text-[#A1A1AA] hover:text-[#EDEEF0] hover:bg-[#111318]"
-                  )}
+              <React.Fragment key={index}>
+                <Link
+                  href={item.href}
+                  onClick={() => setIsSidebarOpen(false)}
                 >
-                  <item.icon
+                  <div
                     className={cn(
-                      "h-5 w-5 transition-colors",
+                      "flex items-center space-x-3 px-4 py-3 rounded-xl transition-all duration-200 group",
                       isActive
-                        ? "text-[#D1D5DB]"
-                        : "text-[#6B7280] group-hover:text-[#EDEEF0]"
+                        ? "bg-[#16181D] border border-[#1F2228] text-[#EDEEF0]"
+                        : "text-[#A1A1AA] hover:text-[#EDEEF0] hover:bg-[#111318]"
+                    )}
+                  >
+                    <item.icon
+                      className={cn(
+                        "h-5 w-5 transition-colors",
+                        isActive
+                          ? "text-[#D1D5DB]"
+                          : "text-[#6B7280] group-hover:text-[#EDEEF0]"
+                      )}
+                    />
+                    <span className="font-medium">{item.title}</span>
+
+                    {/* Badge for Create Post if drafts exist */}
+                    {item.title === "Create Post" && drafts && drafts.length > 0 && (
+                      <Badge
+                        variant="secondary"
+                        className="ml-auto text-xs bg-orange-500/20 text-orange-300 border-orange-500/30"
+                      >
+                        {drafts.length} {drafts.length === 1 ? "Draft" : "Drafts"}
+                      </Badge>
+                    )}
+
+                    {/* Badge for Reviews if posts are waiting */}
+                    {item.title === "Reviews" && reviewQueue && reviewQueue.length > 0 && (
+                      <Badge
+                        variant="secondary"
+                        className="ml-auto text-xs bg-yellow-500/20 text-yellow-300 border-yellow-500/30"
+                      >
+                        {reviewQueue.length}
+                      </Badge>
+                    )}
+                  </div>
+                </Link>
+
+                {/* Resume list of the most recent drafts */}
+                {item.title === "Create Post" && drafts && drafts.length > 0 && (
+                  <div className="ml-12 space-y-1">
+                    {drafts.slice(0, MAX_SIDEBAR_DRAFTS).map((draft: Doc<"posts">) => (
+                      <Link
+                        key={draft._id}
+                        href={`/dashboard/create?draft=${draft._id}`}
+                        onClick={() => setIsSidebarOpen(false)}
+                        className="block truncate text-xs px-2 py-1 rounded-lg text-[#6B7280] hover:text-[#EDEEF0] hover:bg-[#111318] transition-colors"
+                      >
+                        {draft.title || "Untitled draft"}
+                      </Link>
+                    ))}
+                    {drafts.length > MAX_SIDEBAR_DRAFTS && (
+                      <Link
+                        href="/dashboard/create"
+                        onClick={() => setIsSidebarOpen(false)}
+                        className="block text-xs px-2 py-1 text-[#4B5563] hover:text-[#A1A1AA]"
+                      >
+                        +{drafts.length - MAX_SIDEBAR_DRAFTS} more
+                      </Link>
                     )}
-                  />
-                  <span className="font-medium">{item.title}</span>
-
-                  {/* Badge for Create Post if draft exists */}
-                  {item.title === "Create Post" && draftPost && (
-                    <Badge
-                      variant="secondary"
-                      className="ml-auto text-xs bg-orange-500/20 text-orange-300 border-orange-500/30"
-                    >
-                      Draft
-                    </Badge>
-                  )}
-                </div>
-              </Link>
+                  </div>
+                )}
+              </React.Fragment>
             );
           })}
         </nav>
@@ -27,6 +27,7 @@ import { useConvexQuery } from "@/hooks/use-convex-query";
 import { formatDistanceToNow } from "date-fns";
 import type { Id } from "@/convex/_generated/dataModel";
 import DailyViewsChart from "@/components/daily-views-chat";
+import { isOverdueSchedule, isScheduledPost } from "@/components/post-card";
 
 // Type definitions
 type AnalyticsResponse = {
@@ -52,7 +53,7 @@ type PostWithCommentCount = {
   _creationTime: number;
   title: string;
   content: string;
-  status: "draft" | "published";
+  status: "draft" | "in_review" | "published";
   authorId: Id<"users">;
   tags: string[];
   category?: string;
@@ -282,30 +283,27 @@ export default function DashboardPage(): React.JSX.Element {
                             variant={
                               post.status === "published"
                                 ? "default"
-                                : post.scheduledFor &&
-                                    post.scheduledFor > Date.now()
+                                : isScheduledPost(post)
                                   ? "secondary"
                                   : "outline"
                             }
                             className={
-                              post.status === "published"
-                                ? "bg-zinc-800/50 text-[#A1A1AA] border-zinc-700"
-                                : post.scheduledFor &&
-                                    post.scheduledFor > Date.now()
-                                  ? "bg-zinc-800/50 text-[#A1A1AA] border-zinc-700"
-                                  : "bg-zinc-800/50 text-[#A1A1AA] border-zinc-700"
+                              isOverdueSchedule(post)
+                                ? "bg-red-500/20 text-red-300 border-red-500/30"
+                                : "bg-zinc-800/50 text-[#A1A1AA] border-zinc-700"
                             }
                           >
-                            {post.scheduledFor && post.scheduledFor > Date.now()
-                              ? "scheduled"
-                              : post.status}
+                            {isOverdueSchedule(post)
+                              ? "scheduled (overdue)"
+                              : isScheduledPost(post)
+                                ? "scheduled"
+                                : post.status.replace("_", " ")}
                           </Badge>
                           <span className="text-sm text-[#6B7280]">
                             {post.status === "published" && post.publishedAt
                               ? `Published ${formatTime(post.publishedAt)}`
-                              : post.scheduledFor &&
-                                  post.scheduledFor > Date.now()
-                                ? `Scheduled for ${new Date(post.scheduledFor).toLocaleDateString()}`
+                              : isScheduledPost(post)
+                                ? `Scheduled for ${new Date(post.scheduledFor!).toLocaleDateString()}`
                                 : `Updated ${formatTime(post.updatedAt)}`}
                           </span>
                         </div>
@@ -2,6 +2,7 @@
 
 import React, { useState } from "react";
 import { useRouter } from "next/navigation";
+import { useQuery } from "convex/react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -15,10 +16,14 @@ import {
 import { PlusCircle, Search, Filter, FileText } from "lucide-react";
 import { api } from "@/convex/_generated/api";
 import { useConvexQuery, useConvexMutation } from "@/hooks/use-convex-query";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import { toast } from "sonner";
 import Link from "next/link";
 import { type Id } from "@/convex/_generated/dataModel";
-import PostCard from "@/components/post-card";
+import PostCard, { isScheduledPost } from "@/components/post-card";
+import MarkdownImportButton from "@/components/markdown-import-button";
+import CoauthorInvitations from "@/components/coauthor-invitations";
+import { type PostVisibility } from "@/lib/visibility";
 
 // Post type based on getUserPosts return value
 type Post = {
@@ -26,7 +31,7 @@ type Post = {
   _creationTime: number;
   title: string;
   content: string;
-  status: "draft" | "published";
+  status: "draft" | "in_review" | "published";
   authorId: Id<"users">;
   tags: string[];
   category?: string;
@@ -35,13 +40,23 @@ type Post = {
   updatedAt: number;
   publishedAt?: number;
   scheduledFor?: number;
+  visibility?: PostVisibility;
+  reviewDecision?: "approved" | "changes_requested";
   viewCount: number;
   likeCount: number;
   username?: string; // Added by getUserPosts
+  role?: "owner" | "editor"; // The user's role on the post
+  shared?: boolean; // Co-authored post the user was invited to
 };
 
-type StatusFilter = "all" | "draft" | "published";
-type SortBy = "newest" | "oldest" | "mostViews" | "mostLikes" | "alphabetical";
+type StatusFilter = "all" | "draft" | "in_review" | "scheduled" | "published";
+type SortBy =
+  | "relevance"
+  | "newest"
+  | "oldest"
+  | "mostViews"
+  | "mostLikes"
+  | "alphabetical";
 
 export default function PostsPage() {
   const router = useRouter();
@@ -51,28 +66,44 @@ export default function PostsPage() {
 
   // Data fetching
   const { data: posts, isLoading } = useConvexQuery(api.posts.getUserPosts);
+  // Searching goes through the full-text index, so it also matches post bodies and tags
+  const debouncedSearch = useDebouncedValue(searchQuery.trim(), 300);
+  const searchResults = useQuery(
+    api.search.searchUserPosts,
+    debouncedSearch ? { query: debouncedSearch } : "skip"
+  );
+  const isSearching = !!debouncedSearch && searchResults === undefined;
   const deletePost = useConvexMutation(api.posts.deletePost);
+  const cancelSchedule = useConvexMutation(api.posts.cancelSchedule);
+  const duplicatePost = useConvexMutation<Id<"posts">>(api.posts.duplicate);
 
   // Filter and sort posts
   const filteredPosts = React.useMemo((): Post[] => {
-    if (!posts) return [];
-
-    let filtered = posts.filter((post: Post) => {
-      // Search filter
-      const matchesSearch = post.title
-        .toLowerCase()
-        .includes(searchQuery.toLowerCase());
+    const source: Post[] | undefined = debouncedSearch ? searchResults : posts;
+    if (!source) return [];
 
-      // Status filter
+    const filtered = source.filter((post: Post) => {
+      // Status filter - scheduled drafts get their own bucket
       const matchesStatus =
-        statusFilter === "all" || post.status === statusFilter;
+        statusFilter === "all" ||
+        (statusFilter === "scheduled"
+          ? isScheduledPost(post)
+          : post.status === statusFilter &&
+            !(statusFilter === "draft" && isScheduledPost(post)));
 
-      return matchesSearch && matchesStatus;
+      return matchesStatus;
     });
 
-    // Sort posts
+    // Sort posts - the schedule queue always shows the next one up first
     filtered.sort((a: Post, b: Post) => {
+      if (statusFilter === "scheduled") {
+        return (a.scheduledFor ?? 0) - (b.scheduledFor ?? 0);
+      }
+
       switch (sortBy) {
+        case "relevance":
+          // Search results arrive best match first
+          return debouncedSearch ? 0 : b.createdAt - a.createdAt;
         case "newest":
           return b.createdAt - a.createdAt;
         case "oldest":
@@ -89,7 +120,7 @@ export default function PostsPage() {
     });
 
     return filtered;
-  }, [posts, searchQuery, statusFilter, sortBy]);
+  }, [posts, searchResults, debouncedSearch, statusFilter, sortBy]);
 
   // Handle post actions
   const handleEditPost = (post: Post): void => {
@@ -97,13 +128,17 @@ export default function PostsPage() {
   };
 
   const handleDeletePost = async (post: Post): Promise<void> => {
-    if (!window.confirm("Are you sure you want to delete this post?")) {
+    if (
+      !window.confirm(
+        "Move this post to the trash? You can restore it within 30 days."
+      )
+    ) {
       return;
     }
 
     try {
       await deletePost.mutate({ id: post._id });
-      toast.success("Post deleted successfully");
+      toast.success("Post moved to trash");
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Failed to delete post";
@@ -111,9 +146,27 @@ export default function PostsPage() {
     }
   };
 
-  const handleDuplicatePost = (post: Post): void => {
-    // TODO: Implement post duplication
-    toast.info("Duplication feature coming soon!");
+  const handleCancelSchedule = async (post: Post): Promise<void> => {
+    try {
+      await cancelSchedule.mutate({ id: post._id });
+      toast.success("Schedule cancelled - post moved back to drafts");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to cancel schedule";
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleDuplicatePost = async (post: Post): Promise<void> => {
+    try {
+      const copyId = await duplicatePost.mutate({ id: post._id });
+      toast.success("Post duplicated - opening the copy");
+      router.push(`/dashboard/posts/edit/${copyId}`);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to duplicate post";
+      toast.error(errorMessage);
+    }
   };
 
   if (isLoading) {
@@ -138,14 +191,19 @@ export default function PostsPage() {
           </p>
         </div>
 
-        <Link href="/dashboard/create">
-          <Button variant="primary">
-            <PlusCircle className="h-4 w-4 mr-2" />
-            Create New Post
-          </Button>
-        </Link>
+        <div className="flex gap-3">
+          <MarkdownImportButton />
+          <Link href="/dashboard/create">
+            <Button variant="primary">
+              <PlusCircle className="h-4 w-4 mr-2" />
+              Create New Post
+            </Button>
+          </Link>
+        </div>
       </div>
 
+      <CoauthorInvitations />
+
       {/* Filters and Search */}
       <Card className="card-glass">
         <CardContent className="p-6">
@@ -156,7 +214,13 @@ export default function PostsPage() {
               <Input
                 placeholder="Search posts..."
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  // "Best Match" only applies while searching
+                  if (!e.target.value.trim() && sortBy === "relevance") {
+                    setSortBy("newest");
+                  }
+                }}
                 className="pl-10 bg-[#111318] border-[#1F2228]"
               />
             </div>
@@ -174,6 +238,8 @@ export default function PostsPage() {
                 <SelectItem value="all">All Status</SelectItem>
                 <SelectItem value="published">Published</SelectItem>
                 <SelectItem value="draft">Draft</SelectItem>
+                <SelectItem value="in_review">In Review</SelectItem>
+                <SelectItem value="scheduled">Scheduled</SelectItem>
               </SelectContent>
             </Select>
 
@@ -186,6 +252,9 @@ export default function PostsPage() {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
+                {debouncedSearch && (
+                  <SelectItem value="relevance">Best Match</SelectItem>
+                )}
                 <SelectItem value="newest">Newest First</SelectItem>
                 <SelectItem value="oldest">Oldest First</SelectItem>
                 <SelectItem value="mostViews">Most Views</SelectItem>
@@ -198,7 +267,11 @@ export default function PostsPage() {
       </Card>
 
       {/* Posts Grid */}
-      {filteredPosts.length === 0 ? (
+      {isSearching ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#A1A1AA]"></div>
+        </div>
+      ) : filteredPosts.length === 0 ? (
         <Card className="card-glass">
           <CardContent className="p-12 text-center">
             <FileText className="h-12 w-12 text-[#6B7280] mx-auto mb-4" />
@@ -231,8 +304,12 @@ export default function PostsPage() {
               showActions={true}
               showAuthor={false}
               onEdit={handleEditPost}
-              onDelete={handleDeletePost}
-              onDuplicate={handleDuplicatePost}
+              // Only the original author can trash or copy a co-authored post
+              onDelete={post.shared ? undefined : handleDeletePost}
+              onDuplicate={post.shared ? undefined : handleDuplicatePost}
+              onCancelSchedule={
+                post.role === "owner" ? handleCancelSchedule : undefined
+              }
             />
           ))}
         </div>
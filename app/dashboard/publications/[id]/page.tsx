@@ -0,0 +1,521 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { useParams, useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Edit,
+  ExternalLink,
+  Eye,
+  FileText,
+  Heart,
+  ImagePlus,
+  Loader2,
+  LogOut,
+  MessageCircle,
+  PlusCircle,
+  Save,
+  Trash2,
+  TrendingUp,
+  Users,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import DailyViewsChart from "@/components/daily-views-chat";
+import ImageUploadModal from "@/components/image-upload-modal";
+import PublicationMembers, {
+  ROLE_LABELS,
+  type PublicationMember,
+  type PublicationRole,
+} from "@/components/publication-members";
+import { api } from "@/convex/_generated/api";
+import { useConvexMutation, useConvexQuery } from "@/hooks/use-convex-query";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+// Type definitions
+type PublicationPost = Doc<"posts"> & {
+  author: { _id: Id<"users">; name: string; username?: string } | null;
+};
+
+type PublicationDashboard = {
+  publication: Doc<"publications">;
+  role: PublicationRole;
+  members: PublicationMember[];
+  posts: PublicationPost[];
+} | null;
+
+type PublicationAnalytics = {
+  totalViews: number;
+  totalLikes: number;
+  totalComments: number;
+  viewsGrowth: number;
+  likesGrowth: number;
+  commentsGrowth: number;
+  totalPosts: number;
+  publishedPosts: number;
+  totalMembers: number;
+} | null;
+
+type DailyViewData = {
+  date: string;
+  views: number;
+  day: string;
+  fullDate: string;
+};
+
+const STATUS_LABELS: Record<Doc<"posts">["status"], string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  published: "Published",
+};
+
+export default function PublicationDashboardPage() {
+  const params = useParams<{ id: string }>();
+  const publicationId = params.id as Id<"publications">;
+  const router = useRouter();
+
+  const [name, setName] = useState<string | null>(null);
+  const [description, setDescription] = useState<string | null>(null);
+  const [isLogoModalOpen, setIsLogoModalOpen] = useState<boolean>(false);
+
+  const { data, isLoading } = useConvexQuery<PublicationDashboard>(
+    api.publications.getPublicationDashboard,
+    { id: publicationId }
+  );
+  const { data: analytics } = useConvexQuery<PublicationAnalytics>(
+    api.dashboard.getPublicationAnalytics,
+    { publicationId }
+  );
+  const { data: dailyViews, isLoading: chartLoading } = useConvexQuery<
+    DailyViewData[]
+  >(api.dashboard.getPublicationDailyViews, { publicationId });
+  const { data: currentUser } = useConvexQuery<Doc<"users"> | null>(
+    api.users.getCurrentUser
+  );
+
+  const { mutate: updatePublication, isLoading: isSaving } = useConvexMutation(
+    api.publications.update
+  );
+  const { mutate: removePublication } = useConvexMutation(
+    api.publications.remove
+  );
+  const { mutate: removePost } = useConvexMutation(
+    api.publications.removePost
+  );
+  const { mutate: removeMember } = useConvexMutation(
+    api.publications.removeMember
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-[#A1A1AA] mx-auto" />
+          <p className="text-[#6B7280] mt-4">Loading publication...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-white mb-2">
+            Publication Not Found
+          </h1>
+          <p className="text-slate-400">
+            It doesn&apos;t exist or you&apos;re not one of its members.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { publication, role, members, posts } = data;
+  const isAdmin = role === "admin";
+  const canManagePosts = role === "admin" || role === "editor";
+  const ownMembership = members.find(
+    (member) => member.userId === currentUser?._id
+  );
+
+  const stats = [
+    {
+      title: "Total Views",
+      value: analytics?.totalViews ?? 0,
+      growth: analytics?.viewsGrowth ?? 0,
+      icon: <Eye className="h-4 w-4 text-[#A1A1AA]" />,
+    },
+    {
+      title: "Total Likes",
+      value: analytics?.totalLikes ?? 0,
+      growth: analytics?.likesGrowth ?? 0,
+      icon: <Heart className="h-4 w-4 text-red-400" />,
+    },
+    {
+      title: "Comments",
+      value: analytics?.totalComments ?? 0,
+      growth: analytics?.commentsGrowth ?? 0,
+      icon: <MessageCircle className="h-4 w-4 text-yellow-400" />,
+    },
+    {
+      title: "Published Posts",
+      value: analytics?.publishedPosts ?? 0,
+      growth: 0,
+      icon: <FileText className="h-4 w-4 text-[#A1A1AA]" />,
+    },
+  ];
+
+  const handleSaveDetails = async (): Promise<void> => {
+    try {
+      await updatePublication({
+        id: publicationId,
+        ...(name !== null && { name }),
+        ...(description !== null && { description }),
+      });
+      setName(null);
+      setDescription(null);
+      toast.success("Publication updated");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  const handleLogoChange = async (logoUrl: string): Promise<void> => {
+    setIsLogoModalOpen(false);
+    try {
+      await updatePublication({ id: publicationId, logoUrl });
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  const handleRemovePost = async (post: PublicationPost): Promise<void> => {
+    if (!window.confirm(`Remove "${post.title}" from ${publication.name}?`)) {
+      return;
+    }
+
+    try {
+      await removePost({ postId: post._id });
+      toast.success("Post removed from the publication");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  const handleLeave = async (): Promise<void> => {
+    if (!ownMembership) return;
+    if (!window.confirm(`Leave ${publication.name}?`)) return;
+
+    try {
+      await removeMember({ memberId: ownMembership._id });
+      toast.success(`You left ${publication.name}`);
+      router.push("/dashboard");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  const handleDelete = async (): Promise<void> => {
+    if (
+      !window.confirm(
+        `Delete ${publication.name}? Its posts go back to their authors' own profiles. This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await removePublication({ id: publicationId });
+      toast.success("Publication deleted");
+      router.push("/dashboard");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  return (
+    <div className="space-y-8 p-4 lg:p-8">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div className="flex items-center gap-4">
+          <div className="relative w-14 h-14 flex-shrink-0">
+            {publication.logoUrl ? (
+              <Image
+                src={publication.logoUrl}
+                alt={publication.name}
+                fill
+                className="rounded-xl object-cover"
+                sizes="56px"
+              />
+            ) : (
+              <div className="w-full h-full rounded-xl bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-xl font-bold text-white">
+                {publication.name.charAt(0).toUpperCase()}
+              </div>
+            )}
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold gradient-text-primary">
+              {publication.name}
+            </h1>
+            <div className="flex items-center gap-2 mt-1">
+              <Badge variant="secondary">{ROLE_LABELS[role]}</Badge>
+              <span className="text-sm text-[#6B7280]">
+                {analytics?.totalMembers ?? members.length} members
+              </span>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Link href={`/publications/${publication.slug}`} target="_blank">
+            <Button variant="outline">
+              <ExternalLink className="h-4 w-4 mr-2" />
+              View
+            </Button>
+          </Link>
+          <Link href="/dashboard/create">
+            <Button variant="primary">
+              <PlusCircle className="h-4 w-4 mr-2" />
+              New Post
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      {/* Stats Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {stats.map((stat) => (
+          <Card key={stat.title} className="card-glass">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+              <CardTitle className="text-sm font-medium text-[#6B7280]">
+                {stat.title}
+              </CardTitle>
+              {stat.icon}
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-[#EDEEF0]">
+                {stat.value.toLocaleString()}
+              </div>
+              {stat.growth > 0 && (
+                <div className="flex items-center text-xs text-[#A1A1AA] mt-1">
+                  <TrendingUp className="h-3 w-3 mr-1" />+{stat.growth}% from
+                  last month
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Views chart */}
+      <Card className="card-glass">
+        <CardHeader>
+          <CardTitle className="text-[#EDEEF0]">Views, last 30 days</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {chartLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-[#A1A1AA]" />
+            </div>
+          ) : (
+            <DailyViewsChart data={dailyViews} />
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid lg:grid-cols-3 gap-8">
+        {/* Posts */}
+        <Card className="card-glass lg:col-span-2 h-fit">
+          <CardHeader>
+            <CardTitle className="text-[#EDEEF0]">Posts</CardTitle>
+            <CardDescription>
+              Members add posts from the editor&apos;s settings
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {posts.length === 0 ? (
+              <p className="text-center text-[#6B7280] py-8">No posts yet</p>
+            ) : (
+              <div className="space-y-3">
+                {posts.map((post) => {
+                  const canEdit =
+                    canManagePosts || post.authorId === currentUser?._id;
+
+                  return (
+                    <div
+                      key={post._id}
+                      className="flex items-center justify-between gap-4 p-4 bg-slate-800/30 rounded-lg"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-[#EDEEF0] truncate">
+                          {post.title || "Untitled Post"}
+                        </p>
+                        <div className="flex items-center gap-3 mt-1 text-xs text-[#6B7280]">
+                          <Badge
+                            variant="outline"
+                            className="bg-zinc-800/50 text-[#A1A1AA] border-zinc-700"
+                          >
+                            {STATUS_LABELS[post.status]}
+                          </Badge>
+                          <span>{post.author?.name ?? "Unknown"}</span>
+                          <span>
+                            {formatDistanceToNow(new Date(post.updatedAt), {
+                              addSuffix: true,
+                            })}
+                          </span>
+                          <span className="flex items-center">
+                            <Eye className="h-3 w-3 mr-1" />
+                            {post.viewCount}
+                          </span>
+                        </div>
+                      </div>
+
+                      <div className="flex gap-1 flex-shrink-0">
+                        {canEdit && (
+                          <Link href={`/dashboard/posts/edit/${post._id}`}>
+                            <Button variant="ghost" size="sm" title="Edit">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </Link>
+                        )}
+                        {canManagePosts && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemovePost(post)}
+                            className="text-slate-400 hover:text-red-400"
+                            title="Remove from publication"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-8">
+          <PublicationMembers
+            publicationId={publicationId}
+            members={members}
+            isAdmin={isAdmin}
+          />
+
+          {/* Settings */}
+          {isAdmin ? (
+            <Card className="card-glass">
+              <CardHeader>
+                <CardTitle className="text-[#EDEEF0]">Settings</CardTitle>
+                <CardDescription>/publications/{publication.slug}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="publication-name" className="text-white">
+                    Name
+                  </Label>
+                  <Input
+                    id="publication-name"
+                    value={name ?? publication.name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="bg-slate-800 border-slate-600"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label
+                    htmlFor="publication-description"
+                    className="text-white"
+                  >
+                    Description
+                  </Label>
+                  <Textarea
+                    id="publication-description"
+                    value={description ?? publication.description ?? ""}
+                    onChange={(e) => setDescription(e.target.value)}
+                    className="bg-slate-800 border-slate-600"
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="primary"
+                    size="sm"
+                    onClick={handleSaveDetails}
+                    disabled={
+                      isSaving || (name === null && description === null)
+                    }
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsLogoModalOpen(true)}
+                  >
+                    <ImagePlus className="h-4 w-4 mr-2" />
+                    {publication.logoUrl ? "Change logo" : "Add logo"}
+                  </Button>
+                  {publication.logoUrl && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleLogoChange("")}
+                    >
+                      Remove logo
+                    </Button>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-2 pt-4 border-t border-slate-800">
+                  <Button variant="ghost" size="sm" onClick={handleLeave}>
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Leave
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleDelete}
+                    className="text-red-400 hover:text-red-300"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Publication
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Button variant="outline" onClick={handleLeave}>
+              <Users className="h-4 w-4 mr-2" />
+              Leave {publication.name}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <ImageUploadModal
+        isOpen={isLogoModalOpen}
+        onClose={() => setIsLogoModalOpen(false)}
+        onImageSelect={(image) => handleLogoChange(image.url)}
+        title="Upload Publication Logo"
+      />
+    </div>
+  );
+}
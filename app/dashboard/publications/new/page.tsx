@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Building2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { api } from "@/convex/_generated/api";
+import { useConvexMutation } from "@/hooks/use-convex-query";
+import type { Id } from "@/convex/_generated/dataModel";
+import { slugify } from "@/lib/slug";
+
+export default function NewPublicationPage() {
+  const router = useRouter();
+  const [name, setName] = useState<string>("");
+  const [slug, setSlug] = useState<string>("");
+  const [description, setDescription] = useState<string>("");
+
+  const { mutate: createPublication, isLoading } = useConvexMutation<
+    Id<"publications">
+  >(api.publications.create);
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      const publicationId = await createPublication({
+        name: name.trim(),
+        slug: slug.trim() || undefined,
+        description: description.trim() || undefined,
+      });
+      toast.success(`${name.trim()} created`);
+      router.push(`/dashboard/publications/${publicationId}`);
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  return (
+    <div className="space-y-8 p-4 lg:p-8">
+      <div>
+        <h1 className="text-3xl font-bold text-[#EDEEF0]">New Publication</h1>
+        <p className="text-[#9CA3AF] mt-2">
+          A shared blog with its own page, members and posts
+        </p>
+      </div>
+
+      <Card className="card-glass max-w-2xl">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <Building2 className="h-5 w-5 mr-2" />
+            Publication Details
+          </CardTitle>
+          <CardDescription>
+            You&apos;ll be its first admin and can invite your team next
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="name" className="text-white">
+                Name
+              </Label>
+              <Input
+                id="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="The Engineering Blog"
+                className="bg-slate-800 border-slate-600"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="slug" className="text-white">
+                URL
+              </Label>
+              <Input
+                id="slug"
+                value={slug}
+                onChange={(e) => setSlug(e.target.value)}
+                placeholder={name ? slugify(name) : "engineering"}
+                className="bg-slate-800 border-slate-600"
+              />
+              <p className="text-xs text-slate-400">
+                /publications/{slug.trim() ? slugify(slug) : name ? slugify(name) : "..."}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="description" className="text-white">
+                Description
+              </Label>
+              <Textarea
+                id="description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What does your team write about?"
+                className="bg-slate-800 border-slate-600"
+              />
+            </div>
+
+            <Button
+              type="submit"
+              variant="primary"
+              disabled={!name.trim() || isLoading}
+            >
+              {isLoading ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Building2 className="h-4 w-4 mr-2" />
+              )}
+              Create Publication
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
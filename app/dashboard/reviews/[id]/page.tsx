@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft, Check, Loader2, Quote, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import PostArticle, { type PostWithAuthor } from "@/components/post-article";
+import ReviewNotes from "@/components/review-notes";
+import { api } from "@/convex/_generated/api";
+import { useConvexMutation, useConvexQuery } from "@/hooks/use-convex-query";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+// Type definitions
+type AuthorInfo = PostWithAuthor["author"];
+
+type ReviewPost = {
+  post: Doc<"posts">;
+  author: AuthorInfo | null;
+  coAuthors: AuthorInfo[];
+  access: "reviewer" | "member";
+} | null;
+
+const MAX_QUOTE_LENGTH = 500;
+
+export default function ReviewPostPage() {
+  const params = useParams<{ id: string }>();
+  const postId = params.id as Id<"posts">;
+  const router = useRouter();
+  const [quote, setQuote] = useState<string>("");
+
+  const { data, isLoading } = useConvexQuery<ReviewPost>(
+    api.reviews.getReviewPost,
+    { postId }
+  );
+  const { data: currentUser } = useConvexQuery<Doc<"users"> | null>(
+    api.users.getCurrentUser
+  );
+  const { mutate: decide, isLoading: isDeciding } = useConvexMutation(
+    api.reviews.decide
+  );
+
+  // Quote whatever the reviewer highlighted in the post
+  const handleSelection = (): void => {
+    const selected = window.getSelection()?.toString().trim() ?? "";
+    if (selected) setQuote(selected.slice(0, MAX_QUOTE_LENGTH));
+  };
+
+  const handleDecide = async (
+    decision: "approved" | "changes_requested"
+  ): Promise<void> => {
+    try {
+      await decide({ postId, decision });
+      toast.success(
+        decision === "approved" ? "Post approved" : "Changes requested"
+      );
+      router.push("/dashboard/reviews");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-[#A1A1AA] mx-auto" />
+          <p className="text-[#6B7280] mt-4">Loading post...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data || !data.author) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-white mb-2">Post Not Found</h1>
+          <p className="text-slate-400">
+            This post isn&apos;t waiting for your review.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { post, author, coAuthors, access } = data;
+  const canDecide = access === "reviewer" && post.status === "in_review";
+
+  return (
+    <div className="space-y-6 p-4 lg:p-8">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.push("/dashboard/reviews")}
+            className="text-slate-400 hover:text-white"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          {post.status === "in_review" ? (
+            <Badge
+              variant="secondary"
+              className="bg-yellow-500/20 text-yellow-300 border-yellow-500/30"
+            >
+              In Review
+            </Badge>
+          ) : (
+            <Badge variant="outline">
+              {post.reviewDecision === "approved"
+                ? "Approved"
+                : post.reviewDecision === "changes_requested"
+                  ? "Changes requested"
+                  : "Not in review"}
+            </Badge>
+          )}
+        </div>
+
+        {canDecide && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={isDeciding}
+              onClick={() => handleDecide("changes_requested")}
+            >
+              <Undo2 className="h-4 w-4 mr-2" />
+              Request changes
+            </Button>
+            <Button
+              variant="primary"
+              disabled={isDeciding}
+              onClick={() => handleDecide("approved")}
+            >
+              {isDeciding ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Check className="h-4 w-4 mr-2" />
+              )}
+              Approve
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Post */}
+        <div className="xl:col-span-2" onMouseUp={handleSelection}>
+          <PostArticle post={{ ...post, author, coAuthors }} showStats={false} />
+        </div>
+
+        {/* Notes */}
+        <Card className="card-glass h-fit xl:sticky xl:top-24">
+          <CardContent className="p-5 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-[#EDEEF0]">Notes</h2>
+              <p className="text-xs text-[#6B7280] mt-1 flex items-center">
+                <Quote className="h-3 w-3 mr-1" />
+                Select text in the post to quote it in a note
+              </p>
+            </div>
+            <ReviewNotes
+              postId={post._id}
+              currentUserId={currentUser?._id}
+              quote={quote || undefined}
+              onClearQuote={() => setQuote("")}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
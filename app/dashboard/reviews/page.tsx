@@ -0,0 +1,108 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { ClipboardCheck, Loader2, MessageSquare } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { api } from "@/convex/_generated/api";
+import { useConvexQuery } from "@/hooks/use-convex-query";
+import type { Id } from "@/convex/_generated/dataModel";
+
+// Queue item based on getReviewQueue return value
+type ReviewQueueItem = {
+  _id: Id<"posts">;
+  title: string;
+  reviewRequestedAt?: number;
+  updatedAt: number;
+  author: {
+    _id: Id<"users">;
+    name: string;
+    username?: string;
+  } | null;
+  openNotes: number;
+};
+
+export default function ReviewsPage() {
+  const { data: queue, isLoading } = useConvexQuery<ReviewQueueItem[]>(
+    api.reviews.getReviewQueue
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-[#A1A1AA] mx-auto" />
+          <p className="text-[#6B7280] mt-4">Loading review queue...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-4 lg:p-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-[#EDEEF0]">Reviews</h1>
+        <p className="text-[#9CA3AF] mt-2">
+          Posts waiting for your approval, oldest request first
+        </p>
+      </div>
+
+      {!queue || queue.length === 0 ? (
+        <Card className="card-glass">
+          <CardContent className="p-12 text-center">
+            <ClipboardCheck className="h-12 w-12 text-[#6B7280] mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-[#EDEEF0] mb-2">
+              Nothing to review
+            </h3>
+            <p className="text-[#6B7280]">
+              Posts from authors who added you as a reviewer show up here
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {queue.map((item: ReviewQueueItem) => (
+            <Card key={item._id} className="card-glass">
+              <CardContent className="p-5 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-[#EDEEF0] truncate">
+                      {item.title || "Untitled post"}
+                    </p>
+                    {item.openNotes > 0 && (
+                      <Badge
+                        variant="secondary"
+                        className="bg-zinc-800/50 text-[#A1A1AA] border-zinc-700"
+                      >
+                        <MessageSquare className="h-3 w-3 mr-1" />
+                        {item.openNotes}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-[#6B7280] mt-1">
+                    {item.author?.name ?? "Unknown author"} • Submitted{" "}
+                    {formatDistanceToNow(
+                      new Date(item.reviewRequestedAt ?? item.updatedAt),
+                      { addSuffix: true }
+                    )}
+                  </p>
+                </div>
+
+                <Link href={`/dashboard/reviews/${item._id}`}>
+                  <Button variant="outline" size="sm">
+                    <ClipboardCheck className="h-4 w-4 mr-2" />
+                    Review
+                  </Button>
+                </Link>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,11 +14,13 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { User, Loader2, AlertCircle } from "lucide-react";
+import { User, Loader2, AlertCircle, Download, Upload } from "lucide-react";
+import Link from "next/link";
 import { api } from "@/convex/_generated/api";
 import { useConvexQuery, useConvexMutation } from "@/hooks/use-convex-query";
 import { type Id } from "@/convex/_generated/dataModel";
 import { toast } from "sonner";
+import ReviewersSettings from "@/components/reviewers-settings";
 
 const usernameSchema = z.object({
   username: z
@@ -189,6 +191,62 @@ export default function SettingsPage() {
           </form>
         </CardContent>
       </Card>
+
+      <ReviewersSettings />
+
+      {/* Import */}
+      <Card className="card-glass max-w-2xl">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <Upload className="h-5 w-5 mr-2" />
+            Import From Another Platform
+          </CardTitle>
+          <CardDescription>
+            Move your posts over from WordPress or Medium
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <p className="text-sm text-slate-400">
+              Upload an export file and review what will be imported before
+              anything is saved.
+            </p>
+            <Link href="/dashboard/import" className="flex-shrink-0">
+              <Button variant="outline">
+                <Upload className="h-4 w-4 mr-2" />
+                Start Import
+              </Button>
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Export */}
+      <Card className="card-glass max-w-2xl">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <Download className="h-5 w-5 mr-2" />
+            Export Your Content
+          </CardTitle>
+          <CardDescription>
+            Download all your posts as Markdown files with a posts.json manifest
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <p className="text-sm text-slate-400">
+              Includes drafts, tags, categories, timestamps and view/like
+              counts. Posts in the trash are left out.
+            </p>
+            <Button variant="outline" className="flex-shrink-0" asChild>
+              <a href="/api/export" download>
+                <Download className="h-4 w-4 mr-2" />
+                Download .zip
+              </a>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,147 @@
+"use client";
+
+import React from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { api } from "@/convex/_generated/api";
+import { useConvexQuery, useConvexMutation } from "@/hooks/use-convex-query";
+import type { Doc } from "@/convex/_generated/dataModel";
+
+// Trashed post based on getTrashedPosts return value
+type TrashedPost = Doc<"posts"> & {
+  purgeAt: number; // Added by getTrashedPosts
+};
+
+export default function TrashPage() {
+  const { data: posts, isLoading } = useConvexQuery<TrashedPost[]>(
+    api.posts.getTrashedPosts
+  );
+  const restorePost = useConvexMutation(api.posts.restoreFromTrash);
+  const deleteForever = useConvexMutation(api.posts.deleteForever);
+
+  const handleRestore = async (post: TrashedPost): Promise<void> => {
+    try {
+      await restorePost.mutate({ id: post._id });
+      toast.success("Post restored");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to restore post";
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleDeleteForever = async (post: TrashedPost): Promise<void> => {
+    if (
+      !window.confirm(
+        "Delete this post forever? Its comments, likes and stats will be removed too. This cannot be undone."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await deleteForever.mutate({ id: post._id });
+      toast.success("Post deleted forever");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to delete post";
+      toast.error(errorMessage);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-[#A1A1AA] mx-auto" />
+          <p className="text-[#6B7280] mt-4">Loading trash...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-4 lg:p-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-[#EDEEF0]">Trash</h1>
+        <p className="text-[#9CA3AF] mt-2">
+          Deleted posts are kept for 30 days before they are removed for good
+        </p>
+      </div>
+
+      {!posts || posts.length === 0 ? (
+        <Card className="card-glass">
+          <CardContent className="p-12 text-center">
+            <Trash2 className="h-12 w-12 text-[#6B7280] mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-[#EDEEF0] mb-2">
+              Trash is empty
+            </h3>
+            <p className="text-[#6B7280]">
+              Posts you delete will show up here
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {posts.map((post: TrashedPost) => (
+            <Card key={post._id} className="card-glass">
+              <CardContent className="p-5 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-[#EDEEF0] truncate">
+                      {post.title || "Untitled post"}
+                    </p>
+                    <Badge
+                      variant="secondary"
+                      className="bg-zinc-800/50 text-[#A1A1AA] border-zinc-700"
+                    >
+                      {post.status === "published" ? "Published" : "Draft"}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-[#6B7280] mt-1">
+                    Deleted{" "}
+                    {formatDistanceToNow(new Date(post.deletedAt!), {
+                      addSuffix: true,
+                    })}
+                    {" • "}
+                    Removed for good{" "}
+                    {formatDistanceToNow(new Date(post.purgeAt), {
+                      addSuffix: true,
+                    })}
+                  </p>
+                </div>
+
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={restorePost.isLoading}
+                    onClick={() => handleRestore(post)}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteForever.isLoading}
+                    onClick={() => handleDeleteForever(post)}
+                    className="text-red-400 hover:text-red-300"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Forever
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
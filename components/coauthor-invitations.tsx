@@ -0,0 +1,90 @@
+"use client";
+
+import React from "react";
+import { Check, UserPlus, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { api } from "@/convex/_generated/api";
+import { useConvexMutation, useConvexQuery } from "@/hooks/use-convex-query";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+type Invitation = Doc<"postCollaborators"> & {
+  post: { _id: Id<"posts">; title: string };
+  inviter: { _id: Id<"users">; name: string; username?: string } | null;
+};
+
+// Pending co-author invitations for the signed-in user; renders nothing when there are none
+export default function CoauthorInvitations() {
+  const { data: invitations } = useConvexQuery<Invitation[]>(
+    api.collaborators.getMyInvitations
+  );
+  const { mutate: respond, isLoading } = useConvexMutation(
+    api.collaborators.respond
+  );
+
+  if (!invitations || invitations.length === 0) return null;
+
+  const handleRespond = async (
+    invitation: Invitation,
+    accept: boolean
+  ): Promise<void> => {
+    try {
+      await respond({ invitationId: invitation._id, accept });
+      toast.success(
+        accept
+          ? `You're now a co-author of "${invitation.post.title}"`
+          : "Invitation declined"
+      );
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  return (
+    <Card className="card-glass">
+      <CardContent className="p-6 space-y-3">
+        <h2 className="text-sm font-medium text-[#EDEEF0] flex items-center">
+          <UserPlus className="h-4 w-4 mr-2" />
+          Co-author invitations
+        </h2>
+        {invitations.map((invitation) => (
+          <div
+            key={invitation._id}
+            className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-[#1F2228] bg-[#111318] px-4 py-3"
+          >
+            <p className="text-sm text-[#A1A1AA]">
+              <span className="text-[#EDEEF0]">
+                {invitation.inviter?.name ?? "Someone"}
+              </span>{" "}
+              invited you to {invitation.role === "owner" ? "co-own" : "edit"}{" "}
+              <span className="text-[#EDEEF0]">
+                &quot;{invitation.post.title}&quot;
+              </span>
+            </p>
+            <div className="flex gap-2 flex-shrink-0">
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isLoading}
+                onClick={() => handleRespond(invitation, false)}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Decline
+              </Button>
+              <Button
+                variant="primary"
+                size="sm"
+                disabled={isLoading}
+                onClick={() => handleRespond(invitation, true)}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Accept
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,7 +14,7 @@ import { useStoreUserEffect as useStoreUser } from "../hooks/use-store-user";
 import { BarLoader } from "react-spinners";
 import { usePathname, useRouter } from "next/navigation";
 import { Button } from "./ui/button";
-import { LayoutDashboard } from "lucide-react";
+import { LayoutDashboard, Search } from "lucide-react";
 import Logo from "./logo";
 
 export default function Header() {
@@ -74,6 +74,14 @@ export default function Header() {
 
         {/* Auth Actions */}
         <div className="flex items-center gap-2 sm:gap-3 shrink-0">
+          {path === "/feed" && (
+            <Link href="/search" aria-label="Search posts">
+              <Button variant="ghost" size="sm">
+                <Search className="h-4 w-4" />
+              </Button>
+            </Link>
+          )}
+
           <SignedIn>
             {/* Show Dashboard link on feed page */}
             {path === "/feed" && (
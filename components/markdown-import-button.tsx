@@ -0,0 +1,80 @@
+"use client";
+
+import React, { useRef } from "react";
+import { useRouter } from "next/navigation";
+import { FileUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { matchCategory } from "@/components/post-editor-settings";
+import { api } from "@/convex/_generated/api";
+import { useConvexMutation } from "@/hooks/use-convex-query";
+import { parseMarkdownPost } from "@/lib/markdown";
+import { type Id } from "@/convex/_generated/dataModel";
+
+const MAX_FILE_SIZE = 1024 * 1024; // 1MB
+
+export default function MarkdownImportButton() {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { mutate: createPost, isLoading } = useConvexMutation<Id<"posts">>(
+    api.posts.create
+  );
+
+  const handleFileChange = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+
+    if (file.size > MAX_FILE_SIZE) {
+      toast.error("Markdown file must be smaller than 1MB");
+      return;
+    }
+
+    try {
+      const imported = parseMarkdownPost(await file.text(), file.name);
+
+      const postId = await createPost({
+        title: imported.title,
+        slug: imported.slug,
+        content: imported.content,
+        status: "draft",
+        tags: imported.tags,
+        category: matchCategory(imported.category),
+        featuredImage: imported.featuredImage,
+      });
+
+      toast.success(`Imported "${imported.title}" as a draft`);
+      router.push(`/dashboard/create?draft=${postId}`);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to import file";
+      toast.error(errorMessage);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".md,.markdown,text/markdown"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button
+        variant="outline"
+        disabled={isLoading}
+        onClick={() => inputRef.current?.click()}
+      >
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <FileUp className="h-4 w-4 mr-2" />
+        )}
+        Import Markdown
+      </Button>
+    </>
+  );
+}
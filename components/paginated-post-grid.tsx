@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { useInView } from "react-intersection-observer";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import PostCard, { type Post } from "@/components/post-card";
+
+// Type definitions
+type PaginationStatus =
+  | "LoadingFirstPage"
+  | "CanLoadMore"
+  | "LoadingMore"
+  | "Exhausted";
+
+interface PaginatedPostGridProps {
+  posts: Post[];
+  status: PaginationStatus;
+  loadMore: (numItems: number) => void;
+  pageSize: number;
+  emptyMessage: string;
+  showAuthor?: boolean;
+}
+
+// Grid of post cards that loads the next page as the reader nears the end
+export default function PaginatedPostGrid({
+  posts,
+  status,
+  loadMore,
+  pageSize,
+  emptyMessage,
+  showAuthor = true,
+}: PaginatedPostGridProps) {
+  const { ref: loadMoreRef, inView } = useInView({
+    threshold: 0,
+    rootMargin: "200px",
+  });
+
+  useEffect(() => {
+    if (inView && status === "CanLoadMore") {
+      loadMore(pageSize);
+    }
+  }, [inView, status, loadMore, pageSize]);
+
+  if (status === "LoadingFirstPage") {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#A1A1AA]"></div>
+      </div>
+    );
+  }
+
+  if (posts.length === 0) {
+    return (
+      <Card className="card-glass">
+        <CardContent className="text-center py-12">
+          <p className="text-slate-400 text-lg">{emptyMessage}</p>
+          <p className="text-slate-500 text-sm mt-2">
+            Check back later for new content!
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+        {posts.map((post) => (
+          <PostCard
+            key={post._id}
+            post={post}
+            showActions={false}
+            showAuthor={showAuthor}
+          />
+        ))}
+      </div>
+
+      {status !== "Exhausted" && (
+        <div ref={loadMoreRef} className="flex justify-center py-6">
+          {status === "LoadingMore" && (
+            <Loader2 className="h-6 w-6 animate-spin text-[#6B7280]" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import React from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { Calendar, Clock, Eye } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { sanitizeHtml } from "@/lib/sanitize-html";
+import { addHeadingAnchors } from "@/lib/heading-anchors";
+import { getReadingStats } from "@/lib/post-text";
+import { categoryUrl, tagUrl } from "@/lib/tags";
+import type { Id, Doc } from "@/convex/_generated/dataModel";
+
+// Type definitions
+type AuthorInfo = {
+  _id: Id<"users">;
+  name: string;
+  username?: string;
+  imageUrl?: string;
+};
+
+export type PostWithAuthor = Doc<"posts"> & {
+  author: AuthorInfo;
+  coAuthors?: AuthorInfo[];
+  publication?: { name: string; slug: string } | null;
+};
+
+interface PostArticleProps {
+  post: PostWithAuthor;
+  showStats?: boolean;
+  children?: React.ReactNode; // Rendered below the content, e.g. the like bar
+}
+
+// Public reading layout for a post - shared by the post page and draft previews
+const PostArticle: React.FC<PostArticleProps> = ({
+  post,
+  showStats = true,
+  children,
+}) => {
+  // Older posts have no stored reading time until they're saved again
+  const readingTime =
+    post.readingTime ?? getReadingStats(post.content).readingTime;
+
+  return (
+    <article className="space-y-8">
+      {/* Featured Image */}
+      {post.featuredImage && (
+        <div className="relative w-full h-96 rounded-xl overflow-hidden">
+          <Image
+            src={post.featuredImage}
+            alt={post.title}
+            fill
+            className="object-cover"
+            sizes="(max-width: 768px) 100vw, 896px"
+            priority
+          />
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {post.publication && (
+          <Link
+            href={`/publications/${post.publication.slug}`}
+            className="inline-block text-sm uppercase tracking-wide text-[#6B7280] hover:text-[#EDEEF0]"
+          >
+            Published in {post.publication.name}
+          </Link>
+        )}
+
+        {post.category && (
+          <Link
+            href={categoryUrl(post.category)}
+            className="block w-fit text-sm uppercase tracking-wide text-purple-300 hover:text-purple-200"
+          >
+            {post.category}
+          </Link>
+        )}
+
+        <h1 className="text-4xl md:text-5xl font-bold gradient-text-primary">
+          {post.title}
+        </h1>
+
+        <div className="flex items-center justify-between">
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+            <Link href={`/${post.author.username}`}>
+              <div className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+                <div className="relative w-12 h-12">
+                  {post.author.imageUrl ? (
+                    <Image
+                      src={post.author.imageUrl}
+                      alt={post.author.name}
+                      fill
+                      className="rounded-full object-cover"
+                      sizes="48px"
+                    />
+                  ) : (
+                    <div className="w-full h-full rounded-full bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-lg font-bold">
+                      {post.author.name.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <p className="font-semibold text-[#EDEEF0]">
+                    {post.author.name}
+                  </p>
+                  <p className="text-sm text-[#6B7280]">
+                    @{post.author.username}
+                  </p>
+                </div>
+              </div>
+            </Link>
+
+            {/* Co-authors */}
+            {post.coAuthors?.map((coAuthor) => (
+              <Link key={coAuthor._id} href={`/${coAuthor.username}`}>
+                <div className="flex items-center space-x-2 hover:opacity-80 transition-opacity">
+                  <div className="relative w-8 h-8">
+                    {coAuthor.imageUrl ? (
+                      <Image
+                        src={coAuthor.imageUrl}
+                        alt={coAuthor.name}
+                        fill
+                        className="rounded-full object-cover"
+                        sizes="32px"
+                      />
+                    ) : (
+                      <div className="w-full h-full rounded-full bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-sm font-bold">
+                        {coAuthor.name.charAt(0).toUpperCase()}
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-sm font-medium text-[#D1D5DB]">
+                    {coAuthor.name}
+                  </p>
+                </div>
+              </Link>
+            ))}
+          </div>
+
+          {showStats && (
+            <div className="text-right text-sm text-[#6B7280]">
+              {post.publishedAt && (
+                <div className="flex items-center gap-1 mb-1">
+                  <Calendar className="h-4 w-4" />
+                  {new Date(post.publishedAt).toLocaleDateString("en-US", {
+                    month: "long",
+                    day: "numeric",
+                    year: "numeric",
+                  })}
+                </div>
+              )}
+              <div className="flex items-center gap-1 mb-1">
+                <Eye className="h-4 w-4" />
+                {(post.viewCount || 0).toLocaleString()} views
+              </div>
+              <div className="flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                {readingTime} min read
+              </div>
+            </div>
+          )}
+        </div>
+
+        {post.tags && post.tags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {post.tags.map((tag: string) => (
+              <Link key={tag} href={tagUrl(tag)}>
+                <Badge
+                  variant="secondary"
+                  className="bg-zinc-800/50 text-[#A1A1AA] border-zinc-700 hover:text-[#EDEEF0]"
+                >
+                  {tag}
+                </Badge>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Post Content */}
+      <div
+        className="prose prose-lg max-w-none prose-invert prose-purple"
+        dangerouslySetInnerHTML={{
+          __html: addHeadingAnchors(sanitizeHtml(post.content)).html,
+        }}
+      />
+
+      {children}
+    </article>
+  );
+};
+
+export default PostArticle;
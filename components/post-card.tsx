@@ -14,6 +14,11 @@ import {
   Trash2,
   ExternalLink,
   Copy,
+  CalendarX,
+  Link2,
+  UserPlus,
+  Users,
+  Clock,
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -26,6 +31,9 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { type Id } from "@/convex/_generated/dataModel";
+import { VISIBILITY_OPTIONS, type PostVisibility } from "@/lib/visibility";
+import { getReadingStats } from "@/lib/post-text";
+import { tagUrl } from "@/lib/tags";
 
 // Author type
 type Author = {
@@ -39,20 +47,26 @@ export type Post = {
   _id: Id<"posts">;
   _creationTime: number;
   title: string;
+  slug?: string;
   content: string;
-  status: "draft" | "published";
+  status: "draft" | "in_review" | "published";
   authorId: Id<"users">;
   tags: string[];
   category?: string;
   featuredImage?: string;
+  readingTime?: number; // Minutes, missing on posts not saved since it was added
   createdAt: number;
   updatedAt: number;
   publishedAt?: number;
   scheduledFor?: number;
+  visibility?: PostVisibility;
+  reviewDecision?: "approved" | "changes_requested";
   viewCount: number;
   likeCount: number;
   username?: string; // Added by getUserPosts
+  shared?: boolean; // Added by getUserPosts for co-authored posts
   author?: Author; // Optional author object
+  coAuthors?: Author[]; // Accepted co-authors, shown in the byline
 };
 
 // Status badge configuration type
@@ -70,9 +84,31 @@ interface PostCardProps {
   onEdit?: (post: Post) => void;
   onDelete?: (post: Post) => void;
   onDuplicate?: (post: Post) => void;
+  onCancelSchedule?: (post: Post) => void;
   className?: string;
 }
 
+// "Ann", "Ann and Bo", "Ann, Bo and Cy"
+export const formatNames = (authors: Author[]): string => {
+  const names = authors.map((author) => author.name);
+  return names.length > 1
+    ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+    : names.join("");
+};
+
+// A draft with a publish time is waiting in the schedule queue
+export const isScheduledPost = (
+  post: Pick<Post, "status" | "scheduledFor">
+): boolean =>
+  post.status === "draft" && post.scheduledFor !== undefined;
+
+// A scheduled draft whose time has passed without it going out - its publish
+// job was missed or cancelled, so it stays listed until the author acts
+export const isOverdueSchedule = (
+  post: Pick<Post, "status" | "scheduledFor">
+): boolean =>
+  isScheduledPost(post) && post.scheduledFor! <= Date.now();
+
 const PostCard: React.FC<PostCardProps> = ({
   post,
   showActions = false,
@@ -80,25 +116,54 @@ const PostCard: React.FC<PostCardProps> = ({
   onEdit,
   onDelete,
   onDuplicate,
+  onCancelSchedule,
   className = "",
 }) => {
   
   // Get status badge configuration
   const getStatusBadge = (post: Post): StatusBadgeConfig => {
+    if (isOverdueSchedule(post)) {
+      return {
+        variant: "secondary",
+        className: "bg-red-500/20 text-red-300 border-red-500/30",
+        label: "Scheduled (overdue)",
+      };
+    }
+    if (isScheduledPost(post)) {
+      return {
+        variant: "secondary",
+        className: "bg-blue-500/20 text-blue-300 border-blue-500/30",
+        label: "Scheduled",
+      };
+    }
     if (post.status === "published") {
-      if (post.scheduledFor && post.scheduledFor > Date.now()) {
-        return {
-          variant: "secondary",
-          className: "bg-zinc-800/50 text-[#A1A1AA] border-zinc-700",
-          label: "Scheduled",
-        };
-      }
       return {
         variant: "default",
         className: "bg-zinc-800/50 text-[#A1A1AA] border-zinc-700",
         label: "Published",
       };
     }
+    if (post.status === "in_review") {
+      return {
+        variant: "secondary",
+        className: "bg-yellow-500/20 text-yellow-300 border-yellow-500/30",
+        label: "In Review",
+      };
+    }
+    if (post.reviewDecision === "approved") {
+      return {
+        variant: "outline",
+        className: "bg-green-500/20 text-green-300 border-green-500/30",
+        label: "Approved",
+      };
+    }
+    if (post.reviewDecision === "changes_requested") {
+      return {
+        variant: "outline",
+        className: "bg-red-500/20 text-red-300 border-red-500/30",
+        label: "Changes Requested",
+      };
+    }
     return {
       variant: "outline",
       className: "bg-orange-500/20 text-orange-300 border-orange-500/30",
@@ -112,7 +177,7 @@ const PostCard: React.FC<PostCardProps> = ({
       post.status === "published" &&
       (post.author?.username || post?.username)
     ) {
-      return `/${post.author?.username || post?.username}/${post._id}`;
+      return `/${post.author?.username || post?.username}/${post.slug || post._id}`;
     }
     return null;
   };
@@ -153,10 +218,35 @@ const PostCard: React.FC<PostCardProps> = ({
                 >
                   {statusBadge.label}
                 </Badge>
-                {post.scheduledFor && post.scheduledFor > Date.now() && (
+                {post.visibility && post.visibility !== "public" && (
+                  <Badge
+                    variant="outline"
+                    className="bg-purple-500/20 text-purple-300 border-purple-500/30"
+                  >
+                    {post.visibility === "unlisted" ? (
+                      <Link2 className="h-3 w-3 mr-1" />
+                    ) : (
+                      <Users className="h-3 w-3 mr-1" />
+                    )}
+                    {VISIBILITY_OPTIONS[post.visibility].label}
+                  </Badge>
+                )}
+                {post.shared && (
+                  <Badge
+                    variant="outline"
+                    className="bg-sky-500/20 text-sky-300 border-sky-500/30"
+                  >
+                    <UserPlus className="h-3 w-3 mr-1" />
+                    Co-author
+                  </Badge>
+                )}
+                {isScheduledPost(post) && (
                   <div className="flex items-center text-xs text-[#A1A1AA]">
                     <Calendar className="h-3 w-3 mr-1" />
-                    {new Date(post.scheduledFor).toLocaleDateString()}
+                    {new Date(post.scheduledFor!).toLocaleString([], {
+                      dateStyle: "medium",
+                      timeStyle: "short",
+                    })}
                   </div>
                 )}
               </div>
@@ -199,6 +289,12 @@ const PostCard: React.FC<PostCardProps> = ({
                       Duplicate
                     </DropdownMenuItem>
                   )}
+                  {onCancelSchedule && isScheduledPost(post) && (
+                    <DropdownMenuItem onClick={() => onCancelSchedule(post)}>
+                      <CalendarX className="h-4 w-4 mr-2" />
+                      Cancel Schedule
+                    </DropdownMenuItem>
+                  )}
                   {onDelete && (
                     <>
                       <DropdownMenuSeparator />
@@ -207,7 +303,7 @@ const PostCard: React.FC<PostCardProps> = ({
                         className="text-red-400 focus:text-red-400"
                       >
                         <Trash2 className="h-4 w-4 mr-2" />
-                        Delete Post
+                        Move to Trash
                       </DropdownMenuItem>
                     </>
                   )}
@@ -247,17 +343,30 @@ const PostCard: React.FC<PostCardProps> = ({
             </div>
           )}
 
+          {/* Co-authors */}
+          {post.coAuthors && post.coAuthors.length > 0 && (
+            <p className="text-xs text-slate-400">
+              {showAuthor && post.author
+                ? `with ${formatNames(post.coAuthors)}`
+                : `by ${formatNames([
+                    ...(post.author ? [post.author] : []),
+                    ...post.coAuthors,
+                  ])}`}
+            </p>
+          )}
+
           {/* Tags */}
           {post.tags && post.tags.length > 0 && (
             <div className="flex flex-wrap gap-2">
               {post.tags.slice(0, 3).map((tag: string) => (
-                <Badge
-                  key={tag}
-                  variant="secondary"
-                  className="bg-zinc-800/50 text-[#A1A1AA] border-zinc-700 text-xs"
-                >
-                  {tag}
-                </Badge>
+                <Link key={tag} href={tagUrl(tag)}>
+                  <Badge
+                    variant="secondary"
+                    className="bg-zinc-800/50 text-[#A1A1AA] border-zinc-700 text-xs hover:text-[#EDEEF0]"
+                  >
+                    {tag}
+                  </Badge>
+                </Link>
               ))}
               {post.tags.length > 3 && (
                 <Badge
@@ -284,6 +393,11 @@ const PostCard: React.FC<PostCardProps> = ({
               <div className="flex items-center gap-1">
                 <MessageCircle className="h-4 w-4" />0
               </div>
+              <div className="flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                {post.readingTime ?? getReadingStats(post.content).readingTime} min
+                read
+              </div>
             </div>
             <time>
               {post.status === "published" && post.publishedAt
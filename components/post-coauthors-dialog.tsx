@@ -0,0 +1,273 @@
+"use client";
+
+import React, { useState } from "react";
+import Image from "next/image";
+import { Loader2, UserPlus, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/convex/_generated/api";
+import { useConvexMutation, useConvexQuery } from "@/hooks/use-convex-query";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+// Type definitions
+type PostRole = "owner" | "editor";
+
+type Member = {
+  _id: Id<"users">;
+  name: string;
+  username?: string;
+  imageUrl?: string;
+};
+
+type Collaborator = Doc<"postCollaborators"> & {
+  user: Member | null;
+};
+
+type PostCollaborators = {
+  author: Member | null;
+  collaborators: Collaborator[];
+  viewerRole: PostRole | null;
+} | null;
+
+interface PostCoauthorsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  postId?: Id<"posts">;
+}
+
+const ROLE_LABELS: Record<PostRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+};
+
+const ROLE_DESCRIPTIONS: Record<PostRole, string> = {
+  owner: "Can edit, publish, change settings and manage co-authors",
+  editor: "Can edit the title and content, but not publish",
+};
+
+const MemberAvatar = ({ member }: { member: Member | null }) => (
+  <div className="relative w-8 h-8 flex-shrink-0">
+    {member?.imageUrl ? (
+      <Image
+        src={member.imageUrl}
+        alt={member.name}
+        fill
+        className="rounded-full object-cover"
+        sizes="32px"
+      />
+    ) : (
+      <div className="w-full h-full rounded-full bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-sm font-bold">
+        {member?.name.charAt(0).toUpperCase() ?? "?"}
+      </div>
+    )}
+  </div>
+);
+
+// Invite co-authors to a post and manage their roles
+export default function PostCoauthorsDialog({
+  isOpen,
+  onClose,
+  postId,
+}: PostCoauthorsDialogProps) {
+  const [username, setUsername] = useState<string>("");
+  const [role, setRole] = useState<PostRole>("editor");
+
+  const { data } = useConvexQuery<PostCollaborators>(
+    api.collaborators.getPostCollaborators,
+    isOpen && postId ? { postId } : "skip"
+  );
+  const { mutate: invite, isLoading: isInviting } = useConvexMutation(
+    api.collaborators.invite
+  );
+  const { mutate: updateRole } = useConvexMutation(
+    api.collaborators.updateRole
+  );
+  const { mutate: removeCollaborator } = useConvexMutation(
+    api.collaborators.remove
+  );
+
+  const isOwner = data?.viewerRole === "owner";
+
+  const handleInvite = async (): Promise<void> => {
+    if (!postId || !username.trim()) return;
+
+    try {
+      await invite({ postId, username: username.trim(), role });
+      toast.success(`Invitation sent to @${username.trim().replace(/^@/, "")}`);
+      setUsername("");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  const handleRoleChange = async (
+    collaborator: Collaborator,
+    nextRole: PostRole
+  ): Promise<void> => {
+    try {
+      await updateRole({ collaboratorId: collaborator._id, role: nextRole });
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  const handleRemove = async (collaborator: Collaborator): Promise<void> => {
+    try {
+      await removeCollaborator({ collaboratorId: collaborator._id });
+      toast.success(
+        collaborator.status === "pending"
+          ? "Invitation withdrawn"
+          : "Co-author removed"
+      );
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-white">Co-authors</DialogTitle>
+          <DialogDescription>
+            Everyone listed here appears in the post&apos;s byline once they
+            accept
+          </DialogDescription>
+        </DialogHeader>
+
+        {!data ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Members */}
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <MemberAvatar member={data.author} />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-white truncate">
+                    {data.author?.name ?? "Unknown"}
+                  </p>
+                  <p className="text-xs text-slate-400">Author</p>
+                </div>
+                <Badge variant="secondary">{ROLE_LABELS.owner}</Badge>
+              </div>
+
+              {data.collaborators.map((collaborator) => (
+                <div key={collaborator._id} className="flex items-center gap-3">
+                  <MemberAvatar member={collaborator.user} />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-white truncate">
+                      {collaborator.user?.name ?? "Unknown"}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      {collaborator.status === "pending"
+                        ? "Invitation pending"
+                        : `@${collaborator.user?.username ?? ""}`}
+                    </p>
+                  </div>
+
+                  {isOwner ? (
+                    <>
+                      <Select
+                        value={collaborator.role}
+                        onValueChange={(value) =>
+                          handleRoleChange(collaborator, value as PostRole)
+                        }
+                      >
+                        <SelectTrigger className="w-28 h-8 bg-slate-800 border-slate-600">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="owner">Owner</SelectItem>
+                          <SelectItem value="editor">Editor</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemove(collaborator)}
+                        className="text-slate-400 hover:text-red-400"
+                        title="Remove"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <Badge variant="secondary">
+                      {ROLE_LABELS[collaborator.role]}
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Invite */}
+            {isOwner && (
+              <div className="space-y-2 pt-4 border-t border-slate-800">
+                <label className="text-white text-sm font-medium">
+                  Invite a co-author
+                </label>
+                <div className="flex space-x-2">
+                  <Input
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleInvite();
+                      }
+                    }}
+                    placeholder="@username"
+                    className="bg-slate-800 border-slate-600"
+                  />
+                  <Select
+                    value={role}
+                    onValueChange={(value) => setRole(value as PostRole)}
+                  >
+                    <SelectTrigger className="w-28 bg-slate-800 border-slate-600">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="owner">Owner</SelectItem>
+                      <SelectItem value="editor">Editor</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={handleInvite}
+                    disabled={!username.trim() || isInviting}
+                  >
+                    <UserPlus className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-slate-400">
+                  {ROLE_DESCRIPTIONS[role]}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import React from "react";
+import { GitMerge, Monitor, Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+
+// Type definitions
+export type PostVersion = {
+  title: string;
+  content: string;
+};
+
+export type PostConflict = {
+  mine: PostVersion;
+  theirs: PostVersion & { version: number; updatedAt: number };
+};
+
+interface PostConflictDialogProps {
+  conflict: PostConflict | null;
+  onKeepMine: () => void;
+  onKeepTheirs: () => void;
+  onMerge: () => void;
+  onClose: () => void;
+}
+
+const VersionColumn = ({
+  label,
+  icon: Icon,
+  version,
+}: {
+  label: string;
+  icon: typeof Monitor;
+  version: PostVersion;
+}) => (
+  <div className="min-w-0 space-y-2">
+    <p className="flex items-center text-sm font-medium text-[#D1D5DB]">
+      <Icon className="h-4 w-4 mr-2" />
+      {label}
+    </p>
+    <div className="rounded-xl border border-[#1F2228] bg-[#111318] p-4 max-h-[50vh] overflow-y-auto">
+      <h3 className="text-lg font-semibold text-white mb-3">{version.title}</h3>
+      <div
+        className="prose prose-invert prose-sm max-w-none"
+        dangerouslySetInnerHTML={{ __html: version.content }}
+      />
+    </div>
+  </div>
+);
+
+// Shown when a save is refused because someone else saved the post first
+export default function PostConflictDialog({
+  conflict,
+  onKeepMine,
+  onKeepTheirs,
+  onMerge,
+  onClose,
+}: PostConflictDialogProps) {
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="!max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">
+            This post changed while you were editing
+          </DialogTitle>
+          <DialogDescription>
+            {conflict &&
+              `A newer version was saved ${new Date(
+                conflict.theirs.updatedAt
+              ).toLocaleString()}. Choose which changes to keep.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <VersionColumn label="Your version" icon={Monitor} version={conflict.mine} />
+            <VersionColumn label="Saved version" icon={Users} version={conflict.theirs} />
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="ghost" onClick={onKeepTheirs}>
+            Keep theirs
+          </Button>
+          <Button variant="outline" onClick={onMerge}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            Merge
+          </Button>
+          <Button variant="primary" onClick={onKeepMine}>
+            Keep mine
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
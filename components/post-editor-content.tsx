@@ -1,42 +1,44 @@
 "use client";
 
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ImageIcon, Sparkles, Wand2, Plus, Minus } from "lucide-react";
 import { toast } from "sonner";
 import dynamic from "next/dynamic";
+import type { Quill } from "react-quill-new";
 import { generateBlogContent, improveContent } from "@/app/actions/gemini";
 import { BarLoader } from "react-spinners";
 import { type UseFormReturn } from "react-hook-form";
 import { z } from "zod";
+import { POST_VISIBILITIES } from "@/lib/visibility";
 
 const ReactQuill = dynamic(() => import("react-quill-new"), { ssr: false });
 
 const postSchema = z.object({
   title: z.string().min(1, "Title is required").max(200, "Title too long"),
+  slug: z.string().max(80, "Slug too long").optional(),
   content: z.string().min(1, "Content is required"),
   category: z.string().optional(),
   tags: z.array(z.string()).max(10, "Maximum 10 tags allowed"),
   featuredImage: z.string().optional(),
   scheduledFor: z.string().optional(),
+  visibility: z.enum(POST_VISIBILITIES),
+  seriesId: z.string().optional(),
+  publicationId: z.string().optional(),
 });
 
 type PostFormData = z.infer<typeof postSchema>;
 
 type QuillInstance = {
-  getEditor: () => {
-    getSelection: () => { index: number } | null;
-    getLength: () => number;
-    insertEmbed: (index: number, type: string, url: string) => void;
-    setSelection: (index: number) => void;
-  };
+  getEditor: () => Quill;
 };
 
 interface PostEditorContentProps {
   form: UseFormReturn<PostFormData>;
   setQuillRef: (ref: QuillInstance | null) => void;
   onImageUpload: (type: "featured" | "content") => void;
+  onBeforeAIRewrite?: (note: string) => Promise<void>;
 }
 
 const quillConfig = {
@@ -84,6 +86,7 @@ export default function PostEditorContent({
   form,
   setQuillRef,
   onImageUpload,
+  onBeforeAIRewrite,
 }: PostEditorContentProps) {
   const {
     register,
@@ -95,15 +98,24 @@ export default function PostEditorContent({
   const watchedValues = watch();
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [isImproving, setIsImproving] = useState<boolean>(false);
-  const quillRef = useRef<QuillInstance | null>(null);
+  const onImageUploadRef = useRef(onImageUpload);
 
-  const getQuillModules = () => ({
-    ...quillConfig.modules,
-    toolbar: {
-      ...quillConfig.modules.toolbar,
-      handlers: { image: () => onImageUpload("content") },
-    },
-  });
+  useEffect(() => {
+    onImageUploadRef.current = onImageUpload;
+  }, [onImageUpload]);
+
+  // Stable across renders - ReactQuill rebuilds the whole editor when modules change,
+  // which would drop co-writers' edits and cursors
+  const quillModules = useMemo(
+    () => ({
+      ...quillConfig.modules,
+      toolbar: {
+        ...quillConfig.modules.toolbar,
+        handlers: { image: () => onImageUploadRef.current("content") },
+      },
+    }),
+    []
+  );
 
   // Import CSS dynamically on client side
   useEffect(() => {
@@ -113,14 +125,13 @@ export default function PostEditorContent({
     }
   }, []);
 
-  useEffect(() => {
-    if (quillRef.current) {
-      setQuillRef(quillRef.current);
-    }
-    return () => {
-      setQuillRef(null);
-    };
-  }, [setQuillRef]);
+  // ReactQuill is loaded lazily, so report the instance whenever it mounts
+  const handleQuillRef = useCallback(
+    (instance: QuillInstance | null) => {
+      setQuillRef(instance);
+    },
+    [setQuillRef]
+  );
 
   const handleAI = async (
     type: "generate" | "improve",
@@ -154,6 +165,12 @@ export default function PostEditorContent({
             );
 
       if (result.success) {
+        // Snapshot the current version so the rewrite can be undone from history
+        if (content && content !== "<p><br></p>") {
+          await onBeforeAIRewrite?.(
+            `Before AI ${type === "generate" ? "generate" : improvementType || "enhance"}`
+          );
+        }
         setValue("content", result.content);
         toast.success(
           `Content ${type === "generate" ? "generated" : improvementType + "d"} successfully!`
@@ -273,12 +290,12 @@ export default function PostEditorContent({
           <div className="prose prose-lg max-w-none bg-[#111318] rounded-xl p-6 border border-[#1F2228] relative">
             <ReactQuill
               // @ts-expect-error - react-quill-new types don't properly support ref
-              ref={quillRef}
+              ref={handleQuillRef}
               theme="snow"
               value={watchedValues.content || ""}
               onChange={(content: string) => setValue("content", content)}
               readOnly={false}
-              modules={getQuillModules()}
+              modules={quillModules}
               formats={quillConfig.formats}
               placeholder="Start writing… or let AI help you shape your thoughts."
               style={{
@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useState } from "react";
+import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -16,15 +17,25 @@ import {
   Calendar,
   Settings,
   Loader2,
+  History,
+  Link2,
+  Copy,
+  Ban,
+  Users,
+  ClipboardCheck,
+  CloudOff,
 } from "lucide-react";
 import { type Id } from "@/convex/_generated/dataModel";
+import { isOverdueSchedule } from "./post-card";
+import { type PostReviewState } from "./post-review-panel";
+import { type Collaborator } from "@/hooks/use-collaborative-quill";
 
 type PostData = {
   _id: Id<"posts">;
   _creationTime: number;
   title: string;
   content: string;
-  status: "draft" | "published";
+  status: "draft" | "in_review" | "published";
   authorId: Id<"users">;
   tags: string[];
   category?: string;
@@ -37,15 +48,25 @@ type PostData = {
   likeCount: number;
 };
 
+const MAX_AVATARS: number = 4;
+
 interface PostEditorHeaderProps {
   mode: "create" | "edit";
   initialData?: PostData | null;
   isPublishing: boolean;
+  isOffline: boolean;
   hasTitle: boolean;
   onSave: (silent?: boolean) => void;
   onPublish: () => void;
   onSchedule: () => void;
   onSettingsOpen: () => void;
+  onHistoryOpen?: () => void;
+  onCoauthorsOpen?: () => void;
+  onReviewOpen?: () => void;
+  reviewState: PostReviewState;
+  collaborators: Collaborator[];
+  onCopyPreviewLink: () => void;
+  onRevokePreviewLinks?: () => void;
   onBack: () => void;
 }
 
@@ -53,17 +74,45 @@ export default function PostEditorHeader({
   mode,
   initialData,
   isPublishing,
+  isOffline,
   hasTitle,
   onSave,
   onPublish,
   onSchedule,
   onSettingsOpen,
+  onHistoryOpen,
+  onCoauthorsOpen,
+  onReviewOpen,
+  reviewState,
+  collaborators,
+  onCopyPreviewLink,
+  onRevokePreviewLinks,
   onBack,
 }: PostEditorHeaderProps) {
   const [isPublishMenuOpen, setIsPublishMenuOpen] = useState<boolean>(false);
 
-  const isDraft = initialData?.status === "draft";
+  // The review state is live, so prefer it over the status the editor loaded with
+  const status = reviewState?.status ?? initialData?.status;
+  const isDraft = status === "draft";
+  const isInReview = status === "in_review";
+  const isScheduled = isDraft && !!initialData?.scheduledFor;
+  // Its publish job was missed or cancelled - it won't go out on its own
+  const isOverdue =
+    isScheduled &&
+    isOverdueSchedule({ status: "draft", scheduledFor: initialData?.scheduledFor });
   const isEdit = mode === "edit";
+  // Drafts keep the save/publish/schedule actions even when opened for editing
+  const isEditingPublished = isEdit && !isDraft && !isInReview;
+  const awaitingApproval =
+    isInReview ||
+    (!!reviewState?.required && reviewState.decision !== "approved");
+
+  // One avatar per person, however many tabs they have open
+  const editingNow = collaborators.filter(
+    (collaborator, index) =>
+      collaborators.findIndex((other) => other.userId === collaborator.userId) ===
+      index
+  );
 
   return (
     <header 
@@ -85,18 +134,157 @@ export default function PostEditorHeader({
             Back
           </Button>
 
-          {isDraft && (
+          {isScheduled ? (
+            <Badge
+              variant="secondary"
+              className={
+                isOverdue
+                  ? "bg-red-500/20 text-red-300 border-red-500/30"
+                  : "bg-blue-500/20 text-blue-300 border-blue-500/30"
+              }
+            >
+              <Calendar className="h-3 w-3 mr-1" />
+              {isOverdue ? "Overdue - was scheduled for" : "Scheduled for"}{" "}
+              {new Date(initialData!.scheduledFor!).toLocaleString()}
+            </Badge>
+          ) : isInReview ? (
+            <Badge
+              variant="secondary"
+              className="bg-yellow-500/20 text-yellow-300 border-yellow-500/30"
+            >
+              In Review
+            </Badge>
+          ) : (
+            isDraft && (
+              <Badge
+                variant="secondary"
+                className="bg-orange-500/20 text-orange-300 border-orange-500/30"
+              >
+                {reviewState?.decision === "approved"
+                  ? "Draft • Approved"
+                  : reviewState?.decision === "changes_requested"
+                    ? "Draft • Changes requested"
+                    : "Draft"}
+              </Badge>
+            )
+          )}
+
+          {isOffline && (
             <Badge
               variant="secondary"
-              className="bg-orange-500/20 text-orange-300 border-orange-500/30"
+              className="bg-slate-500/20 text-slate-300 border-slate-500/30"
+              title="Changes are kept on this device until the connection is back"
             >
-              Draft
+              <CloudOff className="h-3 w-3 mr-1" />
+              Offline
             </Badge>
           )}
         </div>
 
         {/* Right */}
         <div className="flex items-center space-x-3">
+          {editingNow.length > 0 && (
+            <div className="flex -space-x-2 mr-2">
+              {editingNow.slice(0, MAX_AVATARS).map((collaborator) => (
+                <div
+                  key={collaborator.userId}
+                  className="relative w-7 h-7 rounded-full ring-2"
+                  style={{ ["--tw-ring-color" as string]: collaborator.color }}
+                  title={`${collaborator.name} is editing`}
+                >
+                  {collaborator.imageUrl ? (
+                    <Image
+                      src={collaborator.imageUrl}
+                      alt={collaborator.name}
+                      fill
+                      className="rounded-full object-cover"
+                      sizes="28px"
+                    />
+                  ) : (
+                    <div
+                      className="w-full h-full rounded-full flex items-center justify-center text-xs font-bold text-black"
+                      style={{ backgroundColor: collaborator.color }}
+                    >
+                      {collaborator.name.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                </div>
+              ))}
+              {editingNow.length > MAX_AVATARS && (
+                <div className="w-7 h-7 rounded-full bg-slate-700 ring-2 ring-slate-900 flex items-center justify-center text-[10px] text-slate-200">
+                  +{editingNow.length - MAX_AVATARS}
+                </div>
+              )}
+            </div>
+          )}
+
+          {onHistoryOpen && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onHistoryOpen}
+              className="text-slate-400 hover:text-white"
+              title="Revision history"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+          )}
+
+          {onCoauthorsOpen && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onCoauthorsOpen}
+              className="text-slate-400 hover:text-white"
+              title="Co-authors"
+            >
+              <Users className="h-4 w-4" />
+            </Button>
+          )}
+
+          {onReviewOpen && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onReviewOpen}
+              className="relative text-slate-400 hover:text-white"
+              title="Review"
+            >
+              <ClipboardCheck className="h-4 w-4" />
+              {!!reviewState?.openNotes && (
+                <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-yellow-500 text-[10px] leading-4 text-black">
+                  {reviewState.openNotes}
+                </span>
+              )}
+            </Button>
+          )}
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={!hasTitle}
+                className="text-slate-400 hover:text-white"
+                title={!hasTitle ? "Title is required to share" : "Share preview"}
+              >
+                <Link2 className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-52">
+              <DropdownMenuItem onClick={onCopyPreviewLink}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy preview link
+              </DropdownMenuItem>
+              {onRevokePreviewLinks && (
+                <DropdownMenuItem onClick={onRevokePreviewLinks}>
+                  <Ban className="h-4 w-4 mr-2" />
+                  Revoke preview links
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
           <Button
             variant="ghost"
             size="sm"
@@ -106,7 +294,7 @@ export default function PostEditorHeader({
             <Settings className="h-4 w-4" />
           </Button>
 
-          {!isEdit && (
+          {!isEditingPublished && (
             <Button
               onClick={() => onSave(false)}
               disabled={isPublishing || !hasTitle}
@@ -123,7 +311,7 @@ export default function PostEditorHeader({
             </Button>
           )}
 
-          {isEdit ? (
+          {isEditingPublished ? (
             <Button
               variant={"primary"}
               disabled={isPublishing || !hasTitle}
@@ -160,6 +348,18 @@ export default function PostEditorHeader({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-48">
+                {awaitingApproval && (
+                  <DropdownMenuItem
+                    onClick={() => {
+                      onReviewOpen?.();
+                      setIsPublishMenuOpen(false);
+                    }}
+                    disabled={!onReviewOpen}
+                  >
+                    <ClipboardCheck className="h-4 w-4 mr-2" />
+                    {isInReview ? "Waiting for review" : "Submit for review"}
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem
                   onClick={() => {
                     if (hasTitle) {
@@ -167,7 +367,7 @@ export default function PostEditorHeader({
                       setIsPublishMenuOpen(false);
                     }
                   }}
-                  disabled={!hasTitle}
+                  disabled={!hasTitle || awaitingApproval}
                 >
                   <Send className="h-4 w-4 mr-2" />
                   Publish now
@@ -179,10 +379,10 @@ export default function PostEditorHeader({
                       setIsPublishMenuOpen(false);
                     }
                   }}
-                  disabled={!hasTitle}
+                  disabled={!hasTitle || awaitingApproval}
                 >
                   <Calendar className="h-4 w-4 mr-2" />
-                  Schedule for later
+                  {isScheduled ? "Reschedule" : "Schedule for later"}
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
@@ -18,29 +18,54 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Plus, X } from "lucide-react";
+import { Layers, Link2, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { useConvexMutation, useConvexQuery } from "@/hooks/use-convex-query";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { slugify } from "@/lib/slug";
 import { type UseFormReturn } from "react-hook-form";
 import { z } from "zod";
+import {
+  POST_VISIBILITIES,
+  VISIBILITY_OPTIONS,
+  type PostVisibility,
+} from "@/lib/visibility";
 
 const postSchema = z.object({
   title: z.string().min(1, "Title is required").max(200, "Title too long"),
+  slug: z.string().max(80, "Slug too long").optional(),
   content: z.string().min(1, "Content is required"),
   category: z.string().optional(),
   tags: z.array(z.string()).max(10, "Maximum 10 tags allowed"),
   featuredImage: z.string().optional(),
   scheduledFor: z.string().optional(),
+  visibility: z.enum(POST_VISIBILITIES),
+  seriesId: z.string().optional(),
+  publicationId: z.string().optional(),
 });
 
 type PostFormData = z.infer<typeof postSchema>;
 
+type SeriesSummary = Doc<"series"> & {
+  postCount: number;
+};
+
+type PublicationSummary = Doc<"publications"> & {
+  role: "admin" | "editor" | "writer";
+};
+
+const NO_SERIES = "none";
+const NO_PUBLICATION = "none";
+
 interface PostEditorSettingsProps {
   isOpen: boolean;
   onClose: () => void;
   form: UseFormReturn<PostFormData>;
-  mode: "create" | "edit";
+  canSchedule: boolean;
 }
 
-const CATEGORIES = [
+export const CATEGORIES = [
   "Technology",
   "Design",
   "Marketing",
@@ -53,17 +78,47 @@ const CATEGORIES = [
   "Entertainment",
 ] as const;
 
+// Match an imported category to one of ours, keeping unknown ones as written
+export const matchCategory = (category?: string): string | undefined =>
+  CATEGORIES.find((c) => c.toLowerCase() === category?.toLowerCase()) ??
+  category;
+
 export default function PostEditorSettings({
   isOpen,
   onClose,
   form,
-  mode,
+  canSchedule,
 }: PostEditorSettingsProps) {
   
   const [tagInput, setTagInput] = useState<string>("");
   const { watch, setValue } = form;
   const watchedValues = watch();
 
+  const [newSeriesTitle, setNewSeriesTitle] = useState<string>("");
+  const { data: mySeries } = useConvexQuery<SeriesSummary[]>(
+    api.series.getMySeries
+  );
+  const { mutate: createSeries, isLoading: isCreatingSeries } =
+    useConvexMutation<Id<"series">>(api.series.create);
+
+  const { data: myPublications } = useConvexQuery<PublicationSummary[]>(
+    api.publications.getMyPublications
+  );
+
+  const handleCreateSeries = async (): Promise<void> => {
+    const title = newSeriesTitle.trim();
+    if (!title) return;
+
+    try {
+      const seriesId = await createSeries({ title });
+      setValue("seriesId", seriesId, { shouldDirty: true });
+      setNewSeriesTitle("");
+      toast.success(`Series "${title}" created`);
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
   const handleTagInput = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter" || e.key === ",") {
       e.preventDefault();
@@ -99,6 +154,147 @@ export default function PostEditorSettings({
         </DialogHeader>
 
         <div className="space-y-6">
+          {/* Slug */}
+          <div className="space-y-2">
+            <label className="text-white text-sm font-medium">URL Slug</label>
+            <div className="flex items-center space-x-2">
+              <Link2 className="h-4 w-4 text-slate-400 flex-shrink-0" />
+              <Input
+                value={watchedValues.slug || ""}
+                onChange={(e) =>
+                  setValue("slug", e.target.value, { shouldDirty: true })
+                }
+                onBlur={(e) =>
+                  e.target.value.trim() &&
+                  setValue("slug", slugify(e.target.value), {
+                    shouldDirty: true,
+                  })
+                }
+                placeholder={slugify(watchedValues.title || "")}
+                className="bg-slate-800 border-slate-600"
+              />
+            </div>
+            <p className="text-xs text-slate-400">
+              Leave empty to generate it from the title. Changing the slug of a
+              published post keeps the old link working.
+            </p>
+          </div>
+
+          {/* Visibility */}
+          <div className="space-y-2">
+            <label className="text-white text-sm font-medium">Visibility</label>
+            <Select
+              value={watchedValues.visibility}
+              onValueChange={(value) =>
+                setValue("visibility", value as PostVisibility)
+              }
+            >
+              <SelectTrigger className="bg-slate-800 border-slate-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {POST_VISIBILITIES.map((visibility) => (
+                  <SelectItem key={visibility} value={visibility}>
+                    {VISIBILITY_OPTIONS[visibility].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-slate-400">
+              {VISIBILITY_OPTIONS[watchedValues.visibility].description}
+            </p>
+          </div>
+
+          {/* Series */}
+          <div className="space-y-2">
+            <label className="text-white text-sm font-medium">Series</label>
+            <Select
+              value={watchedValues.seriesId || NO_SERIES}
+              onValueChange={(value) =>
+                setValue("seriesId", value === NO_SERIES ? "" : value, {
+                  shouldDirty: true,
+                })
+              }
+            >
+              <SelectTrigger className="bg-slate-800 border-slate-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SERIES}>Not part of a series</SelectItem>
+                {mySeries?.map((series) => (
+                  <SelectItem key={series._id} value={series._id}>
+                    {series.title} ({series.postCount}{" "}
+                    {series.postCount === 1 ? "part" : "parts"})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex space-x-2">
+              <Input
+                value={newSeriesTitle}
+                onChange={(e) => setNewSeriesTitle(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleCreateSeries();
+                  }
+                }}
+                placeholder="New series title..."
+                className="bg-slate-800 border-slate-600"
+              />
+              <Button
+                type="button"
+                onClick={handleCreateSeries}
+                variant="outline"
+                size="sm"
+                disabled={!newSeriesTitle.trim() || isCreatingSeries}
+              >
+                <Layers className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-slate-400">
+              New parts are added to the end of the series.
+            </p>
+          </div>
+
+          {/* Publication */}
+          {((myPublications && myPublications.length > 0) ||
+            watchedValues.publicationId) && (
+            <div className="space-y-2">
+              <label className="text-white text-sm font-medium">
+                Publication
+              </label>
+              <Select
+                value={watchedValues.publicationId || NO_PUBLICATION}
+                onValueChange={(value) =>
+                  setValue(
+                    "publicationId",
+                    value === NO_PUBLICATION ? "" : value,
+                    { shouldDirty: true }
+                  )
+                }
+              >
+                <SelectTrigger className="bg-slate-800 border-slate-600">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PUBLICATION}>
+                    Personal (no publication)
+                  </SelectItem>
+                  {myPublications?.map((publication) => (
+                    <SelectItem key={publication._id} value={publication._id}>
+                      {publication.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-400">
+                The publication&apos;s admins and editors can edit posts
+                published under it.
+              </p>
+            </div>
+          )}
+
           {/* Category */}
           <div className="space-y-2">
             <label className="text-white text-sm font-medium">Category</label>
@@ -168,7 +364,7 @@ export default function PostEditorSettings({
           </div>
 
           {/* Scheduling */}
-          {mode === "create" && (
+          {canSchedule && (
             <div className="space-y-2">
               <label className="text-white text-sm font-medium">
                 Schedule Publication
@@ -181,7 +377,7 @@ export default function PostEditorSettings({
                 min={new Date().toISOString().slice(0, 16)}
               />
               <p className="text-xs text-slate-400">
-                Leave empty to publish immediately
+                Pick a time, then choose &quot;Schedule for later&quot; to queue it
               </p>
             </div>
           )}
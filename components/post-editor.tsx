@@ -1,26 +1,54 @@
 "use client";
 
-import React, { useState, useEffect, useCallback, type RefObject } from "react";
+import React, { useState, useEffect, useCallback, useRef, type RefObject } from "react";
 import { useForm, type UseFormReturn } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { POST_VISIBILITIES, type PostVisibility } from "@/lib/visibility";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import { api } from "@/convex/_generated/api";
-import { useConvexMutation } from "@/hooks/use-convex-query";
+import { ConvexError } from "convex/values";
+import { useQuery } from "convex/react";
+import { useConvexMutation, useConvexQuery } from "@/hooks/use-convex-query";
 import { type Id } from "@/convex/_generated/dataModel";
+import type { Quill } from "react-quill-new";
+import { useCollaborativeQuill } from "@/hooks/use-collaborative-quill";
 import PostEditorHeader from "./post-editor-header";
 import PostEditorContent from "./post-editor-content";
 import PostEditorSettings from "./post-editor-settings";
 import ImageUploadModal from "./image-upload-modal";
+import PostHistoryPanel from "./post-history-panel";
+import PostCoauthorsDialog from "./post-coauthors-dialog";
+import PostReviewPanel, { type PostReviewState } from "./post-review-panel";
+import RemoteCursors from "./remote-cursors";
+import PostConflictDialog, {
+  type PostConflict,
+  type PostVersion,
+} from "./post-conflict-dialog";
+import RecoveredDraftBanner from "./recovered-draft-banner";
+import { mergeHtml } from "@/lib/html-diff";
+import { VERSION_CONFLICT } from "@/lib/post-errors";
+import {
+  NEW_DRAFT_KEY,
+  deleteLocalDraft,
+  getLocalDraft,
+  saveLocalDraft,
+  type LocalDraft,
+} from "@/lib/local-drafts";
+import { useIsOnline } from "@/hooks/use-is-online";
 
 const postSchema = z.object({ 
   title: z.string().min(1, "Title is required").max(200, "Title too long"),
+  slug: z.string().max(80, "Slug too long").optional(),
   content: z.string().min(1, "Content is required"),
   category: z.string().optional(),
   tags: z.array(z.string()).max(10, "Maximum 10 tags allowed"),
   featuredImage: z.string().optional(),
   scheduledFor: z.string().optional(),
+  visibility: z.enum(POST_VISIBILITIES),
+  seriesId: z.string().optional(),
+  publicationId: z.string().optional(),
 });
 
 type PostFormData = z.infer<typeof postSchema>;
@@ -29,20 +57,29 @@ type PostData = {
   _id: Id<"posts">;
   _creationTime: number;
   title: string;
+  slug?: string;
   content: string;
-  status: "draft" | "published";
+  status: "draft" | "in_review" | "published";
   authorId: Id<"users">;
   tags: string[];
   category?: string;
   featuredImage?: string;
   createdAt: number;
   updatedAt: number;
+  version?: number;
   publishedAt?: number;
   scheduledFor?: number;
+  visibility?: PostVisibility;
+  seriesId?: Id<"series">;
+  publicationId?: Id<"publications">;
   viewCount: number;
   likeCount: number;
 };
 
+type SaveAction = "publish" | "draft" | "schedule";
+
+const LOCAL_DRAFT_DEBOUNCE_MS: number = 500;
+
 interface PostEditorProps {
   initialData?: PostData | null;
   mode?: "create" | "edit";
@@ -53,12 +90,7 @@ interface ImageData {
 }
 
 type QuillInstance = {
-  getEditor: () => {
-    getSelection: () => { index: number } | null;
-    getLength: () => number;
-    insertEmbed: (index: number, type: string, url: string) => void;
-    setSelection: (index: number) => void;
-  };
+  getEditor: () => Quill;
 };
 
 export default function PostEditor({
@@ -72,19 +104,66 @@ export default function PostEditor({
     "featured"
   );
   const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [isCoauthorsOpen, setIsCoauthorsOpen] = useState<boolean>(false);
+  const [isReviewOpen, setIsReviewOpen] = useState<boolean>(false);
   const [quillRef, setQuillRef] = useState<QuillInstance | null>(null);
+  const [conflict, setConflict] = useState<
+    (PostConflict & { action: SaveAction }) | null
+  >(null);
+
+  // The post this editor session writes to - created on first save in create mode
+  const postIdRef = useRef<Id<"posts"> | undefined>(initialData?._id);
+  const [postId, setPostId] = useState<Id<"posts"> | undefined>(
+    initialData?._id
+  );
+
+  // The saved version this session's changes build on - the server refuses
+  // saves based on anything older, so a stale tab can't overwrite newer work
+  const baseVersionRef = useRef<number>(initialData?.version ?? 0);
+  const baseRef = useRef<PostVersion>({
+    title: initialData?.title ?? "",
+    content: initialData?.content ?? "",
+  });
+
+  // What's saved right now, to compare against when a save is refused
+  const savedPost = useQuery(
+    api.posts.getById,
+    postId ? { id: postId } : "skip"
+  ) as PostData | null | undefined;
 
   // Mutations with built-in loading states
   const { mutate: createPost, isLoading: isCreateLoading } =
     useConvexMutation<Id<"posts">>(api.posts.create);
   const { mutate: updatePost, isLoading: isUpdating } =
     useConvexMutation<Id<"posts">>(api.posts.update);
+  const { mutate: createSnapshot } = useConvexMutation(
+    api.revisions.createSnapshot
+  );
+  const { mutate: getPreviewLink } = useConvexMutation<{
+    token: string;
+    expiresAt: number;
+  }>(api.previews.getOrCreatePreviewLink);
+  const { mutate: revokePreviewLinks } = useConvexMutation<{
+    revoked: number;
+  }>(api.previews.revokePreviewLinks);
+
+  // Co-writers with the post open edit the same live document
+  const quill = quillRef ? quillRef.getEditor() : null;
+  const collaborators = useCollaborativeQuill(postId, quill);
+
+  // Whether publishing waits on a reviewer's approval
+  const { data: reviewState } = useConvexQuery<PostReviewState>(
+    api.reviews.getPostReviewState,
+    postId ? { postId } : {}
+  );
 
   // Form setup
   const form = useForm<PostFormData>({
     resolver: zodResolver(postSchema),
     defaultValues: {
       title: initialData?.title || "",
+      slug: initialData?.slug || "",
       content: initialData?.content || "",
       category: initialData?.category || "",
       tags: initialData?.tags || [],
@@ -92,17 +171,43 @@ export default function PostEditor({
       scheduledFor: initialData?.scheduledFor
         ? new Date(initialData.scheduledFor).toISOString().slice(0, 16)
         : "",
+      visibility: initialData?.visibility || "public",
+      seriesId: initialData?.seriesId || "",
+      publicationId: initialData?.publicationId || "",
     },
   });
 
-  const { handleSubmit, watch, setValue } = form;
+  const { handleSubmit, watch, setValue, getValues } = form;
   const watchedValues = watch();
 
+  // Unsaved work is mirrored to IndexedDB until the server has it
+  const isOnline = useIsOnline();
+  const [recoveredDraft, setRecoveredDraft] =
+    useState<LocalDraft<PostFormData> | null>(null);
+  const [isDraftChecked, setIsDraftChecked] = useState<boolean>(false);
+  // A save the writer asked for while offline, replayed on reconnect
+  const pendingSaveRef = useRef<SaveAction | null>(null);
+
+  const persistDraft = useCallback(async (): Promise<void> => {
+    try {
+      await saveLocalDraft<PostFormData>({
+        key: postIdRef.current ?? NEW_DRAFT_KEY,
+        values: getValues(),
+        base: baseRef.current,
+        baseVersion: baseVersionRef.current,
+        pendingSave: pendingSaveRef.current ?? undefined,
+        savedAt: Date.now(),
+      });
+    } catch {
+      // Private browsing can block IndexedDB; the editor works without it
+    }
+  }, [getValues]);
+
   // Submit handler
   const onSubmit = useCallback(
     async (
       data: PostFormData,
-      action: "publish" | "draft" | "schedule",
+      action: SaveAction,
       silent = false
     ): Promise<Id<"posts"> | undefined> => {
       try {
@@ -122,53 +227,119 @@ export default function PostEditor({
           throw new Error("Content is required to publish");
         }
 
+        // Offline: keep the request and send it once the connection is back
+        if (!isOnline) {
+          if (!silent) {
+            pendingSaveRef.current = action;
+            await persistDraft();
+            toast.info("You're offline - this will be saved when you reconnect");
+          }
+          return postIdRef.current;
+        }
+
         const postData = {
           title: data.title.trim(),
+          // Only send a slug the author edited; otherwise the server keeps or derives it
+          slug: form.getFieldState("slug").isDirty
+            ? data.slug?.trim() ?? ""
+            : undefined,
           content: data.content,
           category: data.category || undefined,
           tags: data.tags,
           featuredImage: data.featuredImage || undefined,
+          visibility: data.visibility,
+          seriesId: data.seriesId ? (data.seriesId as Id<"series">) : null,
+          publicationId: data.publicationId
+            ? (data.publicationId as Id<"publications">)
+            : null,
           status: action === "publish" ? "published" : "draft",
-          scheduledFor: data.scheduledFor
-            ? new Date(data.scheduledFor).getTime()
-            : undefined,
+          // Only the schedule action (re)schedules; plain saves keep the queue as is
+          scheduledFor:
+            action === "schedule" && data.scheduledFor
+              ? new Date(data.scheduledFor).getTime()
+              : undefined,
         };
 
+        // A live post that needs approval goes back to review when its text
+        // changes - worked out before saving, as the save updates savedPost
+        const sentForReview =
+          action === "publish" &&
+          savedPost?.status === "published" &&
+          !!reviewState?.required &&
+          (postData.title !== savedPost.title ||
+            postData.content !== savedPost.content);
+
         let resultId;
 
-        if (mode === "edit" && initialData?._id) {
-          // Always use update for edit mode
-          resultId = await updatePost({
-            id: initialData._id,
-            ...postData,
-          });
-        } else if (initialData?._id && action === "draft") {
-          // If we have existing draft data, update it
+        if (postIdRef.current) {
+          // Edits, resumed drafts and later saves of this session's draft
           resultId = await updatePost({
-            id: initialData._id,
+            id: postIdRef.current,
             ...postData,
+            expectedVersion: baseVersionRef.current,
           });
+          baseVersionRef.current += 1;
         } else {
-          // Create new post (will auto-update existing draft if needed)
+          // First save of a new post - remember it so autosaves don't fork it
           resultId = await createPost(postData);
+          postIdRef.current = resultId;
+          setPostId(resultId);
+          deleteLocalDraft(NEW_DRAFT_KEY).catch(() => {});
         }
 
+        // The server has everything now; a later edit starts a new local draft
+        pendingSaveRef.current = null;
+        deleteLocalDraft(resultId).catch(() => {});
+
         if (!silent) {
-          const message =
-            action === "publish" ? "Post published!" : "Draft saved!";
+          const message = sentForReview
+            ? "Changes sent for review - the post is unpublished until they're approved"
+            : action === "publish"
+              ? "Post published!"
+              : action === "schedule"
+                ? "Post scheduled!"
+                : "Draft saved!";
           toast.success(message);
-          if (action === "publish") router.push("/dashboard/posts");
+          if (action !== "draft") router.push("/dashboard/posts");
         }
 
         return resultId;
       } catch (error) {
+        // Someone saved a newer version first - let the writer choose what to keep
+        if (
+          error instanceof ConvexError &&
+          error.data === VERSION_CONFLICT &&
+          savedPost
+        ) {
+          setConflict({
+            mine: { title: data.title, content: data.content },
+            theirs: {
+              title: savedPost.title,
+              content: savedPost.content,
+              version: savedPost.version ?? 0,
+              updatedAt: savedPost.updatedAt,
+            },
+            action,
+          });
+          throw error;
+        }
+
         const errorMessage =
           error instanceof Error ? error.message : "Failed to save post";
         if (!silent) toast.error(errorMessage);
         throw error;
       }
     },
-    [mode, initialData, updatePost, createPost, router]
+    [
+      form,
+      updatePost,
+      createPost,
+      router,
+      savedPost,
+      reviewState,
+      isOnline,
+      persistDraft,
+    ]
   );
 
   const handleSave = useCallback(
@@ -178,6 +349,135 @@ export default function PostEditor({
     [handleSubmit, onSubmit]
   );
 
+  // Track the saved version. Saves from co-writers in the same live session
+  // are adopted too - their content is merged as they type - unless they
+  // changed the title, which isn't shared live
+  useEffect(() => {
+    if (!savedPost) return;
+
+    const version = savedPost.version ?? 0;
+    const adopt =
+      version === baseVersionRef.current ||
+      (collaborators.length > 0 &&
+        version > baseVersionRef.current &&
+        savedPost.title === getValues("title"));
+
+    if (adopt) {
+      baseVersionRef.current = version;
+      baseRef.current = { title: savedPost.title, content: savedPost.content };
+    }
+  }, [savedPost, collaborators.length, getValues]);
+
+  // Look for work left unsaved by an earlier visit, once the editor has loaded
+  useEffect(() => {
+    if (!quill || isDraftChecked) return;
+
+    let cancelled = false;
+    const key = postIdRef.current ?? NEW_DRAFT_KEY;
+
+    getLocalDraft<PostFormData>(key)
+      .then((draft) => {
+        if (cancelled) return;
+
+        if (draft && JSON.stringify(draft.values) !== JSON.stringify(getValues())) {
+          setRecoveredDraft(draft);
+        } else if (draft) {
+          deleteLocalDraft(key).catch(() => {});
+        }
+        setIsDraftChecked(true);
+      })
+      .catch(() => {
+        if (!cancelled) setIsDraftChecked(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [quill, isDraftChecked, getValues]);
+
+  // Mirror every change locally - but not over a draft still waiting to be restored
+  useEffect(() => {
+    if (!isDraftChecked || recoveredDraft) return;
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const subscription = watch(() => {
+      clearTimeout(timeout);
+      timeout = setTimeout(persistDraft, LOCAL_DRAFT_DEBOUNCE_MS);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      clearTimeout(timeout);
+    };
+  }, [watch, isDraftChecked, recoveredDraft, persistDraft]);
+
+  // Replay a save queued while offline
+  useEffect(() => {
+    if (!isOnline || !pendingSaveRef.current) return;
+
+    const action = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    handleSubmit((data) => onSubmit(data, action))();
+  }, [isOnline, handleSubmit, onSubmit]);
+
+  const handleRestoreDraft = (): void => {
+    if (!recoveredDraft) return;
+
+    const { values, base, baseVersion, pendingSave } = recoveredDraft;
+    (Object.keys(values) as (keyof PostFormData)[]).forEach((field) => {
+      if (JSON.stringify(values[field]) !== JSON.stringify(getValues(field))) {
+        setValue(field, values[field], { shouldDirty: true });
+      }
+    });
+
+    // Saves go through the usual conflict check against the version it was based on
+    baseVersionRef.current = baseVersion;
+    baseRef.current = base;
+    pendingSaveRef.current = pendingSave ?? null;
+    setRecoveredDraft(null);
+
+    if (pendingSave && isOnline) {
+      pendingSaveRef.current = null;
+      handleSubmit((data) => onSubmit(data, pendingSave))();
+    } else {
+      toast.success("Unsaved changes restored");
+    }
+  };
+
+  const handleDiscardDraft = (): void => {
+    if (!recoveredDraft) return;
+
+    deleteLocalDraft(recoveredDraft.key).catch(() => {});
+    setRecoveredDraft(null);
+  };
+
+  const resolveConflict = (resolution: "mine" | "theirs" | "merge"): void => {
+    if (!conflict) return;
+
+    const { mine, theirs, action } = conflict;
+    const base = baseRef.current;
+    baseVersionRef.current = theirs.version;
+    baseRef.current = { title: theirs.title, content: theirs.content };
+    setConflict(null);
+
+    if (resolution === "mine") {
+      handleSubmit((data) => onSubmit(data, action))();
+    } else if (resolution === "theirs") {
+      setValue("title", theirs.title);
+      setValue("content", theirs.content);
+      toast.success("Loaded the saved version");
+    } else {
+      const merged = mergeHtml(base.content, mine.content, theirs.content);
+      setValue("title", mine.title !== base.title ? mine.title : theirs.title);
+      setValue("content", merged.html);
+      toast.success(
+        merged.conflicts > 0
+          ? `Merged - ${merged.conflicts} overlapping ${merged.conflicts === 1 ? "edit was" : "edits were"} kept side by side. Review and save.`
+          : "Merged both versions. Review and save."
+      );
+    }
+  };
+
   // Auto-save for drafts
   useEffect(() => {
     if (!watchedValues.title && !watchedValues.content) return;
@@ -199,18 +499,100 @@ export default function PostEditor({
   const handleSchedule = () => {
     if (!watchedValues.scheduledFor) {
       toast.error("Please select a date and time to schedule");
+      setIsSettingsOpen(true);
+      return;
+    }
+    if (new Date(watchedValues.scheduledFor).getTime() <= Date.now()) {
+      toast.error("Scheduled time must be in the future");
+      setIsSettingsOpen(true);
       return;
     }
     handleSubmit((data) => onSubmit(data, "schedule"))();
   };
 
+  // Keep the pre-AI version in the revision history before it's replaced
+  const handleBeforeAIRewrite = useCallback(
+    async (note: string): Promise<void> => {
+      const { title, content } = getValues();
+      if (!content || content === "<p><br></p>") return;
+
+      try {
+        // A brand-new post has to exist before it can have history
+        if (!postIdRef.current) {
+          if (!title?.trim()) return;
+          await onSubmit(getValues(), "draft", true);
+        }
+
+        await createSnapshot({
+          postId: postIdRef.current,
+          title: title.trim() || "Untitled",
+          content,
+          note,
+        });
+      } catch {
+        // History is best-effort; never block the rewrite itself
+      }
+    },
+    [getValues, onSubmit, createSnapshot]
+  );
+
+  // Share the saved draft through an expiring /preview link
+  const handleCopyPreviewLink = async (): Promise<void> => {
+    try {
+      // Previews render what's saved, so save unpublished work first
+      if (initialData?.status !== "published") {
+        await onSubmit(getValues(), "draft", true);
+      }
+      if (!postIdRef.current) return;
+
+      const { token } = await getPreviewLink({ postId: postIdRef.current });
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/preview/${token}`
+      );
+      toast.success("Preview link copied - it expires in 7 days");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to create preview link";
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleRevokePreviewLinks = async (): Promise<void> => {
+    if (!postIdRef.current) return;
+
+    try {
+      const { revoked } = await revokePreviewLinks({
+        postId: postIdRef.current,
+      });
+      toast.success(
+        revoked > 0
+          ? "Preview links revoked"
+          : "There were no active preview links"
+      );
+    } catch {
+      // The mutation hook already reported the error
+    }
+  };
+
+  const handleRevisionRestored = (revision: {
+    title: string;
+    content: string;
+    version: number;
+  }): void => {
+    baseVersionRef.current = revision.version;
+    baseRef.current = { title: revision.title, content: revision.content };
+    setValue("title", revision.title);
+    setValue("content", revision.content);
+    setIsHistoryOpen(false);
+    toast.success("Revision restored");
+  };
+
    // Handle image selection
    const handleImageSelect = (imageData: ImageData) => {
     if (imageModalType === "featured") {
       setValue("featuredImage", imageData.url);
       toast.success("Featured image added!");
-    } else if (imageModalType === "content" && quillRef) {
-      const quill = quillRef.getEditor();
+    } else if (imageModalType === "content" && quill) {
       const range = quill.getSelection();
       const index = range ? range.index : quill.getLength();
 
@@ -227,14 +609,35 @@ export default function PostEditor({
         mode={mode}
         initialData={initialData}
         isPublishing={isCreateLoading || isUpdating}
+        isOffline={!isOnline}
         hasTitle={!!watchedValues.title?.trim()}
         onSave={handleSave}
         onPublish={handlePublish}
         onSchedule={handleSchedule}
         onSettingsOpen={() => setIsSettingsOpen(true)}
+        onHistoryOpen={postId ? () => setIsHistoryOpen(true) : undefined}
+        onCoauthorsOpen={postId ? () => setIsCoauthorsOpen(true) : undefined}
+        onReviewOpen={
+          postId && (reviewState?.required || reviewState?.decision)
+            ? () => setIsReviewOpen(true)
+            : undefined
+        }
+        reviewState={reviewState ?? null}
+        collaborators={collaborators}
+        onCopyPreviewLink={handleCopyPreviewLink}
+        onRevokePreviewLinks={postId ? handleRevokePreviewLinks : undefined}
         onBack={() => router.push("/dashboard")}
       />
 
+      {recoveredDraft && (
+        <RecoveredDraftBanner
+          savedAt={recoveredDraft.savedAt}
+          hasPendingSave={!!recoveredDraft.pendingSave}
+          onRestore={handleRestoreDraft}
+          onDiscard={handleDiscardDraft}
+        />
+      )}
+
       <PostEditorContent
         form={form}
         setQuillRef={setQuillRef}
@@ -242,13 +645,47 @@ export default function PostEditor({
           setImageModalType(type);
           setIsImageModalOpen(true);
         }}
+        onBeforeAIRewrite={handleBeforeAIRewrite}
       />
 
+      <RemoteCursors quill={quill} collaborators={collaborators} />
+
       <PostEditorSettings
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
         form={form}
-        mode={mode}
+        canSchedule={mode === "create" || initialData?.status === "draft"}
+      />
+
+      <PostHistoryPanel
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        postId={postId}
+        onRestored={handleRevisionRestored}
+      />
+
+      <PostCoauthorsDialog
+        isOpen={isCoauthorsOpen}
+        onClose={() => setIsCoauthorsOpen(false)}
+        postId={postId}
+      />
+
+      <PostReviewPanel
+        isOpen={isReviewOpen}
+        onClose={() => setIsReviewOpen(false)}
+        postId={postId}
+        reviewState={reviewState ?? null}
+        onBeforeSubmit={async () => {
+          await onSubmit(getValues(), "draft", true);
+        }}
+      />
+
+      <PostConflictDialog
+        conflict={conflict}
+        onKeepMine={() => resolveConflict("mine")}
+        onKeepTheirs={() => resolveConflict("theirs")}
+        onMerge={() => resolveConflict("merge")}
+        onClose={() => setConflict(null)}
       />
 
       <ImageUploadModal
@@ -0,0 +1,271 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/convex/_generated/api";
+import { useConvexQuery, useConvexMutation } from "@/hooks/use-convex-query";
+import { diffHtml, diffStats } from "@/lib/html-diff";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+// Type definitions
+type Revision = Doc<"postRevisions"> & {
+  editor: {
+    _id: Id<"users">;
+    name: string;
+    imageUrl?: string;
+  } | null;
+};
+
+type RestoredRevision = {
+  title: string;
+  content: string;
+  version: number;
+};
+
+interface PostHistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  postId?: Id<"posts">;
+  onRestored: (revision: RestoredRevision) => void;
+}
+
+const SOURCE_LABELS: Record<Revision["source"], string> = {
+  save: "Saved",
+  publish: "Published",
+  ai: "AI rewrite",
+  restore: "Restored",
+};
+
+const SOURCE_STYLES: Record<Revision["source"], string> = {
+  save: "bg-zinc-800/50 text-[#A1A1AA] border-zinc-700",
+  publish: "bg-green-500/20 text-green-300 border-green-500/30",
+  ai: "bg-purple-500/20 text-purple-300 border-purple-500/30",
+  restore: "bg-blue-500/20 text-blue-300 border-blue-500/30",
+};
+
+const formatRevisionTime = (revision: Revision): string =>
+  new Date(revision.updatedAt).toLocaleString([], {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+export default function PostHistoryPanel({
+  isOpen,
+  onClose,
+  postId,
+  onRestored,
+}: PostHistoryPanelProps) {
+  const [fromId, setFromId] = useState<Id<"postRevisions"> | null>(null);
+  const [toId, setToId] = useState<Id<"postRevisions"> | null>(null);
+
+  const { data: revisions, isLoading } = useConvexQuery<Revision[]>(
+    api.revisions.getPostRevisions,
+    isOpen && postId ? { postId } : "skip"
+  );
+  const { mutate: restoreRevision, isLoading: isRestoring } =
+    useConvexMutation<RestoredRevision>(api.revisions.restore);
+
+  // Default comparison: the previous revision against the latest one
+  const toRevision: Revision | undefined =
+    revisions?.find((r) => r._id === toId) ?? revisions?.[0];
+  const fromRevision: Revision | undefined =
+    revisions?.find((r) => r._id === fromId) ?? revisions?.[1];
+
+  const diff = useMemo(() => {
+    if (!fromRevision || !toRevision) return null;
+    return {
+      html: diffHtml(fromRevision.content, toRevision.content),
+      stats: diffStats(fromRevision.content, toRevision.content),
+      titleChanged: fromRevision.title !== toRevision.title,
+    };
+  }, [fromRevision, toRevision]);
+
+  const handleRestore = async (revision: Revision): Promise<void> => {
+    if (
+      !window.confirm(
+        "Restore this revision? Your current title and content will be replaced."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const restored = await restoreRevision({ revisionId: revision._id });
+      onRestored(restored);
+      setFromId(null);
+      setToId(null);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to restore revision";
+      toast.error(errorMessage);
+    }
+  };
+
+  const renderRevisionSelect = (
+    value: Revision | undefined,
+    onChange: (id: Id<"postRevisions">) => void,
+    placeholder: string
+  ) => (
+    <Select
+      value={value?._id}
+      onValueChange={(id) => onChange(id as Id<"postRevisions">)}
+    >
+      <SelectTrigger className="w-full bg-[#111318] border-[#1F2228]">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {revisions?.map((revision: Revision) => (
+          <SelectItem key={revision._id} value={revision._id}>
+            {SOURCE_LABELS[revision.source]} • {formatRevisionTime(revision)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-2xl bg-[#0B0D10] border-[#1F2228] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white flex items-center">
+            <History className="h-5 w-5 mr-2" />
+            Revision History
+          </SheetTitle>
+          <SheetDescription>
+            Compare any two versions of this post and restore an earlier one
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-6 space-y-6">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-[#9CA3AF]" />
+            </div>
+          ) : !revisions || revisions.length === 0 ? (
+            <p className="text-sm text-[#6B7280] text-center py-8">
+              No revisions yet. Save your post to start its history.
+            </p>
+          ) : (
+            <>
+              {/* Compare */}
+              {revisions.length > 1 && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <p className="text-xs text-[#6B7280]">From</p>
+                      {renderRevisionSelect(fromRevision, setFromId, "Older")}
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-xs text-[#6B7280]">To</p>
+                      {renderRevisionSelect(toRevision, setToId, "Newer")}
+                    </div>
+                  </div>
+
+                  {diff && (
+                    <div className="space-y-2">
+                      <p className="text-xs text-[#9CA3AF]">
+                        <span className="text-green-400">
+                          +{diff.stats.insertedWords}
+                        </span>{" "}
+                        <span className="text-red-400">
+                          -{diff.stats.deletedWords}
+                        </span>{" "}
+                        words
+                        {diff.titleChanged &&
+                          ` • Title: "${fromRevision!.title}" → "${toRevision!.title}"`}
+                      </p>
+                      <div
+                        className="revision-diff prose prose-invert max-w-none rounded-xl border border-[#1F2228] bg-[#111318] p-4 text-sm max-h-[50vh] overflow-y-auto"
+                        dangerouslySetInnerHTML={{ __html: diff.html }}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Timeline */}
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-white">All revisions</p>
+                {revisions.map((revision: Revision, index: number) => (
+                  <div
+                    key={revision._id}
+                    className="flex items-center justify-between gap-3 rounded-lg border border-[#1F2228] bg-[#111318] px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant="secondary"
+                          className={`text-xs ${SOURCE_STYLES[revision.source]}`}
+                        >
+                          {SOURCE_LABELS[revision.source]}
+                        </Badge>
+                        <span className="text-xs text-[#9CA3AF]">
+                          {formatDistanceToNow(new Date(revision.updatedAt), {
+                            addSuffix: true,
+                          })}
+                        </span>
+                      </div>
+                      <p className="text-sm text-[#EDEEF0] truncate mt-1">
+                        {revision.title}
+                      </p>
+                      {(revision.note || revision.editor) && (
+                        <p className="text-xs text-[#6B7280] truncate">
+                          {[revision.note, revision.editor?.name]
+                            .filter(Boolean)
+                            .join(" • ")}
+                        </p>
+                      )}
+                    </div>
+
+                    {index > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isRestoring}
+                        onClick={() => handleRestore(revision)}
+                        className="text-[#9CA3AF] hover:text-white flex-shrink-0"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <style jsx global>{`
+          .revision-diff ins.diff-ins {
+            background: rgba(34, 197, 94, 0.2);
+            color: #bbf7d0;
+            text-decoration: none;
+          }
+          .revision-diff del.diff-del {
+            background: rgba(239, 68, 68, 0.2);
+            color: #fecaca;
+          }
+        `}</style>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import React from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ClipboardCheck, Loader2, Send, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { api } from "@/convex/_generated/api";
+import { useConvexMutation, useConvexQuery } from "@/hooks/use-convex-query";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import ReviewNotes from "./review-notes";
+
+// Type definitions
+export type PostReviewState = {
+  required: boolean;
+  status?: "draft" | "in_review" | "published";
+  decision?: "approved" | "changes_requested";
+  reviewer: { _id: Id<"users">; name: string } | null;
+  reviewedAt?: number;
+  openNotes: number;
+} | null;
+
+interface PostReviewPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  postId?: Id<"posts">;
+  reviewState: PostReviewState;
+  onBeforeSubmit: () => Promise<void>; // Save pending edits so reviewers see them
+}
+
+// Review status, submit/withdraw and the notes left by reviewers, inside the editor
+export default function PostReviewPanel({
+  isOpen,
+  onClose,
+  postId,
+  reviewState,
+  onBeforeSubmit,
+}: PostReviewPanelProps) {
+  const { data: currentUser } = useConvexQuery<Doc<"users"> | null>(
+    api.users.getCurrentUser
+  );
+  const { mutate: submitForReview, isLoading: isSubmitting } =
+    useConvexMutation(api.reviews.submitForReview);
+  const { mutate: withdrawReview, isLoading: isWithdrawing } =
+    useConvexMutation(api.reviews.withdrawReview);
+
+  const isInReview = reviewState?.status === "in_review";
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!postId) return;
+
+    try {
+      await onBeforeSubmit();
+      await submitForReview({ postId });
+      toast.success("Submitted for review");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  const handleWithdraw = async (): Promise<void> => {
+    if (!postId) return;
+
+    try {
+      await withdrawReview({ postId });
+      toast.success("Withdrawn from review");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg bg-[#0B0D10] border-[#1F2228] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white flex items-center">
+            <ClipboardCheck className="h-5 w-5 mr-2" />
+            Review
+          </SheetTitle>
+          <SheetDescription>
+            {reviewState?.required
+              ? "Your reviewers need to approve this post before it can be published"
+              : "Add reviewers in Settings to require approval before publishing"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-6 space-y-6">
+          {/* Status */}
+          <div className="flex items-center justify-between gap-3">
+            <div className="space-y-1">
+              {isInReview ? (
+                <Badge
+                  variant="secondary"
+                  className="bg-yellow-500/20 text-yellow-300 border-yellow-500/30"
+                >
+                  In Review
+                </Badge>
+              ) : reviewState?.decision === "approved" ? (
+                <Badge
+                  variant="outline"
+                  className="bg-green-500/20 text-green-300 border-green-500/30"
+                >
+                  Approved
+                </Badge>
+              ) : reviewState?.decision === "changes_requested" ? (
+                <Badge
+                  variant="outline"
+                  className="bg-red-500/20 text-red-300 border-red-500/30"
+                >
+                  Changes Requested
+                </Badge>
+              ) : (
+                <Badge variant="outline">Not reviewed</Badge>
+              )}
+              {!isInReview && reviewState?.reviewer && reviewState.reviewedAt && (
+                <p className="text-xs text-slate-400">
+                  by {reviewState.reviewer.name}{" "}
+                  {formatDistanceToNow(new Date(reviewState.reviewedAt), {
+                    addSuffix: true,
+                  })}
+                </p>
+              )}
+            </div>
+
+            {isInReview ? (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleWithdraw}
+                disabled={isWithdrawing}
+              >
+                {isWithdrawing ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Undo2 className="h-4 w-4 mr-2" />
+                )}
+                Withdraw
+              </Button>
+            ) : (
+              reviewState?.required &&
+              reviewState.status === "draft" && (
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={handleSubmit}
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="h-4 w-4 mr-2" />
+                  )}
+                  Submit for review
+                </Button>
+              )
+            )}
+          </div>
+
+          {/* Notes */}
+          {postId && (
+            <ReviewNotes postId={postId} currentUserId={currentUser?._id} />
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import React, { useState } from "react";
+import Image from "next/image";
+import { UserPlus, Users, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/convex/_generated/api";
+import { useConvexMutation } from "@/hooks/use-convex-query";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+// Type definitions
+export type PublicationRole = "admin" | "editor" | "writer";
+
+export type PublicationMember = Doc<"publicationMembers"> & {
+  user: {
+    _id: Id<"users">;
+    name: string;
+    username?: string;
+    imageUrl?: string;
+  } | null;
+};
+
+interface PublicationMembersProps {
+  publicationId: Id<"publications">;
+  members: PublicationMember[];
+  isAdmin: boolean;
+}
+
+export const ROLE_LABELS: Record<PublicationRole, string> = {
+  admin: "Admin",
+  editor: "Editor",
+  writer: "Writer",
+};
+
+const ROLE_DESCRIPTIONS: Record<PublicationRole, string> = {
+  admin: "Manages members and settings, and can edit every post",
+  editor: "Can edit and remove every post in the publication",
+  writer: "Can publish their own posts in the publication",
+};
+
+const RoleSelect = ({
+  value,
+  onChange,
+  className,
+}: {
+  value: PublicationRole;
+  onChange: (role: PublicationRole) => void;
+  className: string;
+}) => (
+  <Select value={value} onValueChange={(next) => onChange(next as PublicationRole)}>
+    <SelectTrigger className={className}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value="admin">Admin</SelectItem>
+      <SelectItem value="editor">Editor</SelectItem>
+      <SelectItem value="writer">Writer</SelectItem>
+    </SelectContent>
+  </Select>
+);
+
+// Members of a publication; admins can add, re-role and remove them
+export default function PublicationMembers({
+  publicationId,
+  members,
+  isAdmin,
+}: PublicationMembersProps) {
+  const [username, setUsername] = useState<string>("");
+  const [role, setRole] = useState<PublicationRole>("writer");
+
+  const { mutate: addMember, isLoading: isAdding } = useConvexMutation(
+    api.publications.addMember
+  );
+  const { mutate: updateMemberRole } = useConvexMutation(
+    api.publications.updateMemberRole
+  );
+  const { mutate: removeMember } = useConvexMutation(
+    api.publications.removeMember
+  );
+
+  const handleAdd = async (): Promise<void> => {
+    if (!username.trim()) return;
+
+    try {
+      await addMember({ publicationId, username: username.trim(), role });
+      toast.success(`@${username.trim().replace(/^@/, "")} added`);
+      setUsername("");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  const handleRoleChange = async (
+    member: PublicationMember,
+    nextRole: PublicationRole
+  ): Promise<void> => {
+    try {
+      await updateMemberRole({ memberId: member._id, role: nextRole });
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  const handleRemove = async (member: PublicationMember): Promise<void> => {
+    try {
+      await removeMember({ memberId: member._id });
+      toast.success("Member removed");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  return (
+    <Card className="card-glass">
+      <CardHeader>
+        <CardTitle className="text-[#EDEEF0] flex items-center">
+          <Users className="h-5 w-5 mr-2" />
+          Members
+        </CardTitle>
+        <CardDescription>
+          {members.length} {members.length === 1 ? "member" : "members"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          {members.map((member) => (
+            <div key={member._id} className="flex items-center gap-3">
+              <div className="relative w-8 h-8 flex-shrink-0">
+                {member.user?.imageUrl ? (
+                  <Image
+                    src={member.user.imageUrl}
+                    alt={member.user.name}
+                    fill
+                    className="rounded-full object-cover"
+                    sizes="32px"
+                  />
+                ) : (
+                  <div className="w-full h-full rounded-full bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-sm font-bold">
+                    {member.user?.name.charAt(0).toUpperCase() ?? "?"}
+                  </div>
+                )}
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-white truncate">
+                  {member.user?.name ?? "Unknown"}
+                </p>
+                <p className="text-xs text-slate-400">
+                  @{member.user?.username ?? ""}
+                </p>
+              </div>
+
+              {isAdmin ? (
+                <>
+                  <RoleSelect
+                    value={member.role}
+                    onChange={(nextRole) => handleRoleChange(member, nextRole)}
+                    className="w-28 h-8 bg-slate-800 border-slate-600"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(member)}
+                    className="text-slate-400 hover:text-red-400"
+                    title="Remove"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Add */}
+        {isAdmin && (
+          <div className="space-y-2 pt-4 border-t border-slate-800">
+            <label className="text-white text-sm font-medium">
+              Add a member
+            </label>
+            <div className="flex space-x-2">
+              <Input
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAdd();
+                  }
+                }}
+                placeholder="@username"
+                className="bg-slate-800 border-slate-600"
+              />
+              <RoleSelect
+                value={role}
+                onChange={setRole}
+                className="w-28 bg-slate-800 border-slate-600"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleAdd}
+                disabled={!username.trim() || isAdding}
+              >
+                <UserPlus className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-slate-400">{ROLE_DESCRIPTIONS[role]}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
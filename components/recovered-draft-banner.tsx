@@ -0,0 +1,45 @@
+"use client";
+
+import React from "react";
+import { History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface RecoveredDraftBannerProps {
+  savedAt: number;
+  hasPendingSave: boolean;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+// Offers back the changes an earlier visit kept locally but never saved
+export default function RecoveredDraftBanner({
+  savedAt,
+  hasPendingSave,
+  onRestore,
+  onDiscard,
+}: RecoveredDraftBannerProps) {
+  return (
+    <div className="max-w-4xl mx-auto px-6 pt-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-xl border border-yellow-500/30 bg-yellow-500/10 px-4 py-3">
+        <History className="h-5 w-5 text-yellow-300 flex-shrink-0" />
+        <div className="flex-1 text-sm">
+          <p className="font-medium text-yellow-200">
+            Recovered unsaved changes
+          </p>
+          <p className="text-yellow-200/70">
+            From {new Date(savedAt).toLocaleString()}
+            {hasPendingSave && " - including a save that never reached the server"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={onDiscard}>
+            Discard
+          </Button>
+          <Button variant="primary" size="sm" onClick={onRestore}>
+            Restore
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
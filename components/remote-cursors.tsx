@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import type { Quill } from "react-quill-new";
+import { type Collaborator } from "@/hooks/use-collaborative-quill";
+
+interface RemoteCursorsProps {
+  quill: Quill | null;
+  collaborators: Collaborator[];
+}
+
+// Co-writers' carets and name flags, drawn over the Quill editing area
+export default function RemoteCursors({
+  quill,
+  collaborators,
+}: RemoteCursorsProps) {
+  // Bumped whenever the layout under the cursors may have moved
+  const [, setLayoutVersion] = useState<number>(0);
+
+  useEffect(() => {
+    if (!quill) return;
+
+    const handleLayoutChange = (): void => {
+      setLayoutVersion((version) => version + 1);
+    };
+
+    quill.on("text-change", handleLayoutChange);
+    window.addEventListener("resize", handleLayoutChange);
+    return () => {
+      quill.off("text-change", handleLayoutChange);
+      window.removeEventListener("resize", handleLayoutChange);
+    };
+  }, [quill]);
+
+  if (!quill) return null;
+
+  const lastIndex = Math.max(quill.getLength() - 1, 0);
+
+  return createPortal(
+    <div className="pointer-events-none absolute inset-0 z-10">
+      {collaborators.map((collaborator) => {
+        if (collaborator.cursorIndex === undefined) return null;
+
+        const index = Math.min(collaborator.cursorIndex, lastIndex);
+        const length = Math.min(collaborator.cursorLength ?? 0, lastIndex - index);
+        const caret = quill.getBounds(index + length, 0);
+        if (!caret) return null;
+
+        const selection = length > 0 ? quill.getBounds(index, length) : null;
+
+        return (
+          <React.Fragment key={collaborator.clientId}>
+            {selection && (
+              <div
+                className="absolute opacity-20"
+                style={{
+                  top: selection.top,
+                  left: selection.left,
+                  width: selection.width,
+                  height: selection.height,
+                  backgroundColor: collaborator.color,
+                }}
+              />
+            )}
+            <div
+              className="absolute w-0.5"
+              style={{
+                top: caret.top,
+                left: caret.left,
+                height: caret.height,
+                backgroundColor: collaborator.color,
+              }}
+            >
+              <span
+                className="absolute bottom-full left-0 whitespace-nowrap rounded px-1.5 py-0.5 text-[10px] font-medium leading-none text-black"
+                style={{ backgroundColor: collaborator.color }}
+              >
+                {collaborator.name}
+              </span>
+            </div>
+          </React.Fragment>
+        );
+      })}
+    </div>,
+    quill.container
+  );
+}
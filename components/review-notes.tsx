@@ -0,0 +1,192 @@
+"use client";
+
+import React, { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Check, Loader2, MessageSquare, RotateCcw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { api } from "@/convex/_generated/api";
+import { useConvexMutation, useConvexQuery } from "@/hooks/use-convex-query";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+// Type definitions
+type ReviewNote = Doc<"reviewNotes"> & {
+  author: {
+    _id: Id<"users">;
+    name: string;
+    username?: string;
+  } | null;
+};
+
+interface ReviewNotesProps {
+  postId: Id<"posts">;
+  currentUserId?: Id<"users">;
+  quote?: string; // Passage selected in the post, attached to the next note
+  onClearQuote?: () => void;
+}
+
+// Review notes on a post with a composer - shared by the review screen and the editor
+export default function ReviewNotes({
+  postId,
+  currentUserId,
+  quote,
+  onClearQuote,
+}: ReviewNotesProps) {
+  const [body, setBody] = useState<string>("");
+
+  const { data: notes, isLoading } = useConvexQuery<ReviewNote[]>(
+    api.reviews.getNotes,
+    { postId }
+  );
+  const { mutate: addNote, isLoading: isAdding } = useConvexMutation(
+    api.reviews.addNote
+  );
+  const { mutate: resolveNote } = useConvexMutation(api.reviews.resolveNote);
+  const { mutate: deleteNote } = useConvexMutation(api.reviews.deleteNote);
+
+  const handleAdd = async (): Promise<void> => {
+    if (!body.trim()) return;
+
+    try {
+      await addNote({ postId, quote, body: body.trim() });
+      setBody("");
+      onClearQuote?.();
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  const handleResolve = async (
+    note: ReviewNote,
+    resolved: boolean
+  ): Promise<void> => {
+    try {
+      await resolveNote({ id: note._id, resolved });
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  const handleDelete = async (note: ReviewNote): Promise<void> => {
+    try {
+      await deleteNote({ id: note._id });
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Composer */}
+      <div className="space-y-2">
+        {quote && (
+          <div className="flex items-start gap-2 rounded-lg border-l-2 border-yellow-500/60 bg-yellow-500/10 px-3 py-2">
+            <p className="flex-1 text-xs italic text-yellow-100/80 line-clamp-3">
+              &ldquo;{quote}&rdquo;
+            </p>
+            {onClearQuote && (
+              <button
+                type="button"
+                onClick={onClearQuote}
+                className="text-slate-400 hover:text-white"
+                aria-label="Remove quote"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        )}
+        <Textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder={
+            quote ? "What should change here?" : "Leave a note for the author..."
+          }
+          className="bg-slate-800 border-slate-600 min-h-20"
+        />
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleAdd}
+            disabled={!body.trim() || isAdding}
+          >
+            {isAdding ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <MessageSquare className="h-4 w-4 mr-2" />
+            )}
+            Add note
+          </Button>
+        </div>
+      </div>
+
+      {/* Notes */}
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+        </div>
+      ) : !notes || notes.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-6">No notes yet</p>
+      ) : (
+        <ul className="space-y-3">
+          {notes.map((note) => {
+            const isResolved = note.resolvedAt !== undefined;
+
+            return (
+              <li
+                key={note._id}
+                className={`rounded-lg border border-[#1F2228] bg-[#111318] p-3 space-y-2 ${
+                  isResolved ? "opacity-60" : ""
+                }`}
+              >
+                {note.quote && (
+                  <p className="text-xs italic text-[#9CA3AF] border-l-2 border-slate-600 pl-2 line-clamp-3">
+                    &ldquo;{note.quote}&rdquo;
+                  </p>
+                )}
+                <p className="text-sm text-[#EDEEF0] whitespace-pre-wrap">
+                  {note.body}
+                </p>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-[#6B7280]">
+                    {note.author?.name ?? "Unknown"} •{" "}
+                    {formatDistanceToNow(new Date(note.createdAt), {
+                      addSuffix: true,
+                    })}
+                    {isResolved && " • Resolved"}
+                  </p>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleResolve(note, !isResolved)}
+                      title={isResolved ? "Reopen" : "Resolve"}
+                    >
+                      {isResolved ? (
+                        <RotateCcw className="h-3 w-3" />
+                      ) : (
+                        <Check className="h-3 w-3" />
+                      )}
+                    </Button>
+                    {note.authorId === currentUserId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(note)}
+                        className="text-slate-400 hover:text-red-400"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useState } from "react";
+import { ClipboardCheck, UserPlus, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { api } from "@/convex/_generated/api";
+import { useConvexMutation, useConvexQuery } from "@/hooks/use-convex-query";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+type Reviewer = Doc<"reviewers"> & {
+  reviewer: {
+    _id: Id<"users">;
+    name: string;
+    username?: string;
+  } | null;
+};
+
+// Settings card for choosing who has to approve the user's posts before they go live
+export default function ReviewersSettings() {
+  const [username, setUsername] = useState<string>("");
+
+  const { data: reviewers } = useConvexQuery<Reviewer[]>(
+    api.reviews.getMyReviewers
+  );
+  const { mutate: addReviewer, isLoading: isAdding } = useConvexMutation(
+    api.reviews.addReviewer
+  );
+  const { mutate: removeReviewer } = useConvexMutation(
+    api.reviews.removeReviewer
+  );
+
+  const handleAdd = async (): Promise<void> => {
+    if (!username.trim()) return;
+
+    try {
+      await addReviewer({ username: username.trim() });
+      toast.success(`@${username.trim().replace(/^@/, "")} can now review your posts`);
+      setUsername("");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  const handleRemove = async (reviewer: Reviewer): Promise<void> => {
+    try {
+      await removeReviewer({ id: reviewer._id });
+      toast.success("Reviewer removed");
+    } catch {
+      // The mutation hook already showed the error
+    }
+  };
+
+  return (
+    <Card className="card-glass max-w-2xl">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <ClipboardCheck className="h-5 w-5 mr-2" />
+          Reviewers
+        </CardTitle>
+        <CardDescription>
+          When you have reviewers, posts must be submitted for review and
+          approved before they can be published
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reviewers && reviewers.length > 0 && (
+          <ul className="space-y-2">
+            {reviewers.map((reviewer) => (
+              <li
+                key={reviewer._id}
+                className="flex items-center justify-between gap-3 rounded-lg border border-[#1F2228] bg-[#111318] px-4 py-2"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">
+                    {reviewer.reviewer?.name ?? "Unknown"}
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    @{reviewer.reviewer?.username ?? ""}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(reviewer)}
+                  className="text-slate-400 hover:text-red-400"
+                  title="Remove"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex space-x-2">
+          <Input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="@username"
+            className="bg-slate-800 border-slate-600"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleAdd}
+            disabled={!username.trim() || isAdding}
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
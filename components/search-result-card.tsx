@@ -0,0 +1,152 @@
+import React from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Calendar, Clock } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { highlightTerms } from "@/lib/search";
+import { categoryUrl, tagUrl } from "@/lib/tags";
+import { formatNames } from "@/components/post-card";
+import type { Id } from "@/convex/_generated/dataModel";
+
+// Type definitions
+type Author = {
+  _id: Id<"users">;
+  name: string;
+  username?: string;
+  imageUrl?: string;
+};
+
+export type SearchResult = {
+  _id: Id<"posts">;
+  title: string;
+  slug?: string;
+  tags: string[];
+  category?: string;
+  featuredImage?: string;
+  publishedAt?: number;
+  readingTime?: number;
+  author: Author;
+  coAuthors: Author[];
+  snippet: string;
+};
+
+interface SearchResultCardProps {
+  result: SearchResult;
+  query: string;
+}
+
+const Highlighted = ({ text, query }: { text: string; query: string }) => (
+  <>
+    {highlightTerms(text, query).map((part, index) =>
+      part.match ? (
+        <mark key={index} className="bg-purple-500/30 text-[#EDEEF0] rounded-sm">
+          {part.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+// One post in the search results, with the matching words highlighted
+export default function SearchResultCard({ result, query }: SearchResultCardProps) {
+  const postUrl = `/${result.author.username}/${result.slug || result._id}`;
+
+  return (
+    <Card className="card-glass hover:border-[#2A2D35] transition-colors">
+      <CardContent className="p-6 flex gap-6">
+        <div className="flex-1 min-w-0 space-y-3">
+          <Link
+            href={`/${result.author.username}`}
+            className="flex items-center gap-2 text-sm text-[#9CA3AF] hover:text-[#EDEEF0]"
+          >
+            <div className="relative w-6 h-6">
+              {result.author.imageUrl ? (
+                <Image
+                  src={result.author.imageUrl}
+                  alt={result.author.name}
+                  fill
+                  className="rounded-full object-cover"
+                  sizes="24px"
+                />
+              ) : (
+                <div className="w-full h-full rounded-full bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-xs font-bold">
+                  {result.author.name.charAt(0).toUpperCase()}
+                </div>
+              )}
+            </div>
+            {result.author.name}
+            {result.coAuthors.length > 0 && (
+              <span className="text-[#6B7280]">
+                with {formatNames(result.coAuthors)}
+              </span>
+            )}
+          </Link>
+
+          <Link href={postUrl} className="block group">
+            <h2 className="text-xl font-semibold text-white group-hover:text-purple-300 transition-colors">
+              <Highlighted text={result.title} query={query} />
+            </h2>
+            <p className="mt-2 text-sm text-[#9CA3AF] line-clamp-3">
+              <Highlighted text={result.snippet} query={query} />
+            </p>
+          </Link>
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-[#6B7280]">
+            {result.publishedAt && (
+              <span className="flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                {new Date(result.publishedAt).toLocaleDateString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                  year: "numeric",
+                })}
+              </span>
+            )}
+            {result.readingTime && (
+              <span className="flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                {result.readingTime} min read
+              </span>
+            )}
+            {result.category && (
+              <Link
+                href={categoryUrl(result.category)}
+                className="hover:text-[#EDEEF0]"
+              >
+                {result.category}
+              </Link>
+            )}
+            {result.tags.slice(0, 3).map((tag) => (
+              <Link key={tag} href={tagUrl(tag)}>
+                <Badge
+                  variant="secondary"
+                  className="bg-zinc-800/50 text-[#A1A1AA] border-zinc-700 text-xs hover:text-[#EDEEF0]"
+                >
+                  {tag}
+                </Badge>
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        {result.featuredImage && (
+          <Link
+            href={postUrl}
+            className="relative hidden sm:block w-32 h-24 flex-shrink-0 rounded-lg overflow-hidden"
+          >
+            <Image
+              src={result.featuredImage}
+              alt={result.title}
+              fill
+              className="object-cover"
+              sizes="128px"
+            />
+          </Link>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
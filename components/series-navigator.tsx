@@ -0,0 +1,116 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { ChevronLeft, ChevronRight, Layers } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { api } from "@/convex/_generated/api";
+import { useConvexQuery } from "@/hooks/use-convex-query";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+
+// Type definitions
+type SeriesPart = {
+  _id: Id<"posts">;
+  title: string;
+  slug?: string;
+  publishedAt?: number;
+};
+
+type SeriesNavigation = {
+  series: Doc<"series">;
+  parts: SeriesPart[];
+  currentIndex: number;
+} | null;
+
+interface SeriesNavigatorProps {
+  postId: Id<"posts">;
+  username: string;
+}
+
+// Previous/next links and the table of parts for a post that belongs to a series
+export default function SeriesNavigator({
+  postId,
+  username,
+}: SeriesNavigatorProps) {
+  const { data: navigation } = useConvexQuery<SeriesNavigation>(
+    api.series.getSeriesNavigation,
+    { postId }
+  );
+
+  if (!navigation || navigation.parts.length === 0) return null;
+
+  const { series, parts, currentIndex } = navigation;
+  const previous = currentIndex > 0 ? parts[currentIndex - 1] : undefined;
+  const next =
+    currentIndex >= 0 && currentIndex < parts.length - 1
+      ? parts[currentIndex + 1]
+      : undefined;
+
+  const partUrl = (part: SeriesPart): string =>
+    `/${username}/${part.slug || part._id}`;
+
+  return (
+    <Card className="card-glass mt-12">
+      <CardContent className="p-6 space-y-4">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-[#6B7280] flex items-center">
+            <Layers className="h-3 w-3 mr-1" />
+            Part {currentIndex + 1} of {parts.length}
+          </p>
+          <Link
+            href={`/${username}/series/${series.slug}`}
+            className="text-lg font-semibold text-[#EDEEF0] hover:underline"
+          >
+            {series.title}
+          </Link>
+        </div>
+
+        {/* Table of parts */}
+        <ol className="space-y-1">
+          {parts.map((part, index) => (
+            <li key={part._id} className="flex items-baseline gap-3 text-sm">
+              <span className="text-[#4B5563] w-5 text-right flex-shrink-0">
+                {index + 1}.
+              </span>
+              {index === currentIndex ? (
+                <span className="text-[#EDEEF0] font-medium">{part.title}</span>
+              ) : (
+                <Link
+                  href={partUrl(part)}
+                  className="text-[#A1A1AA] hover:text-[#EDEEF0]"
+                >
+                  {part.title}
+                </Link>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        {/* Previous / next */}
+        {(previous || next) && (
+          <div className="flex items-center justify-between gap-4 pt-4 border-t border-slate-800">
+            {previous ? (
+              <Link href={partUrl(previous)} className="min-w-0">
+                <Button variant="ghost" className="max-w-full">
+                  <ChevronLeft className="h-4 w-4 mr-1 flex-shrink-0" />
+                  <span className="truncate">{previous.title}</span>
+                </Button>
+              </Link>
+            ) : (
+              <span />
+            )}
+            {next && (
+              <Link href={partUrl(next)} className="min-w-0">
+                <Button variant="ghost" className="max-w-full">
+                  <span className="truncate">{next.title}</span>
+                  <ChevronRight className="h-4 w-4 ml-1 flex-shrink-0" />
+                </Button>
+              </Link>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { List } from "lucide-react";
+import type { PostHeading } from "@/lib/heading-anchors";
+
+interface TableOfContentsProps {
+  headings: PostHeading[];
+}
+
+const LEVEL_INDENT: Record<PostHeading["level"], string> = {
+  1: "pl-0",
+  2: "pl-3",
+  3: "pl-6",
+};
+
+// Sticky outline of a post's headings that follows the reader down the page
+export default function TableOfContents({ headings }: TableOfContentsProps) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  // Stable across re-renders that produce the same outline
+  const headingIds = headings.map((heading) => heading.id).join(" ");
+
+  // Highlight the last heading that has scrolled past the top of the page
+  useEffect(() => {
+    if (!headingIds) return;
+
+    const elements = headingIds
+      .split(" ")
+      .map((id) => document.getElementById(id))
+      .filter((element): element is HTMLElement => element !== null);
+    if (elements.length === 0) return;
+
+    const observer = new IntersectionObserver(
+      () => {
+        const passed = elements.filter(
+          (element) => element.getBoundingClientRect().top <= 120
+        );
+        setActiveId(
+          passed.length > 0 ? passed[passed.length - 1].id : elements[0].id
+        );
+      },
+      { rootMargin: "-120px 0px -60% 0px", threshold: [0, 1] }
+    );
+
+    elements.forEach((element) => observer.observe(element));
+    return () => observer.disconnect();
+  }, [headingIds]);
+
+  if (headings.length === 0) return null;
+
+  return (
+    <nav className="sticky top-24 max-h-[calc(100vh-8rem)] overflow-y-auto">
+      <p className="text-xs uppercase tracking-wide text-[#6B7280] flex items-center mb-3">
+        <List className="h-3 w-3 mr-1" />
+        On this page
+      </p>
+      <ul className="space-y-2 border-l border-[#1F2228]">
+        {headings.map((heading) => (
+          <li key={heading.id} className={LEVEL_INDENT[heading.level]}>
+            <a
+              href={`#${heading.id}`}
+              className={`-ml-px block border-l pl-3 text-sm transition-colors ${
+                heading.id === activeId
+                  ? "border-purple-400 text-[#EDEEF0]"
+                  : "border-transparent text-[#6B7280] hover:text-[#D1D5DB]"
+              }`}
+            >
+              {heading.text}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
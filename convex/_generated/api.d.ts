@@ -8,13 +8,24 @@
  * @module
  */
 
+import type * as collab from "../collab.js";
+import type * as collaborators from "../collaborators.js";
 import type * as comments from "../comments.js";
+import type * as crons from "../crons.js";
 import type * as dashboard from "../dashboard.js";
 import type * as feed from "../feed.js";
 import type * as follows from "../follows.js";
 import type * as likes from "../likes.js";
 import type * as posts from "../posts.js";
+import type * as previews from "../previews.js";
 import type * as public_ from "../public.js";
+import type * as publications from "../publications.js";
+import type * as revisions from "../revisions.js";
+import type * as reviews from "../reviews.js";
+import type * as search from "../search.js";
+import type * as series from "../series.js";
+import type * as tags from "../tags.js";
+import type * as trending from "../trending.js";
 import type * as users from "../users.js";
 
 import type {
@@ -32,13 +43,24 @@ import type {
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  collab: typeof collab;
+  collaborators: typeof collaborators;
   comments: typeof comments;
+  crons: typeof crons;
   dashboard: typeof dashboard;
   feed: typeof feed;
   follows: typeof follows;
   likes: typeof likes;
   posts: typeof posts;
+  previews: typeof previews;
   public: typeof public_;
+  publications: typeof publications;
+  revisions: typeof revisions;
+  reviews: typeof reviews;
+  search: typeof search;
+  series: typeof series;
+  tags: typeof tags;
+  trending: typeof trending;
   users: typeof users;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
@@ -0,0 +1,440 @@
+import { v } from "convex/values";
+import Delta from "quill-delta";
+import {
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import type { Id, Doc } from "./_generated/dataModel";
+import { getPostRole } from "./collaborators";
+
+// Type definitions
+type OpenDocumentResponse = {
+  documentId: Id<"collabDocuments">;
+  version: number;
+  contents: string;
+};
+
+type CollabEdit = {
+  version: number;
+  clientId: string;
+  delta: string;
+};
+
+type EditorPresence = {
+  clientId: string;
+  userId: Id<"users">;
+  name: string;
+  imageUrl?: string;
+  cursorIndex?: number;
+  cursorLength?: number;
+};
+
+// Editors that haven't sent a heartbeat for this long are treated as gone
+const PRESENCE_TTL_MS: number = 30 * 1000;
+const MAX_EDITS_PER_QUERY: number = 100;
+// A client further behind than this re-opens the document instead of rebasing,
+// so older edits are pruned
+const MAX_REBASE_EDITS: number = 500;
+// Expired edits deleted per accepted edit - more than one, so a backlog drains
+const EDIT_PRUNE_BATCH_SIZE: number = 10;
+const PRESENCE_CLEANUP_BATCH_SIZE: number = 100;
+
+async function getCurrentUser(
+  ctx: QueryCtx | MutationCtx
+): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  return await ctx.db
+    .query("users")
+    .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+    .unique();
+}
+
+// Load a live post the signed-in user can edit, or throw
+async function getEditablePost(
+  ctx: MutationCtx,
+  postId: Id<"posts">
+): Promise<{ user: Doc<"users">; post: Doc<"posts"> }> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const post: Doc<"posts"> | null = await ctx.db.get(postId);
+  if (!post || post.deletedAt !== undefined) {
+    throw new Error("Post not found");
+  }
+
+  if (!(await getPostRole(ctx, post, user._id))) {
+    throw new Error("Not authorized");
+  }
+
+  return { user, post };
+}
+
+function parseDelta(json: string): Delta {
+  try {
+    const ops: unknown = JSON.parse(json);
+    if (!Array.isArray(ops)) {
+      throw new Error();
+    }
+    return new Delta(ops);
+  } catch {
+    throw new Error("Invalid document change");
+  }
+}
+
+async function upsertPresence(
+  ctx: MutationCtx,
+  args: {
+    postId: Id<"posts">;
+    userId: Id<"users">;
+    clientId: string;
+    cursorIndex?: number;
+    cursorLength?: number;
+  }
+): Promise<void> {
+  const existing: Doc<"editorPresence"> | null = await ctx.db
+    .query("editorPresence")
+    .withIndex("by_client", (q) => q.eq("clientId", args.clientId))
+    .unique();
+
+  const fields = {
+    postId: args.postId,
+    userId: args.userId,
+    clientId: args.clientId,
+    cursorIndex: args.cursorIndex,
+    cursorLength: args.cursorLength,
+    updatedAt: Date.now(),
+  };
+
+  if (existing) {
+    await ctx.db.patch(existing._id, fields);
+  } else {
+    await ctx.db.insert("editorPresence", fields);
+  }
+}
+
+async function deleteDocument(
+  ctx: MutationCtx,
+  document: Doc<"collabDocuments">
+): Promise<void> {
+  const edits: Doc<"collabEdits">[] = await ctx.db
+    .query("collabEdits")
+    .withIndex("by_document_version", (q) => q.eq("documentId", document._id))
+    .collect();
+
+  for (const edit of edits) {
+    await ctx.db.delete(edit._id);
+  }
+  await ctx.db.delete(document._id);
+}
+
+// Drop a post's editing session and presence - shared by the post purge
+export async function deleteEditingSession(
+  ctx: MutationCtx,
+  postId: Id<"posts">
+): Promise<void> {
+  const document: Doc<"collabDocuments"> | null = await ctx.db
+    .query("collabDocuments")
+    .withIndex("by_post", (q) => q.eq("postId", postId))
+    .unique();
+  if (document) {
+    await deleteDocument(ctx, document);
+  }
+
+  const presence: Doc<"editorPresence">[] = await ctx.db
+    .query("editorPresence")
+    .withIndex("by_post", (q) => q.eq("postId", postId))
+    .collect();
+  for (const row of presence) {
+    await ctx.db.delete(row._id);
+  }
+}
+
+// Join the live editing session of a post. The first editor in seeds it with
+// their copy of the post; later editors get the shared document instead.
+export const openDocument = mutation({
+  args: {
+    postId: v.id("posts"),
+    clientId: v.string(),
+    contents: v.string(), // JSON Quill delta of the joining editor's document
+  },
+  handler: async (ctx, args): Promise<OpenDocumentResponse> => {
+    const { user, post } = await getEditablePost(ctx, args.postId);
+
+    const existing: Doc<"collabDocuments"> | null = await ctx.db
+      .query("collabDocuments")
+      .withIndex("by_post", (q) => q.eq("postId", args.postId))
+      .unique();
+
+    await upsertPresence(ctx, {
+      postId: args.postId,
+      userId: user._id,
+      clientId: args.clientId,
+    });
+
+    if (existing) {
+      const cutoff: number = Date.now() - PRESENCE_TTL_MS;
+      const presence: Doc<"editorPresence">[] = await ctx.db
+        .query("editorPresence")
+        .withIndex("by_post", (q) => q.eq("postId", args.postId))
+        .collect();
+      const othersEditing: boolean = presence.some(
+        (row) => row.clientId !== args.clientId && row.updatedAt > cutoff
+      );
+
+      // Keep the session while someone is in it, or while it holds edits that
+      // were never saved to the post
+      if (othersEditing || existing.updatedAt > post.updatedAt) {
+        return {
+          documentId: existing._id,
+          version: existing.version,
+          contents: existing.contents,
+        };
+      }
+
+      await deleteDocument(ctx, existing);
+    }
+
+    const contents: Delta = parseDelta(args.contents);
+    const now: number = Date.now();
+
+    const documentId = await ctx.db.insert("collabDocuments", {
+      postId: args.postId,
+      contents: JSON.stringify(contents.ops),
+      version: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { documentId, version: 0, contents: JSON.stringify(contents.ops) };
+  },
+});
+
+// Apply an edit made against `baseVersion`, transforming it past every edit
+// the server accepted since then. Returns the version it produced.
+export const submitEdit = mutation({
+  args: {
+    documentId: v.id("collabDocuments"),
+    clientId: v.string(),
+    baseVersion: v.number(),
+    delta: v.string(),
+  },
+  handler: async (ctx, args): Promise<number> => {
+    const document: Doc<"collabDocuments"> | null = await ctx.db.get(
+      args.documentId
+    );
+    if (!document) {
+      throw new Error("This editing session has ended");
+    }
+
+    const { user } = await getEditablePost(ctx, document.postId);
+
+    if (
+      args.baseVersion > document.version ||
+      args.baseVersion < document.version - MAX_REBASE_EDITS
+    ) {
+      throw new Error("This editor is out of date");
+    }
+
+    const concurrent: Doc<"collabEdits">[] = await ctx.db
+      .query("collabEdits")
+      .withIndex("by_document_version", (q) =>
+        q.eq("documentId", args.documentId).gt("version", args.baseVersion)
+      )
+      .collect();
+
+    // Edits the server already accepted win ties at the same position
+    let delta: Delta = parseDelta(args.delta);
+    for (const edit of concurrent) {
+      delta = parseDelta(edit.delta).transform(delta, true);
+    }
+
+    const contents: Delta = parseDelta(document.contents).compose(delta);
+    const version: number = document.version + 1;
+    const now: number = Date.now();
+
+    await ctx.db.insert("collabEdits", {
+      documentId: args.documentId,
+      userId: user._id,
+      clientId: args.clientId,
+      version,
+      delta: JSON.stringify(delta.ops),
+      createdAt: now,
+    });
+
+    await ctx.db.patch(args.documentId, {
+      contents: JSON.stringify(contents.ops),
+      version,
+      updatedAt: now,
+    });
+
+    // No editor can rebase onto these any more, so nobody reads them again
+    const expired: Doc<"collabEdits">[] = await ctx.db
+      .query("collabEdits")
+      .withIndex("by_document_version", (q) =>
+        q
+          .eq("documentId", args.documentId)
+          .lte("version", version - MAX_REBASE_EDITS)
+      )
+      .take(EDIT_PRUNE_BATCH_SIZE);
+    for (const edit of expired) {
+      await ctx.db.delete(edit._id);
+    }
+
+    return version;
+  },
+});
+
+// Edits after `since`, oldest first - null once the session is gone or the
+// caller has fallen too far behind to catch up
+export const getEdits = query({
+  args: {
+    documentId: v.id("collabDocuments"),
+    since: v.number(),
+  },
+  handler: async (ctx, args): Promise<CollabEdit[] | null> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return null;
+    }
+
+    const document: Doc<"collabDocuments"> | null = await ctx.db.get(
+      args.documentId
+    );
+    if (!document) {
+      return null;
+    }
+
+    const post: Doc<"posts"> | null = await ctx.db.get(document.postId);
+    if (!post || !(await getPostRole(ctx, post, user._id))) {
+      return null;
+    }
+
+    // The edits it's missing may have been pruned - it has to re-open
+    if (args.since < document.version - MAX_REBASE_EDITS) {
+      return null;
+    }
+
+    const edits: Doc<"collabEdits">[] = await ctx.db
+      .query("collabEdits")
+      .withIndex("by_document_version", (q) =>
+        q.eq("documentId", args.documentId).gt("version", args.since)
+      )
+      .take(MAX_EDITS_PER_QUERY);
+
+    return edits.map((edit) => ({
+      version: edit.version,
+      clientId: edit.clientId,
+      delta: edit.delta,
+    }));
+  },
+});
+
+// Heartbeat from an open editor, with its current cursor
+export const updatePresence = mutation({
+  args: {
+    postId: v.id("posts"),
+    clientId: v.string(),
+    cursorIndex: v.optional(v.number()),
+    cursorLength: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const { user } = await getEditablePost(ctx, args.postId);
+
+    await upsertPresence(ctx, { ...args, userId: user._id });
+  },
+});
+
+// An editor closed the post
+export const leave = mutation({
+  args: { clientId: v.string() },
+  handler: async (ctx, args): Promise<void> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return;
+    }
+
+    const presence: Doc<"editorPresence"> | null = await ctx.db
+      .query("editorPresence")
+      .withIndex("by_client", (q) => q.eq("clientId", args.clientId))
+      .unique();
+
+    if (presence && presence.userId === user._id) {
+      await ctx.db.delete(presence._id);
+    }
+  },
+});
+
+// Everyone with the post open in the editor, including the caller's own tabs
+export const getPresence = query({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args): Promise<EditorPresence[]> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post || !(await getPostRole(ctx, post, user._id))) {
+      return [];
+    }
+
+    const cutoff: number = Date.now() - PRESENCE_TTL_MS;
+    const presence: Doc<"editorPresence">[] = await ctx.db
+      .query("editorPresence")
+      .withIndex("by_post", (q) => q.eq("postId", args.postId))
+      .collect();
+
+    const live: Array<EditorPresence | null> = await Promise.all(
+      presence
+        .filter((row) => row.updatedAt > cutoff)
+        .map(async (row): Promise<EditorPresence | null> => {
+          const editor: Doc<"users"> | null = await ctx.db.get(row.userId);
+          if (!editor) {
+            return null;
+          }
+          return {
+            clientId: row.clientId,
+            userId: editor._id,
+            name: editor.name,
+            imageUrl: editor.imageUrl,
+            cursorIndex: row.cursorIndex,
+            cursorLength: row.cursorLength,
+          };
+        })
+    );
+
+    return live.filter((row): row is EditorPresence => row !== null);
+  },
+});
+
+// Clear heartbeats from editors that closed without saying goodbye
+export const cleanupPresence = internalMutation({
+  handler: async (ctx) => {
+    const cutoff: number = Date.now() - PRESENCE_TTL_MS;
+
+    const stale: Doc<"editorPresence">[] = await ctx.db
+      .query("editorPresence")
+      .withIndex("by_updated", (q) => q.lt("updatedAt", cutoff))
+      .take(PRESENCE_CLEANUP_BATCH_SIZE);
+
+    for (const row of stale) {
+      await ctx.db.delete(row._id);
+    }
+
+    return { removed: stale.length };
+  },
+});
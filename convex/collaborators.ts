@@ -0,0 +1,379 @@
+import { v } from "convex/values";
+import {
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import type { Id, Doc } from "./_generated/dataModel";
+
+// Type definitions
+export type PostRole = "owner" | "editor";
+
+type AuthorInfo = {
+  _id: Id<"users">;
+  name: string;
+  username?: string;
+  imageUrl?: string;
+};
+
+type CollaboratorWithUser = Doc<"postCollaborators"> & {
+  user: AuthorInfo | null;
+};
+
+type PostCollaboratorsResponse = {
+  author: AuthorInfo | null;
+  collaborators: CollaboratorWithUser[];
+  viewerRole: PostRole | null;
+};
+
+type InvitationWithPost = Doc<"postCollaborators"> & {
+  post: { _id: Id<"posts">; title: string };
+  inviter: AuthorInfo | null;
+};
+
+const MAX_COLLABORATORS: number = 10;
+
+const toAuthorInfo = (user: Doc<"users">): AuthorInfo => ({
+  _id: user._id,
+  name: user.name,
+  username: user.username,
+  imageUrl: user.imageUrl,
+});
+
+async function getCurrentUser(
+  ctx: QueryCtx | MutationCtx
+): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  return await ctx.db
+    .query("users")
+    .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+    .unique();
+}
+
+// What a user may do with a post: its original author and accepted co-owners
+// are owners, accepted editors and the admins/editors of its publication can
+// edit - shared by the post mutations
+export async function getPostRole(
+  ctx: QueryCtx | MutationCtx,
+  post: Doc<"posts">,
+  userId: Id<"users">
+): Promise<PostRole | null> {
+  if (post.authorId === userId) {
+    return "owner";
+  }
+
+  const collaborator: Doc<"postCollaborators"> | null = await ctx.db
+    .query("postCollaborators")
+    .withIndex("by_post_user", (q) =>
+      q.eq("postId", post._id).eq("userId", userId)
+    )
+    .unique();
+
+  if (collaborator?.status === "accepted") {
+    return collaborator.role;
+  }
+
+  if (post.publicationId) {
+    const member: Doc<"publicationMembers"> | null = await ctx.db
+      .query("publicationMembers")
+      .withIndex("by_publication_user", (q) =>
+        q.eq("publicationId", post.publicationId!).eq("userId", userId)
+      )
+      .unique();
+
+    if (member && member.role !== "writer") {
+      return "editor";
+    }
+  }
+
+  return null;
+}
+
+// Accepted co-authors of a post, in the order they joined (for bylines)
+export async function getCoAuthors(
+  ctx: QueryCtx,
+  postId: Id<"posts">
+): Promise<AuthorInfo[]> {
+  const collaborators: Doc<"postCollaborators">[] = await ctx.db
+    .query("postCollaborators")
+    .withIndex("by_post", (q) => q.eq("postId", postId))
+    .filter((q) => q.eq(q.field("status"), "accepted"))
+    .collect();
+
+  const users = await Promise.all(
+    collaborators
+      .sort((a, b) => (a.acceptedAt ?? 0) - (b.acceptedAt ?? 0))
+      .map((collaborator) => ctx.db.get(collaborator.userId))
+  );
+
+  return users
+    .filter((user): user is Doc<"users"> => !!user)
+    .map(toAuthorInfo);
+}
+
+// Load a post the signed-in user owns, or throw
+async function getOwnedPost(
+  ctx: MutationCtx,
+  postId: Id<"posts">
+): Promise<{ user: Doc<"users">; post: Doc<"posts"> }> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const post: Doc<"posts"> | null = await ctx.db.get(postId);
+  if (!post || post.deletedAt !== undefined) {
+    throw new Error("Post not found");
+  }
+
+  if ((await getPostRole(ctx, post, user._id)) !== "owner") {
+    throw new Error("Only owners can manage co-authors");
+  }
+
+  return { user, post };
+}
+
+// Invite a user (by username) to co-author a post
+export const invite = mutation({
+  args: {
+    postId: v.id("posts"),
+    username: v.string(),
+    role: v.union(v.literal("owner"), v.literal("editor")),
+  },
+  handler: async (ctx, args): Promise<Id<"postCollaborators">> => {
+    const { user, post } = await getOwnedPost(ctx, args.postId);
+
+    const username = args.username.trim().replace(/^@/, "");
+    const invitee: Doc<"users"> | null = await ctx.db
+      .query("users")
+      .withIndex("by_username", (q) => q.eq("username", username))
+      .unique();
+
+    if (!invitee) {
+      throw new Error(`No user found with the username @${username}`);
+    }
+
+    if (invitee._id === post.authorId) {
+      throw new Error("The post's author is already an owner");
+    }
+
+    const existing: Doc<"postCollaborators"> | null = await ctx.db
+      .query("postCollaborators")
+      .withIndex("by_post_user", (q) =>
+        q.eq("postId", post._id).eq("userId", invitee._id)
+      )
+      .unique();
+
+    if (existing) {
+      throw new Error(
+        existing.status === "pending"
+          ? `@${username} has already been invited`
+          : `@${username} is already a co-author`
+      );
+    }
+
+    const collaborators: Doc<"postCollaborators">[] = await ctx.db
+      .query("postCollaborators")
+      .withIndex("by_post", (q) => q.eq("postId", post._id))
+      .collect();
+
+    if (collaborators.length >= MAX_COLLABORATORS) {
+      throw new Error(`A post can have at most ${MAX_COLLABORATORS} co-authors`);
+    }
+
+    return await ctx.db.insert("postCollaborators", {
+      postId: post._id,
+      userId: invitee._id,
+      invitedBy: user._id,
+      role: args.role,
+      status: "pending",
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Accept or decline an invitation addressed to the signed-in user
+export const respond = mutation({
+  args: {
+    invitationId: v.id("postCollaborators"),
+    accept: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const invitation: Doc<"postCollaborators"> | null = await ctx.db.get(
+      args.invitationId
+    );
+    if (
+      !invitation ||
+      invitation.userId !== user._id ||
+      invitation.status !== "pending"
+    ) {
+      throw new Error("Invitation not found");
+    }
+
+    if (args.accept) {
+      await ctx.db.patch(invitation._id, {
+        status: "accepted",
+        acceptedAt: Date.now(),
+      });
+    } else {
+      await ctx.db.delete(invitation._id);
+    }
+
+    return { success: true };
+  },
+});
+
+// Change a co-author's role
+export const updateRole = mutation({
+  args: {
+    collaboratorId: v.id("postCollaborators"),
+    role: v.union(v.literal("owner"), v.literal("editor")),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const collaborator: Doc<"postCollaborators"> | null = await ctx.db.get(
+      args.collaboratorId
+    );
+    if (!collaborator) {
+      throw new Error("Co-author not found");
+    }
+
+    await getOwnedPost(ctx, collaborator.postId);
+
+    await ctx.db.patch(collaborator._id, { role: args.role });
+    return { success: true };
+  },
+});
+
+// Remove a co-author or withdraw an invitation; co-authors may also remove themselves
+export const remove = mutation({
+  args: { collaboratorId: v.id("postCollaborators") },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const collaborator: Doc<"postCollaborators"> | null = await ctx.db.get(
+      args.collaboratorId
+    );
+    if (!collaborator) {
+      throw new Error("Co-author not found");
+    }
+
+    if (collaborator.userId !== user._id) {
+      await getOwnedPost(ctx, collaborator.postId);
+    }
+
+    await ctx.db.delete(collaborator._id);
+    return { success: true };
+  },
+});
+
+// Get a post's author, co-authors and pending invitations (any co-author can see them)
+export const getPostCollaborators = query({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args): Promise<PostCollaboratorsResponse | null> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return null;
+    }
+
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post) {
+      return null;
+    }
+
+    const viewerRole = await getPostRole(ctx, post, user._id);
+    if (!viewerRole) {
+      return null;
+    }
+
+    const author: Doc<"users"> | null = await ctx.db.get(post.authorId);
+    const collaborators: Doc<"postCollaborators">[] = await ctx.db
+      .query("postCollaborators")
+      .withIndex("by_post", (q) => q.eq("postId", post._id))
+      .collect();
+
+    return {
+      author: author ? toAuthorInfo(author) : null,
+      collaborators: await Promise.all(
+        collaborators.map(
+          async (collaborator): Promise<CollaboratorWithUser> => {
+            const member: Doc<"users"> | null = await ctx.db.get(
+              collaborator.userId
+            );
+            return {
+              ...collaborator,
+              user: member ? toAuthorInfo(member) : null,
+            };
+          }
+        )
+      ),
+      viewerRole,
+    };
+  },
+});
+
+// Get the signed-in user's pending co-author invitations
+export const getMyInvitations = query({
+  handler: async (ctx): Promise<InvitationWithPost[]> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const invitations: Doc<"postCollaborators">[] = await ctx.db
+      .query("postCollaborators")
+      .withIndex("by_user_status", (q) =>
+        q.eq("userId", user._id).eq("status", "pending")
+      )
+      .collect();
+
+    const results = await Promise.all(
+      invitations.map(async (invitation): Promise<InvitationWithPost | null> => {
+        const post: Doc<"posts"> | null = await ctx.db.get(invitation.postId);
+        if (!post || post.deletedAt !== undefined) {
+          return null;
+        }
+
+        const inviter: Doc<"users"> | null = await ctx.db.get(
+          invitation.invitedBy
+        );
+        return {
+          ...invitation,
+          post: { _id: post._id, title: post.title },
+          inviter: inviter ? toAuthorInfo(inviter) : null,
+        };
+      })
+    );
+
+    return results
+      .filter((result): result is InvitationWithPost => result !== null)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  },
+});
@@ -54,7 +54,7 @@ export const addComment = mutation({
 
     const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
 
-    if (!post || post.status !== "published") {
+    if (!post || post.status !== "published" || post.deletedAt !== undefined) {
       throw new Error("Post not found or not published");
     }
 
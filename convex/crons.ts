@@ -0,0 +1,29 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Permanently delete posts that have sat in the trash for 30 days
+crons.daily(
+  "purge trashed posts",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.posts.purgeTrash
+);
+
+// Forget editors whose tab closed without leaving the post
+crons.interval(
+  "clean up editor presence",
+  { minutes: 1 },
+  internal.collab.cleanupPresence
+);
+
+// Rescore trending posts from the latest views, likes and comments - the run
+// continues in batches of its own
+crons.interval(
+  "compute trending scores",
+  { minutes: 15 },
+  internal.trending.computeTrendingScores,
+  {}
+);
+
+export default crons;
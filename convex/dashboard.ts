@@ -1,6 +1,7 @@
 import { v } from "convex/values";
-import { query } from "./_generated/server";
+import { query, type QueryCtx } from "./_generated/server";
 import type { Id, Doc } from "./_generated/dataModel";
+import { getPublicationRole } from "./publications";
 
 // Type definitions
 type AnalyticsResponse = {
@@ -14,6 +15,21 @@ type AnalyticsResponse = {
   followersGrowth: number;
 };
 
+type PostTotals = {
+  totalViews: number;
+  totalLikes: number;
+  totalComments: number;
+  viewsGrowth: number;
+  likesGrowth: number;
+  commentsGrowth: number;
+};
+
+type PublicationAnalyticsResponse = PostTotals & {
+  totalPosts: number;
+  publishedPosts: number;
+  totalMembers: number;
+};
+
 type ActivityItem = {
   type: "like" | "comment" | "follow";
   user: string;
@@ -44,6 +60,153 @@ type ViewsByDate = {
   [key: string]: number;
 };
 
+// Views, likes and approved comments across a set of posts - shared by the
+// personal and publication dashboards
+async function summarizePosts(
+  ctx: QueryCtx,
+  posts: Doc<"posts">[]
+): Promise<PostTotals> {
+  // Calculate analytics
+  const totalViews: number = posts.reduce(
+    (sum: number, post: Doc<"posts">) => sum + post.viewCount,
+    0
+  );
+  const totalLikes: number = posts.reduce(
+    (sum: number, post: Doc<"posts">) => sum + post.likeCount,
+    0
+  );
+
+  // Get approved comment counts for the posts
+  const postIds: Id<"posts">[] = posts.map((p: Doc<"posts">) => p._id);
+  let totalComments: number = 0;
+
+  for (const postId of postIds) {
+    const comments: Doc<"comments">[] = await ctx.db
+      .query("comments")
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("postId"), postId),
+          q.eq(q.field("status"), "approved")
+        )
+      )
+      .collect();
+    totalComments += comments.length;
+  }
+
+  // Calculate growth percentages (simplified - you might want to implement proper date-based calculations)
+  const thirtyDaysAgo: number = Date.now() - 30 * 24 * 60 * 60 * 1000;
+
+  const recentPosts: Doc<"posts">[] = posts.filter(
+    (p: Doc<"posts">) => p.createdAt > thirtyDaysAgo
+  );
+  const recentViews: number = recentPosts.reduce(
+    (sum: number, post: Doc<"posts">) => sum + post.viewCount,
+    0
+  );
+  const recentLikes: number = recentPosts.reduce(
+    (sum: number, post: Doc<"posts">) => sum + post.likeCount,
+    0
+  );
+
+  // Simple growth calculation (you can enhance this)
+  const viewsGrowth: number =
+    totalViews > 0 ? (recentViews / totalViews) * 100 : 0;
+  const likesGrowth: number =
+    totalLikes > 0 ? (recentLikes / totalLikes) * 100 : 0;
+  const commentsGrowth: number = totalComments > 0 ? 15 : 0; // Placeholder
+
+  return {
+    totalViews,
+    totalLikes,
+    totalComments,
+    viewsGrowth: Math.round(viewsGrowth * 10) / 10,
+    likesGrowth: Math.round(likesGrowth * 10) / 10,
+    commentsGrowth,
+  };
+}
+
+// Views per day over the last 30 days for a set of posts (for the chart)
+async function buildDailyViews(
+  ctx: QueryCtx,
+  postIds: Id<"posts">[]
+): Promise<DailyViewData[]> {
+  // Generate last 30 days
+  const days: DailyViewData[] = [];
+  for (let i = 29; i >= 0; i--) {
+    const date: Date = new Date();
+    date.setDate(date.getDate() - i);
+    const dateString: string = date.toISOString().split("T")[0]; // YYYY-MM-DD
+    days.push({
+      date: dateString,
+      views: 0,
+      day: date.toLocaleDateString("en-US", { weekday: "short" }),
+      fullDate: date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+      }),
+    });
+  }
+
+  // Nothing to look up yet (e.g. a brand-new publication)
+  if (postIds.length === 0) {
+    return days;
+  }
+
+  // Get daily stats for all the posts
+  const dailyStats: Doc<"dailyStats">[] = await ctx.db
+    .query("dailyStats")
+    .filter((q) =>
+      q.or(...postIds.map((id: Id<"posts">) => q.eq(q.field("postId"), id)))
+    )
+    .collect();
+
+  // Aggregate views by date
+  const viewsByDate: ViewsByDate = {};
+  dailyStats.forEach((stat: Doc<"dailyStats">) => {
+    if (viewsByDate[stat.date]) {
+      viewsByDate[stat.date] += stat.views;
+    } else {
+      viewsByDate[stat.date] = stat.views;
+    }
+  });
+
+  // Merge with days array
+  const chartData: DailyViewData[] = days.map((day: DailyViewData) => ({
+    ...day,
+    views: viewsByDate[day.date] || 0,
+  }));
+
+  return chartData;
+}
+
+// A publication's live posts, or null unless the signed-in user is a member
+async function getPublicationPosts(
+  ctx: QueryCtx,
+  publicationId: Id<"publications">
+): Promise<Doc<"posts">[] | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  const user: Doc<"users"> | null = await ctx.db
+    .query("users")
+    .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+    .unique();
+
+  if (!user || !(await getPublicationRole(ctx, publicationId, user._id))) {
+    return null;
+  }
+
+  return await ctx.db
+    .query("posts")
+    .withIndex("by_publication_status", (q) =>
+      q.eq("publicationId", publicationId)
+    )
+    .filter((q) => q.eq(q.field("deletedAt"), undefined))
+    .collect();
+}
+
 // Get dashboard analytics for the authenticated user
 export const getAnalytics = query({
   handler: async (ctx): Promise<AnalyticsResponse | null> => {
@@ -66,6 +229,7 @@ export const getAnalytics = query({
     const posts: Doc<"posts">[] = await ctx.db
       .query("posts")
       .filter((q) => q.eq(q.field("authorId"), user._id))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .collect();
 
     // Get user's followers count
@@ -74,64 +238,12 @@ export const getAnalytics = query({
       .filter((q) => q.eq(q.field("followingId"), user._id))
       .collect();
 
-    // Calculate analytics
-    const totalViews: number = posts.reduce(
-      (sum: number, post: Doc<"posts">) => sum + post.viewCount,
-      0
-    );
-    const totalLikes: number = posts.reduce(
-      (sum: number, post: Doc<"posts">) => sum + post.likeCount,
-      0
-    );
-
-    // Get comments count for user's posts
-    const postIds: Id<"posts">[] = posts.map((p: Doc<"posts">) => p._id);
-    let totalComments: number = 0;
-
-    for (const postId of postIds) {
-      const comments: Doc<"comments">[] = await ctx.db
-        .query("comments")
-        .filter((q) =>
-          q.and(
-            q.eq(q.field("postId"), postId),
-            q.eq(q.field("status"), "approved")
-          )
-        )
-        .collect();
-      totalComments += comments.length;
-    }
-
-    // Calculate growth percentages (simplified - you might want to implement proper date-based calculations)
-    const thirtyDaysAgo: number = Date.now() - 30 * 24 * 60 * 60 * 1000;
-
-    const recentPosts: Doc<"posts">[] = posts.filter(
-      (p: Doc<"posts">) => p.createdAt > thirtyDaysAgo
-    );
-    const recentViews: number = recentPosts.reduce(
-      (sum: number, post: Doc<"posts">) => sum + post.viewCount,
-      0
-    );
-    const recentLikes: number = recentPosts.reduce(
-      (sum: number, post: Doc<"posts">) => sum + post.likeCount,
-      0
-    );
-
-    // Simple growth calculation (you can enhance this)
-    const viewsGrowth: number =
-      totalViews > 0 ? (recentViews / totalViews) * 100 : 0;
-    const likesGrowth: number =
-      totalLikes > 0 ? (recentLikes / totalLikes) * 100 : 0;
-    const commentsGrowth: number = totalComments > 0 ? 15 : 0; // Placeholder
+    const totals: PostTotals = await summarizePosts(ctx, posts);
     const followersGrowth: number = followersCount.length > 0 ? 12 : 0; // Placeholder
 
     return {
-      totalViews,
-      totalLikes,
-      totalComments,
+      ...totals,
       totalFollowers: followersCount.length,
-      viewsGrowth: Math.round(viewsGrowth * 10) / 10,
-      likesGrowth: Math.round(likesGrowth * 10) / 10,
-      commentsGrowth,
       followersGrowth,
     };
   },
@@ -163,6 +275,7 @@ export const getRecentActivity = query({
     const posts: Doc<"posts">[] = await ctx.db
       .query("posts")
       .filter((q) => q.eq(q.field("authorId"), user._id))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .collect();
 
     const postIds: Id<"posts">[] = posts.map((p: Doc<"posts">) => p._id);
@@ -277,6 +390,7 @@ export const getPostsWithAnalytics = query({
     const posts: Doc<"posts">[] = await ctx.db
       .query("posts")
       .filter((q) => q.eq(q.field("authorId"), user._id))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .order("desc")
       .take(args.limit || 5);
 
@@ -326,53 +440,55 @@ export const getDailyViews = query({
     const userPosts: Doc<"posts">[] = await ctx.db
       .query("posts")
       .filter((q) => q.eq(q.field("authorId"), user._id))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .collect();
 
     const postIds: Id<"posts">[] = userPosts.map(
       (post: Doc<"posts">) => post._id
     );
 
-    // Generate last 30 days
-    const days: DailyViewData[] = [];
-    for (let i = 29; i >= 0; i--) {
-      const date: Date = new Date();
-      date.setDate(date.getDate() - i);
-      const dateString: string = date.toISOString().split("T")[0]; // YYYY-MM-DD
-      days.push({
-        date: dateString,
-        views: 0,
-        day: date.toLocaleDateString("en-US", { weekday: "short" }),
-        fullDate: date.toLocaleDateString("en-US", {
-          month: "short",
-          day: "numeric",
-        }),
-      });
+    return await buildDailyViews(ctx, postIds);
+  },
+});
+
+// Get dashboard analytics for a publication the signed-in user belongs to
+export const getPublicationAnalytics = query({
+  args: { publicationId: v.id("publications") },
+  handler: async (ctx, args): Promise<PublicationAnalyticsResponse | null> => {
+    const posts = await getPublicationPosts(ctx, args.publicationId);
+    if (!posts) {
+      return null;
     }
 
-    // Get daily stats for all user's posts
-    const dailyStats: Doc<"dailyStats">[] = await ctx.db
-      .query("dailyStats")
-      .filter((q) =>
-        q.or(...postIds.map((id: Id<"posts">) => q.eq(q.field("postId"), id)))
+    const members: Doc<"publicationMembers">[] = await ctx.db
+      .query("publicationMembers")
+      .withIndex("by_publication", (q) =>
+        q.eq("publicationId", args.publicationId)
       )
       .collect();
 
-    // Aggregate views by date
-    const viewsByDate: ViewsByDate = {};
-    dailyStats.forEach((stat: Doc<"dailyStats">) => {
-      if (viewsByDate[stat.date]) {
-        viewsByDate[stat.date] += stat.views;
-      } else {
-        viewsByDate[stat.date] = stat.views;
-      }
-    });
+    return {
+      ...(await summarizePosts(ctx, posts)),
+      totalPosts: posts.length,
+      publishedPosts: posts.filter((post) => post.status === "published")
+        .length,
+      totalMembers: members.length,
+    };
+  },
+});
 
-    // Merge with days array
-    const chartData: DailyViewData[] = days.map((day: DailyViewData) => ({
-      ...day,
-      views: viewsByDate[day.date] || 0,
-    }));
+// Get daily views data for a publication's chart (last 30 days)
+export const getPublicationDailyViews = query({
+  args: { publicationId: v.id("publications") },
+  handler: async (ctx, args): Promise<DailyViewData[]> => {
+    const posts = await getPublicationPosts(ctx, args.publicationId);
+    if (!posts) {
+      return [];
+    }
 
-    return chartData;
+    return await buildDailyViews(
+      ctx,
+      posts.map((post: Doc<"posts">) => post._id)
+    );
   },
-});
\ No newline at end of file
+});
@@ -1,6 +1,21 @@
-import { v } from "convex/values";
-import { query } from "./_generated/server";
+import { v, type Infer } from "convex/values";
+import {
+  paginationOptsValidator,
+  type IndexRange,
+  type IndexRangeBuilder,
+  type PaginationResult,
+} from "convex/server";
+import { query, type QueryCtx } from "./_generated/server";
 import type { Id, Doc } from "./_generated/dataModel";
+import { getCoAuthors } from "./collaborators";
+import {
+  EMPTY_SIGNALS,
+  getLikedTags,
+  compareFeedKeys,
+  getRankKey,
+  type FeedKey,
+  type ReaderSignals,
+} from "../lib/feed-ranking";
 
 // Type definitions
 type AuthorInfo = {
@@ -12,15 +27,16 @@ type AuthorInfo = {
 
 type PostWithAuthor = Doc<"posts"> & {
   author: AuthorInfo | null;
+  coAuthors: AuthorInfo[];
 };
 
-type FeedResponse = {
-  posts: PostWithAuthor[];
-  hasMore: boolean;
-};
+// Includes the endCursor usePaginatedQuery sends when it re-runs a page
+type PaginationOpts = Infer<typeof paginationOptsValidator>;
 
-type GetFeedArgs = {
-  limit?: number;
+type FollowedPostsRange = {
+  perAuthor: number; // Posts from each author older than `before`
+  before?: number; // Only posts published at or before this time
+  until?: number; // Every post back to this time, ignoring perAuthor
 };
 
 type RecentPost = {
@@ -46,57 +62,292 @@ type GetSuggestedUsersArgs = {
   limit?: number;
 };
 
-type TrendingPost = Doc<"posts"> & {
-  trendingScore: number;
-  author: AuthorInfo | null;
-};
+// Newest posts considered for the "For you" ranking, besides followed authors' posts
+const CANDIDATE_POOL_SIZE: number = 100;
+const POSTS_PER_FOLLOWED_AUTHOR: number = 10;
+// Recent likes the reader's tag preferences are taken from
+const LIKED_POSTS_SAMPLE_SIZE: number = 50;
+
+async function getViewer(ctx: QueryCtx): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  return await ctx.db
+    .query("users")
+    .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+    .unique();
+}
+
+// Published posts by each followed author, newest first - followers-only ones
+// included, since the viewer follows them
+async function getFollowedAuthorsPosts(
+  ctx: QueryCtx,
+  followedAuthorIds: Id<"users">[],
+  range: FollowedPostsRange
+): Promise<Doc<"posts">[]> {
+  const { perAuthor, before, until } = range;
+  const posts: Doc<"posts">[] = [];
+
+  for (const authorId of followedAuthorIds) {
+    // Ordered by publish time, not creation - a draft written long ago and
+    // published today is among the author's latest
+    const authorPosts = (
+      bounds: (
+        q: IndexRangeBuilder<
+          Doc<"posts">,
+          ["authorId", "status", "publishedAt", "_creationTime"],
+          2
+        >
+      ) => IndexRange
+    ) =>
+      ctx.db
+        .query("posts")
+        .withIndex("by_author_published", (q) =>
+          bounds(q.eq("authorId", authorId).eq("status", "published"))
+        )
+        .order("desc")
+        .filter((q) =>
+          q.and(
+            q.eq(q.field("deletedAt"), undefined),
+            q.neq(q.field("visibility"), "unlisted")
+          )
+        );
 
-type GetTrendingPostsArgs = {
-  limit?: number;
-};
+    if (until !== undefined) {
+      posts.push(
+        ...(await authorPosts((q) =>
+          before !== undefined
+            ? q.gte("publishedAt", until).lte("publishedAt", before)
+            : q.gte("publishedAt", until)
+        ).collect())
+      );
+      continue;
+    }
 
-// Get feed posts - can improve it to show following posts first
+    // Posts sharing the cursor's publish time are all read, so a page can
+    // end between them without skipping any
+    if (before !== undefined) {
+      posts.push(
+        ...(await authorPosts((q) => q.eq("publishedAt", before)).collect())
+      );
+    }
+    posts.push(
+      ...(await authorPosts((q) =>
+        before !== undefined ? q.lt("publishedAt", before) : q
+      ).take(perAuthor))
+    );
+  }
+  return posts;
+}
+
+// Page cursors are JSON-encoded feed keys
+const decodeKey = (cursor: string | null | undefined): FeedKey | null =>
+  cursor ? (JSON.parse(cursor) as FeedKey) : null;
+
+// Page through posts ranked or merged in memory, first to last by key. The
+// cursor is the key of the page's last post rather than an offset, so posts
+// arriving or leaving don't shift later pages, and a page re-run with its
+// endCursor keeps to the range it first covered.
+function paginateByKey<Item>(
+  items: Item[],
+  getKey: (item: Item) => FeedKey,
+  opts: PaginationOpts
+): PaginationResult<Item> {
+  const start: FeedKey | null = decodeKey(opts.cursor);
+  const end: FeedKey | null = decodeKey(opts.endCursor);
+
+  const remaining = items
+    .map((item: Item) => ({ item, key: getKey(item) }))
+    .filter(({ key }) => !start || compareFeedKeys(key, start) > 0)
+    .sort((a, b) => compareFeedKeys(a.key, b.key));
+  const page = end
+    ? remaining.filter(({ key }) => compareFeedKeys(key, end) <= 0)
+    : remaining.slice(0, opts.numItems);
+  const last = page[page.length - 1];
+
+  return {
+    page: page.map(({ item }) => item),
+    isDone: page.length === remaining.length,
+    continueCursor:
+      opts.endCursor ?? (last ? JSON.stringify(last.key) : opts.cursor ?? ""),
+  };
+}
+
+async function withAuthors(
+  ctx: QueryCtx,
+  posts: Doc<"posts">[]
+): Promise<PostWithAuthor[]> {
+  const postsWithAuthors: PostWithAuthor[] = await Promise.all(
+    posts.map(async (post: Doc<"posts">): Promise<PostWithAuthor> => {
+      const author: Doc<"users"> | null = await ctx.db.get(post.authorId);
+      return {
+        ...post,
+        author: author
+          ? {
+              _id: author._id,
+              name: author.name,
+              username: author.username,
+              imageUrl: author.imageUrl,
+            }
+          : null,
+        coAuthors: await getCoAuthors(ctx, post._id),
+      };
+    })
+  );
+
+  return postsWithAuthors.filter(
+    (post: PostWithAuthor) => post.author !== null
+  );
+}
+
+// Get the latest posts from everyone, newest first
 export const getFeed = query({
   args: {
-    limit: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
   },
-  handler: async (ctx, args: GetFeedArgs): Promise<FeedResponse> => {
-    const limit: number = args.limit || 10;
-
-    const allPosts: Doc<"posts">[] = await ctx.db
+  handler: async (
+    ctx,
+    args
+  ): Promise<PaginationResult<PostWithAuthor>> => {
+    const result = await ctx.db
       .query("posts")
-      .filter((q) => q.eq(q.field("status"), "published"))
+      .withIndex("by_published", (q) => q.eq("status", "published"))
       .order("desc")
-      .take(limit + 1);
-
-    const hasMore: boolean = allPosts.length > limit;
-    const feedPosts: Doc<"posts">[] = hasMore
-      ? allPosts.slice(0, limit)
-      : allPosts;
-
-    const postsWithAuthors: PostWithAuthor[] = await Promise.all(
-      feedPosts.map(async (post: Doc<"posts">): Promise<PostWithAuthor> => {
-        const author: Doc<"users"> | null = await ctx.db.get(post.authorId);
-        return {
-          ...post,
-          author: author
-            ? {
-                _id: author._id,
-                name: author.name,
-                username: author.username,
-                imageUrl: author.imageUrl,
-              }
-            : null,
-        };
-      })
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("deletedAt"), undefined),
+          q.neq(q.field("visibility"), "unlisted"),
+          q.neq(q.field("visibility"), "followers")
+        )
+      )
+      .paginate(args.paginationOpts);
+
+    return { ...result, page: await withAuthors(ctx, result.page) };
+  },
+});
+
+// Get the latest posts from the authors the viewer follows
+export const getFollowingFeed = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<PaginationResult<PostWithAuthor>> => {
+    const viewer: Doc<"users"> | null = await getViewer(ctx);
+    if (!viewer) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    const follows: Doc<"follows">[] = await ctx.db
+      .query("follows")
+      .withIndex("by_follower", (q) => q.eq("followerId", viewer._id))
+      .collect();
+
+    // Enough from each author to fill the page even if one author wrote all
+    // of it, and one more to tell whether there's a next page
+    const start: FeedKey | null = decodeKey(args.paginationOpts.cursor);
+    const end: FeedKey | null = decodeKey(args.paginationOpts.endCursor);
+    const posts: Doc<"posts">[] = await getFollowedAuthorsPosts(
+      ctx,
+      follows.map((follow: Doc<"follows">) => follow.followingId),
+      {
+        perAuthor: args.paginationOpts.numItems + 1,
+        before: start?.[0],
+        until: end?.[0],
+      }
     );
 
-    return {
-      posts: postsWithAuthors.filter(
-        (post: PostWithAuthor) => post.author !== null
-      ),
-      hasMore,
-    };
+    const result = paginateByKey(
+      posts,
+      (post: Doc<"posts">): FeedKey => [post.publishedAt ?? 0, post._id],
+      args.paginationOpts
+    );
+    return { ...result, page: await withAuthors(ctx, result.page) };
+  },
+});
+
+// Get posts ranked for the viewer by who they follow, the tags of posts they
+// liked and recency - signed-out readers get recent, popular posts
+export const getForYouFeed = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<PaginationResult<PostWithAuthor>> => {
+    const recentPosts: Doc<"posts">[] = await ctx.db
+      .query("posts")
+      .withIndex("by_published", (q) => q.eq("status", "published"))
+      .order("desc")
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("deletedAt"), undefined),
+          q.neq(q.field("visibility"), "unlisted"),
+          q.neq(q.field("visibility"), "followers")
+        )
+      )
+      .take(CANDIDATE_POOL_SIZE);
+
+    const viewer: Doc<"users"> | null = await getViewer(ctx);
+    let candidates: Doc<"posts">[] = recentPosts;
+    let signals: ReaderSignals = EMPTY_SIGNALS;
+
+    if (viewer) {
+      const follows: Doc<"follows">[] = await ctx.db
+        .query("follows")
+        .withIndex("by_follower", (q) => q.eq("followerId", viewer._id))
+        .collect();
+      const followedAuthorIds: Id<"users">[] = follows.map(
+        (follow: Doc<"follows">) => follow.followingId
+      );
+
+      const likes: Doc<"likes">[] = await ctx.db
+        .query("likes")
+        .withIndex("by_user", (q) => q.eq("userId", viewer._id))
+        .order("desc")
+        .take(LIKED_POSTS_SAMPLE_SIZE);
+      const likedPosts: Doc<"posts">[] = [];
+      for (const like of likes) {
+        const post: Doc<"posts"> | null = await ctx.db.get(like.postId);
+        if (post) {
+          likedPosts.push(post);
+        }
+      }
+
+      signals = {
+        followedAuthorIds: new Set<string>(followedAuthorIds),
+        likedTags: getLikedTags(likedPosts),
+      };
+
+      // Followed authors' posts compete even when they're older than the pool
+      const seen: Set<string> = new Set(recentPosts.map((post) => post._id));
+      candidates = [
+        ...recentPosts,
+        ...(
+          await getFollowedAuthorsPosts(ctx, followedAuthorIds, {
+            perAuthor: POSTS_PER_FOLLOWED_AUTHOR,
+          })
+        ).filter((post: Doc<"posts">) => !seen.has(post._id)),
+      ].filter((post: Doc<"posts">) => post.authorId !== viewer._id);
+    }
+
+    // Ranked by a key that doesn't drift with time, so pages loaded at
+    // different times still line up
+    const now: number = Date.now();
+    const result = paginateByKey(
+      candidates,
+      (post: Doc<"posts">): FeedKey => [
+        getRankKey(post, signals, now),
+        post._id,
+      ],
+      args.paginationOpts
+    );
+    return { ...result, page: await withAuthors(ctx, result.page) };
   },
 });
 
@@ -156,7 +407,10 @@ export const getSuggestedUsers = query({
             .filter((q) =>
               q.and(
                 q.eq(q.field("authorId"), user._id),
-                q.eq(q.field("status"), "published")
+                q.eq(q.field("status"), "published"),
+                q.eq(q.field("deletedAt"), undefined),
+                q.neq(q.field("visibility"), "unlisted"),
+                q.neq(q.field("visibility"), "followers")
               )
             )
             .order("desc")
@@ -221,66 +475,3 @@ export const getSuggestedUsers = query({
   },
 });
 
-// Get trending posts (high engagement in last 7 days)
-export const getTrendingPosts = query({
-  args: { limit: v.optional(v.number()) },
-  handler: async (
-    ctx,
-    args: GetTrendingPostsArgs
-  ): Promise<TrendingPost[]> => {
-    const limit: number = args.limit || 10;
-    const weekAgo: number = Date.now() - 7 * 24 * 60 * 60 * 1000;
-
-    // Get recent published posts
-    const recentPosts: Doc<"posts">[] = await ctx.db
-      .query("posts")
-      .filter((q) =>
-        q.and(
-          q.eq(q.field("status"), "published"),
-          q.gte(q.field("publishedAt"), weekAgo)
-        )
-      )
-      .collect();
-
-    // Calculate trending score and sort
-    const trendingPosts: (Doc<"posts"> & { trendingScore: number })[] =
-      recentPosts
-        .map((post: Doc<"posts">) => ({
-          ...post,
-          trendingScore: post.viewCount + post.likeCount * 3,
-        }))
-        .sort(
-          (
-            a: Doc<"posts"> & { trendingScore: number },
-            b: Doc<"posts"> & { trendingScore: number }
-          ) => b.trendingScore - a.trendingScore
-        )
-        .slice(0, limit);
-
-    // Add author information
-    const postsWithAuthors: TrendingPost[] = await Promise.all(
-      trendingPosts.map(
-        async (
-          post: Doc<"posts"> & { trendingScore: number }
-        ): Promise<TrendingPost> => {
-          const author: Doc<"users"> | null = await ctx.db.get(post.authorId);
-          return {
-            ...post,
-            author: author
-              ? {
-                  _id: author._id,
-                  name: author.name,
-                  username: author.username,
-                  imageUrl: author.imageUrl,
-                }
-              : null,
-          };
-        }
-      )
-    );
-
-    return postsWithAuthors.filter(
-      (post: TrendingPost) => post.author !== null
-    );
-  },
-});
\ No newline at end of file
@@ -183,7 +183,9 @@ export const getMyFollowers = query({
           .filter((q) =>
             q.and(
               q.eq(q.field("authorId"), user._id),
-              q.eq(q.field("status"), "published")
+              q.eq(q.field("status"), "published"),
+              q.eq(q.field("deletedAt"), undefined),
+              q.neq(q.field("visibility"), "unlisted")
             )
           )
           .order("desc")
@@ -254,7 +256,9 @@ export const getMyFollowing = query({
           .filter((q) =>
             q.and(
               q.eq(q.field("authorId"), user._id),
-              q.eq(q.field("status"), "published")
+              q.eq(q.field("status"), "published"),
+              q.eq(q.field("deletedAt"), undefined),
+              q.neq(q.field("visibility"), "unlisted")
             )
           )
           .order("desc")
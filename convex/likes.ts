@@ -30,7 +30,7 @@ export const toggleLike = mutation({
   ): Promise<ToggleLikeResponse> => {
     const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
 
-    if (!post || post.status !== "published") {
+    if (!post || post.status !== "published" || post.deletedAt !== undefined) {
       throw new Error("Post not found or not published");
     }
 
@@ -1,29 +1,220 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { Id } from "./_generated/dataModel";
+import { ConvexError, v } from "convex/values";
+import {
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { deleteEditingSession } from "./collab";
+import { getPostRole } from "./collaborators";
+import { canViewFollowersOnly } from "./public";
+import { setPostPublication } from "./publications";
+import { recordRevision } from "./revisions";
+import {
+  assertCanPublish,
+  needsApproval,
+  requiresReview,
+  reviewRequestFields,
+} from "./reviews";
+import { setPostSeries } from "./series";
+import { syncPostTags } from "./tags";
+import { sanitizeHtml } from "../lib/sanitize-html";
+import { isSlugFromTitle, slugify } from "../lib/slug";
+import { getReadingStats } from "../lib/post-text";
+import { getSearchText } from "../lib/search";
+import { VERSION_CONFLICT } from "../lib/post-errors";
 
 // ✅ Type for update fields
 type PartialPostUpdate = {
   title?: string;
+  slug?: string;
   content?: string;
-  status?: "draft" | "published";
+  status?: "draft" | "in_review" | "published";
   tags?: string[];
   category?: string;
   featuredImage?: string;
+  wordCount?: number;
+  readingTime?: number;
+  searchText?: string;
+  visibility?: "public" | "unlisted" | "followers";
   scheduledFor?: number;
+  scheduledFunctionId?: Id<"_scheduled_functions">;
+  reviewDecision?: "approved" | "changes_requested";
+  reviewedBy?: Id<"users">;
+  reviewedAt?: number;
+  reviewRequestedAt?: number;
+  reviewRequired?: boolean;
   updatedAt?: number;
+  version?: number;
   publishedAt?: number;
 };
 
+// ✅ Trashed posts are purged for good after 30 days
+const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 100;
+
+// ✅ Replace a post's pending publish job (if any) with one at `scheduledFor`
+async function schedulePublication(
+  ctx: MutationCtx,
+  postId: Id<"posts">,
+  existingJobId: Id<"_scheduled_functions"> | undefined,
+  scheduledFor: number | undefined
+): Promise<Id<"_scheduled_functions"> | undefined> {
+  if (existingJobId) {
+    await ctx.scheduler.cancel(existingJobId);
+  }
+
+  if (scheduledFor === undefined) return undefined;
+
+  return await ctx.scheduler.runAt(
+    scheduledFor,
+    internal.posts.publishScheduled,
+    { id: postId }
+  );
+}
+
+// ✅ Check whether another of the author's posts already uses a slug - as its
+// current URL or as a retired one that still redirects to it
+async function isSlugTaken(
+  ctx: MutationCtx,
+  authorId: Id<"users">,
+  slug: string,
+  postId?: Id<"posts">
+): Promise<boolean> {
+  const existing = await ctx.db
+    .query("posts")
+    .withIndex("by_author_slug", q => q.eq("authorId", authorId).eq("slug", slug))
+    .first();
+  if (existing && existing._id !== postId) return true;
+
+  const redirect = await ctx.db
+    .query("postSlugRedirects")
+    .withIndex("by_author_slug", q => q.eq("authorId", authorId).eq("slug", slug))
+    .unique();
+
+  return !!redirect && redirect.postId !== postId;
+}
+
+// ✅ Find a free slug for the author, appending -2, -3... on collisions
+async function uniqueSlug(
+  ctx: MutationCtx,
+  authorId: Id<"users">,
+  base: string,
+  postId?: Id<"posts">
+): Promise<string> {
+  let candidate = base;
+  let suffix = 2;
+
+  while (await isSlugTaken(ctx, authorId, candidate, postId)) {
+    candidate = `${base}-${suffix++}`;
+  }
+
+  return candidate;
+}
+
+// ✅ Move a post to a new slug, keeping the old one as a redirect if it was ever public
+async function changeSlug(
+  ctx: MutationCtx,
+  post: Doc<"posts">,
+  slug: string
+): Promise<void> {
+  // Moving back to one of its own retired slugs - it's live again, not a redirect
+  const shadowed = await ctx.db
+    .query("postSlugRedirects")
+    .withIndex("by_author_slug", q =>
+      q.eq("authorId", post.authorId).eq("slug", slug)
+    )
+    .unique();
+  if (shadowed) await ctx.db.delete(shadowed._id);
+
+  if (post.slug && post.slug !== slug && post.publishedAt !== undefined) {
+    await ctx.db.insert("postSlugRedirects", {
+      authorId: post.authorId,
+      slug: post.slug,
+      postId: post._id,
+      createdAt: Date.now(),
+    });
+  }
+}
+
+// ✅ Hard-delete a post together with every row that references it
+async function purgePost(ctx: MutationCtx, postId: Id<"posts">): Promise<void> {
+  const post = await ctx.db.get(postId);
+  if (post) await setPostSeries(ctx, post, null);
+  await deleteEditingSession(ctx, postId);
+
+  const comments = await ctx.db
+    .query("comments")
+    .withIndex("by_post", q => q.eq("postId", postId))
+    .collect();
+  const likes = await ctx.db
+    .query("likes")
+    .withIndex("by_post", q => q.eq("postId", postId))
+    .collect();
+  const stats = await ctx.db
+    .query("dailyStats")
+    .withIndex("by_post", q => q.eq("postId", postId))
+    .collect();
+  const revisions = await ctx.db
+    .query("postRevisions")
+    .withIndex("by_post", q => q.eq("postId", postId))
+    .collect();
+  const redirects = await ctx.db
+    .query("postSlugRedirects")
+    .withIndex("by_post", q => q.eq("postId", postId))
+    .collect();
+  const previews = await ctx.db
+    .query("postPreviews")
+    .withIndex("by_post", q => q.eq("postId", postId))
+    .collect();
+  const collaborators = await ctx.db
+    .query("postCollaborators")
+    .withIndex("by_post", q => q.eq("postId", postId))
+    .collect();
+  const reviewNotes = await ctx.db
+    .query("reviewNotes")
+    .withIndex("by_post", q => q.eq("postId", postId))
+    .collect();
+  const trendingScores = await ctx.db
+    .query("trendingScores")
+    .withIndex("by_post", q => q.eq("postId", postId))
+    .collect();
+
+  for (const row of [
+    ...comments,
+    ...likes,
+    ...stats,
+    ...revisions,
+    ...redirects,
+    ...previews,
+    ...collaborators,
+    ...reviewNotes,
+    ...trendingScores,
+  ]) {
+    await ctx.db.delete(row._id);
+  }
+
+  await ctx.db.delete(postId);
+  await syncPostTags(ctx, postId);
+}
+
 // ✅ Create a new post
 export const create = mutation({
   args: {
     title: v.string(),
+    slug: v.optional(v.string()),
     content: v.string(),
     status: v.union(v.literal("draft"), v.literal("published")),
     tags: v.optional(v.array(v.string())),
     category: v.optional(v.string()),
     featuredImage: v.optional(v.string()),
+    visibility: v.optional(
+      v.union(v.literal("public"), v.literal("unlisted"), v.literal("followers"))
+    ),
+    seriesId: v.optional(v.union(v.id("series"), v.null())), // null leaves the series
+    publicationId: v.optional(v.union(v.id("publications"), v.null())), // null makes it personal
     scheduledFor: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
@@ -35,11 +226,19 @@ export const create = mutation({
       throw new Error("Title is required to create or save a post");
     }
 
-    // Validate content is required for published posts
-    if (args.status === "published" && (!args.content || args.content.trim() === "" || args.content === "<p><br></p>")) {
+    // ✅ Never store markup outside the editor's allowlist
+    const content = sanitizeHtml(args.content);
+
+    // Validate content is required for published or scheduled posts
+    const isScheduling = args.status === "draft" && args.scheduledFor !== undefined;
+    if ((args.status === "published" || isScheduling) && (!content || content.trim() === "" || content === "<p><br></p>")) {
       throw new Error("Content is required to publish a post");
     }
 
+    if (isScheduling && args.scheduledFor! <= Date.now()) {
+      throw new Error("Scheduled time must be in the future");
+    }
+
     const user = await ctx.db
       .query("users")
       .filter(q => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
@@ -47,65 +246,79 @@ export const create = mutation({
 
     if (!user) throw new Error("User not found");
 
-    const existingDraft = await ctx.db
-      .query("posts")
-      .filter(q =>
-        q.and(
-          q.eq(q.field("authorId"), user._id),
-          q.eq(q.field("status"), "draft")
-        )
-      )
-      .unique();
-
-    const now = Date.now();
-
-    // ✅ Publish existing draft
-    if (args.status === "published" && existingDraft) {
-      await ctx.db.patch(existingDraft._id, {
-        title: args.title,
-        content: args.content,
-        status: "published",
-        tags: args.tags || [],
-        category: args.category,
-        featuredImage: args.featuredImage,
-        updatedAt: now,
-        publishedAt: now,
-        scheduledFor: args.scheduledFor,
-      });
-      return existingDraft._id;
+    // ✅ A brand-new post can't have been approved yet
+    if ((args.status === "published" || isScheduling) && (await requiresReview(ctx, user._id))) {
+      throw new Error("This post needs a reviewer's approval before publishing");
     }
 
-    // ✅ Update existing draft
-    if (args.status === "draft" && existingDraft) {
-      await ctx.db.patch(existingDraft._id, {
-        title: args.title,
-        content: args.content,
-        tags: args.tags || [],
-        category: args.category,
-        featuredImage: args.featuredImage,
-        updatedAt: now,
-        scheduledFor: args.scheduledFor,
-      });
-      return existingDraft._id;
+    // ✅ Custom slug if given, otherwise one derived from the title
+    let slug: string;
+    if (args.slug && args.slug.trim()) {
+      slug = slugify(args.slug);
+      if (await isSlugTaken(ctx, user._id, slug)) {
+        throw new Error("You already have a post with this URL slug");
+      }
+    } else {
+      slug = await uniqueSlug(ctx, user._id, slugify(args.title));
     }
 
-    // ✅ Create new post
+    const now = Date.now();
+
+    // ✅ Create new post - every editor session gets its own draft
     const postId = await ctx.db.insert("posts", {
       title: args.title,
-      content: args.content,
+      slug,
+      content,
+      ...getReadingStats(content),
+      searchText: getSearchText({
+        title: args.title,
+        content,
+        tags: args.tags || [],
+        category: args.category,
+      }),
       status: args.status,
       authorId: user._id,
       tags: args.tags || [],
       category: args.category,
       featuredImage: args.featuredImage,
+      visibility: args.visibility ?? "public",
       createdAt: now,
       updatedAt: now,
       publishedAt: args.status === "published" ? now : undefined,
-      scheduledFor: args.scheduledFor,
+      scheduledFor: isScheduling ? args.scheduledFor : undefined,
       viewCount: 0,
       likeCount: 0,
     });
 
+    if (isScheduling) {
+      await ctx.db.patch(postId, {
+        scheduledFunctionId: await schedulePublication(
+          ctx,
+          postId,
+          undefined,
+          args.scheduledFor
+        ),
+      });
+    }
+
+    if (args.seriesId) {
+      await setPostSeries(ctx, (await ctx.db.get(postId))!, args.seriesId);
+    }
+
+    if (args.publicationId) {
+      await setPostPublication(ctx, (await ctx.db.get(postId))!, args.publicationId, user._id);
+    }
+
+    await syncPostTags(ctx, postId);
+
+    await recordRevision(ctx, {
+      postId,
+      editorId: user._id,
+      title: args.title,
+      content,
+      source: args.status === "published" ? "publish" : "save",
+    });
+
     return postId;
   },
 });
@@ -115,12 +328,19 @@ export const update = mutation({
   args: {
     id: v.id("posts"),
     title: v.optional(v.string()),
+    slug: v.optional(v.string()), // Empty string regenerates it from the title
     content: v.optional(v.string()),
     status: v.optional(v.union(v.literal("draft"), v.literal("published"))),
     tags: v.optional(v.array(v.string())),
     category: v.optional(v.string()),
     featuredImage: v.optional(v.string()),
+    visibility: v.optional(
+      v.union(v.literal("public"), v.literal("unlisted"), v.literal("followers"))
+    ),
+    seriesId: v.optional(v.union(v.id("series"), v.null())), // null leaves the series
+    publicationId: v.optional(v.union(v.id("publications"), v.null())), // null makes it personal
     scheduledFor: v.optional(v.number()),
+    expectedVersion: v.optional(v.number()), // Version the editor last loaded or saved
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -136,79 +356,450 @@ export const update = mutation({
     const post = await ctx.db.get(args.id);
     if (!post) throw new Error("Post not found");
 
-    if (post.authorId !== user._id) throw new Error("Not authorized");
+    // ✅ Never let a stale editor overwrite a save it hasn't seen
+    const currentVersion = post.version ?? 0;
+    if (args.expectedVersion !== undefined && args.expectedVersion !== currentVersion) {
+      throw new ConvexError(VERSION_CONFLICT);
+    }
+
+    // ✅ Owners and editors share editing; publishing and post settings stay with owners
+    const role = await getPostRole(ctx, post, user._id);
+    if (!role) throw new Error("Not authorized");
+
+    // ✅ Saving a post that's in review keeps it in the queue
+    const requestedStatus =
+      args.status === "draft" && post.status === "in_review" ? undefined : args.status;
+
+    if (role === "editor") {
+      const changesSettings =
+        (requestedStatus !== undefined && requestedStatus !== post.status) ||
+        args.scheduledFor !== undefined ||
+        (args.slug !== undefined && args.slug !== (post.slug ?? "")) ||
+        (args.visibility !== undefined && args.visibility !== (post.visibility ?? "public")) ||
+        (args.seriesId !== undefined && args.seriesId !== (post.seriesId ?? null)) ||
+        (args.publicationId !== undefined && args.publicationId !== (post.publicationId ?? null));
+      if (changesSettings) {
+        throw new Error("Only the post's owners can publish or change its settings");
+      }
+    }
+
+    // Series belong to the original author
+    if (
+      args.seriesId !== undefined &&
+      args.seriesId !== (post.seriesId ?? null) &&
+      post.authorId !== user._id
+    ) {
+      throw new Error("Only the post's author can add it to a series");
+    }
+
+    if (post.deletedAt !== undefined) {
+      throw new Error("Restore this post from the trash before editing it");
+    }
 
     // Validate title if provided
     if (args.title !== undefined && (!args.title || args.title.trim().length === 0)) {
       throw new Error("Title cannot be empty");
     }
 
-    // Validate content for published posts
-    const newStatus = args.status || post.status;
-    const newContent = args.content !== undefined ? args.content : post.content;
-    if (newStatus === "published" && (!newContent || newContent.trim() === "" || newContent === "<p><br></p>")) {
+    // Validate content for published or scheduled posts
+    const newStatus = requestedStatus || post.status;
+    const content = args.content !== undefined ? sanitizeHtml(args.content) : undefined;
+    const newContent = content !== undefined ? content : post.content;
+    const isScheduling = newStatus === "draft" && args.scheduledFor !== undefined;
+    if ((newStatus === "published" || isScheduling) && (!newContent || newContent.trim() === "" || newContent === "<p><br></p>")) {
       throw new Error("Content is required to publish a post");
     }
 
+    if (isScheduling && args.scheduledFor! <= Date.now()) {
+      throw new Error("Scheduled time must be in the future");
+    }
+
+    // ✅ Going live needs an approved review when the author has reviewers
+    const isPublishing = newStatus === "published" && post.status !== "published";
+    if (isPublishing || isScheduling) await assertCanPublish(ctx, post);
+
     const now = Date.now();
 
     const updateData: PartialPostUpdate = {
       updatedAt: now,
+      version: currentVersion + 1,
     };
 
+    const changesText =
+      (args.title !== undefined && args.title !== post.title) ||
+      (content !== undefined && content !== post.content);
+
+    // ✅ Rewriting an approved, unpublished post sends it back for another review
+    if (post.reviewDecision === "approved" && post.status !== "published" && changesText) {
+      if (isPublishing || isScheduling) {
+        throw new Error("This post changed since it was approved - submit it for review again");
+      }
+      updateData.reviewDecision = undefined;
+    }
+
     // ✅ Add provided fields
     if (args.title !== undefined) updateData.title = args.title;
-    if (args.content !== undefined) updateData.content = args.content;
+    if (content !== undefined) {
+      const { wordCount, readingTime } = getReadingStats(content);
+      updateData.content = content;
+      updateData.wordCount = wordCount;
+      updateData.readingTime = readingTime;
+    }
     if (args.tags !== undefined) updateData.tags = args.tags;
     if (args.category !== undefined) updateData.category = args.category;
     if (args.featuredImage !== undefined)
       updateData.featuredImage = args.featuredImage;
-    if (args.scheduledFor !== undefined)
+    if (args.visibility !== undefined) updateData.visibility = args.visibility;
+
+    // ✅ Keep the search index in step with anything it covers
+    if (
+      args.title !== undefined ||
+      content !== undefined ||
+      args.tags !== undefined ||
+      args.category !== undefined
+    ) {
+      updateData.searchText = getSearchText({
+        title: args.title ?? post.title,
+        content: content ?? post.content,
+        tags: args.tags ?? post.tags,
+        category: args.category ?? post.category,
+      });
+    }
+
+    // ✅ Work out the slug - explicit, regenerated, or following the title of an unpublished post
+    let nextSlug: string | undefined;
+    if (args.slug !== undefined && args.slug.trim()) {
+      nextSlug = slugify(args.slug);
+      if (await isSlugTaken(ctx, post.authorId, nextSlug, post._id)) {
+        throw new Error("You already have a post with this URL slug");
+      }
+    } else if (
+      args.slug !== undefined ||
+      !post.slug ||
+      (post.publishedAt === undefined &&
+        args.title !== undefined &&
+        isSlugFromTitle(post.slug, post.title))
+    ) {
+      nextSlug = await uniqueSlug(
+        ctx,
+        post.authorId,
+        slugify(args.title ?? post.title),
+        post._id
+      );
+    }
+
+    if (nextSlug !== undefined && nextSlug !== post.slug) {
+      await changeSlug(ctx, post, nextSlug);
+      updateData.slug = nextSlug;
+    }
+
+    // ✅ Schedule or reschedule publication
+    if (isScheduling) {
       updateData.scheduledFor = args.scheduledFor;
+      updateData.scheduledFunctionId = await schedulePublication(
+        ctx,
+        args.id,
+        post.scheduledFunctionId,
+        args.scheduledFor
+      );
+    }
 
     // ✅ Handle status change
-    if (args.status !== undefined) {
-      updateData.status = args.status;
+    if (requestedStatus !== undefined) {
+      updateData.status = requestedStatus;
 
-      if (args.status === "published" && post.status === "draft") {
+      if (isPublishing) {
         updateData.publishedAt = now;
+
+        // Publishing now supersedes any pending schedule
+        if (post.scheduledFor !== undefined) {
+          await schedulePublication(ctx, args.id, post.scheduledFunctionId, undefined);
+          updateData.scheduledFor = undefined;
+          updateData.scheduledFunctionId = undefined;
+        }
       }
     }
 
+    // ✅ A live post that needs approval can't take new text unreviewed - it
+    // comes down and goes back to the reviewers until they approve the rewrite
+    if (
+      changesText &&
+      post.status === "published" &&
+      newStatus === "published" &&
+      (await needsApproval(ctx, post))
+    ) {
+      Object.assign(updateData, reviewRequestFields(now));
+    }
+
+    // ✅ Join, switch or leave a series
+    if (args.seriesId !== undefined) {
+      await setPostSeries(ctx, post, args.seriesId);
+    }
+
+    // ✅ Move into, between or out of publications
+    if (args.publicationId !== undefined) {
+      await setPostPublication(ctx, post, args.publicationId, user._id);
+    }
+
     await ctx.db.patch(args.id, updateData);
+    await syncPostTags(ctx, args.id);
+
+    // ✅ Keep a snapshot of what was saved
+    await recordRevision(ctx, {
+      postId: args.id,
+      editorId: user._id,
+      title: updateData.title ?? post.title,
+      content: updateData.content ?? post.content,
+      source: updateData.publishedAt !== undefined ? "publish" : "save",
+    });
+
     return args.id;
   },
 });
 
-// ✅ Get single user's draft
-export const getUserDraft = query({
+// ✅ Duplicate a post into a fresh draft owned by the caller
+export const duplicate = mutation({
+  args: { id: v.id("posts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .filter(q => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const post = await ctx.db.get(args.id);
+    if (!post) throw new Error("Post not found");
+
+    if (post.authorId !== user._id) throw new Error("Not authorized");
+
+    const title = `Copy of ${post.title}`.slice(0, 200);
+    const now = Date.now();
+
+    // Counters, publish/schedule state and timestamps start over
+    const postId = await ctx.db.insert("posts", {
+      title,
+      slug: await uniqueSlug(ctx, user._id, slugify(title)),
+      content: post.content,
+      wordCount: post.wordCount,
+      readingTime: post.readingTime,
+      searchText: getSearchText({ ...post, title }),
+      status: "draft",
+      authorId: user._id,
+      tags: [...post.tags],
+      category: post.category,
+      featuredImage: post.featuredImage,
+      visibility: post.visibility,
+      createdAt: now,
+      updatedAt: now,
+      viewCount: 0,
+      likeCount: 0,
+    });
+
+    await recordRevision(ctx, {
+      postId,
+      editorId: user._id,
+      title,
+      content: post.content,
+      source: "save",
+      note: "Duplicated from another post",
+    });
+
+    return postId;
+  },
+});
+
+// ✅ Import a post from another platform, keeping its original dates
+export const importPost = mutation({
+  args: {
+    title: v.string(),
+    content: v.string(),
+    status: v.union(v.literal("draft"), v.literal("published")),
+    tags: v.array(v.string()),
+    category: v.optional(v.string()),
+    featuredImage: v.optional(v.string()),
+    createdAt: v.optional(v.number()),
+    publishedAt: v.optional(v.number()),
+    source: v.string(), // Where it came from, e.g. "WordPress"
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+
+    if (!args.title || args.title.trim().length === 0) {
+      throw new Error("Title is required to create or save a post");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .filter(q => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    // ✅ Authors with reviewers get imports as drafts to put through review
+    const status =
+      args.status === "published" && (await requiresReview(ctx, user._id))
+        ? "draft"
+        : args.status;
+
+    const content = sanitizeHtml(args.content);
+    const now = Date.now();
+    const publishedAt =
+      status === "published" ? args.publishedAt ?? now : undefined;
+
+    const postId = await ctx.db.insert("posts", {
+      title: args.title.trim(),
+      slug: await uniqueSlug(ctx, user._id, slugify(args.title)),
+      content,
+      ...getReadingStats(content),
+      searchText: getSearchText({
+        title: args.title.trim(),
+        content,
+        tags: args.tags,
+        category: args.category,
+      }),
+      status,
+      authorId: user._id,
+      tags: args.tags,
+      category: args.category,
+      featuredImage: args.featuredImage,
+      visibility: "public",
+      createdAt: args.createdAt ?? publishedAt ?? now,
+      updatedAt: now,
+      publishedAt,
+      viewCount: 0,
+      likeCount: 0,
+    });
+    await syncPostTags(ctx, postId);
+
+    await recordRevision(ctx, {
+      postId,
+      editorId: user._id,
+      title: args.title.trim(),
+      content,
+      source: "save",
+      note: `Imported from ${args.source}`,
+    });
+
+    return postId;
+  },
+});
+
+// ✅ Cancel a post's scheduled publication (keeps it as a draft)
+export const cancelSchedule = mutation({
+  args: { id: v.id("posts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .filter(q => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const post = await ctx.db.get(args.id);
+    if (!post) throw new Error("Post not found");
+
+    if ((await getPostRole(ctx, post, user._id)) !== "owner") throw new Error("Not authorized");
+
+    if (post.status !== "draft" || post.scheduledFor === undefined) {
+      throw new Error("Post is not scheduled");
+    }
+
+    await schedulePublication(ctx, args.id, post.scheduledFunctionId, undefined);
+    await ctx.db.patch(args.id, {
+      scheduledFor: undefined,
+      scheduledFunctionId: undefined,
+      updatedAt: Date.now(),
+    });
+
+    return args.id;
+  },
+});
+
+// ✅ Publish a scheduled draft once its time arrives (run by the scheduler)
+export const publishScheduled = internalMutation({
+  args: { id: v.id("posts") },
+  handler: async (ctx, args) => {
+    const post = await ctx.db.get(args.id);
+
+    // Skip posts that were deleted, published manually or unscheduled
+    if (
+      !post ||
+      post.deletedAt !== undefined ||
+      post.status !== "draft" ||
+      post.scheduledFor === undefined
+    ) {
+      return;
+    }
+
+    // Stale job for a post that was rescheduled to a later time
+    if (post.scheduledFor > Date.now()) return;
+
+    // Lost its approval since it was scheduled - leave it as a draft
+    if (post.reviewDecision !== "approved" && (await needsApproval(ctx, post))) {
+      await ctx.db.patch(args.id, {
+        scheduledFor: undefined,
+        scheduledFunctionId: undefined,
+      });
+      return;
+    }
+
+    await ctx.db.patch(args.id, {
+      status: "published",
+      publishedAt: post.scheduledFor,
+      updatedAt: Date.now(),
+      scheduledFunctionId: undefined,
+    });
+    await syncPostTags(ctx, args.id);
+
+    await recordRevision(ctx, {
+      postId: args.id,
+      editorId: post.authorId,
+      title: post.title,
+      content: post.content,
+      source: "publish",
+    });
+  },
+});
+
+// ✅ Get all of the user's drafts, most recently edited first
+export const getUserDrafts = query({
   handler: async (ctx) => {
     const identity = await ctx.auth.getUserIdentity();
-    if (!identity) return null;
+    if (!identity) return [];
 
     const user = await ctx.db
       .query("users")
       .filter(q => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
       .unique();
 
-    if (!user) return null;
+    if (!user) return [];
 
-    return await ctx.db
+    const drafts = await ctx.db
       .query("posts")
-      .filter(q =>
-        q.and(
-          q.eq(q.field("authorId"), user._id),
-          q.eq(q.field("status"), "draft")
-        )
+      .withIndex("by_author_status", q =>
+        q.eq("authorId", user._id).eq("status", "draft")
       )
-      .unique();
+      .filter(q => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+
+    return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
   },
 });
 
 // ✅ Get user's posts
 export const getUserPosts = query({
   args: {
-    status: v.optional(v.union(v.literal("draft"), v.literal("published"))),
+    status: v.optional(
+      v.union(v.literal("draft"), v.literal("in_review"), v.literal("published"))
+    ),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -223,7 +814,8 @@ export const getUserPosts = query({
 
     let q = ctx.db
       .query("posts")
-      .filter(q => q.eq(q.field("authorId"), user._id));
+      .filter(q => q.eq(q.field("authorId"), user._id))
+      .filter(q => q.eq(q.field("deletedAt"), undefined));
 
     if (args.status) {
       q = q.filter(q => q.eq(q.field("status"), args.status));
@@ -231,22 +823,69 @@ export const getUserPosts = query({
 
     const posts = await q.order("desc").collect();
 
-    return posts.map(post => ({
-      ...post,
-      username: user.username,
-    }));
+    // ✅ Posts shared with the user as a co-author, linked under the original author
+    const collaborations = await ctx.db
+      .query("postCollaborators")
+      .withIndex("by_user_status", q =>
+        q.eq("userId", user._id).eq("status", "accepted")
+      )
+      .collect();
+
+    const shared = [];
+    for (const collaboration of collaborations) {
+      const post = await ctx.db.get(collaboration.postId);
+      if (!post || post.deletedAt !== undefined) continue;
+      if (args.status && post.status !== args.status) continue;
+
+      const author = await ctx.db.get(post.authorId);
+      shared.push({
+        ...post,
+        username: author?.username,
+        role: collaboration.role,
+        shared: true,
+      });
+    }
+
+    return [
+      ...posts.map(post => ({
+        ...post,
+        username: user.username,
+        role: "owner" as const,
+        shared: false,
+      })),
+      ...shared,
+    ].sort((a, b) => b._creationTime - a._creationTime);
   },
 });
 
-// ✅ Get post by ID
+// ✅ Get post by ID - in full for its author and collaborators, otherwise
+// only if it's published and the viewer may read it
 export const getById = query({
   args: { id: v.id("posts") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const post = await ctx.db.get(args.id);
+    if (!post || post.deletedAt !== undefined) return null;
+
+    const identity = await ctx.auth.getUserIdentity();
+    const user = identity
+      ? await ctx.db
+          .query("users")
+          .filter(q => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+          .unique()
+      : null;
+
+    if (user && (await getPostRole(ctx, post, user._id)) !== null) return post;
+
+    if (post.status !== "published") return null;
+    if (post.visibility === "followers" && !(await canViewFollowersOnly(ctx, post.authorId))) {
+      return null;
+    }
+
+    return post;
   },
 });
 
-// ✅ Delete post
+// ✅ Move post to the trash (restorable until it is purged)
 export const deletePost = mutation({
   args: { id: v.id("posts") },
   handler: async (ctx, args) => {
@@ -265,7 +904,123 @@ export const deletePost = mutation({
 
     if (post.authorId !== user._id) throw new Error("Not authorized");
 
-    await ctx.db.delete(args.id);
+    if (post.deletedAt !== undefined) return { success: true };
+
+    // A trashed post must never go live, so drop any pending publish job
+    await schedulePublication(ctx, post._id, post.scheduledFunctionId, undefined);
+
+    await ctx.db.patch(args.id, {
+      deletedAt: Date.now(),
+      scheduledFor: undefined,
+      scheduledFunctionId: undefined,
+    });
+    await syncPostTags(ctx, args.id);
+    return { success: true };
+  },
+});
+
+// ✅ Restore a post from the trash
+export const restoreFromTrash = mutation({
+  args: { id: v.id("posts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .filter(q => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const post = await ctx.db.get(args.id);
+    if (!post) throw new Error("Post not found");
+
+    if (post.authorId !== user._id) throw new Error("Not authorized");
+
+    if (post.deletedAt === undefined) throw new Error("Post is not in the trash");
+
+    await ctx.db.patch(args.id, { deletedAt: undefined });
+    await syncPostTags(ctx, args.id);
+    return { success: true };
+  },
+});
+
+// ✅ Permanently delete a trashed post
+export const deleteForever = mutation({
+  args: { id: v.id("posts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .filter(q => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const post = await ctx.db.get(args.id);
+    if (!post) throw new Error("Post not found");
+
+    if (post.authorId !== user._id) throw new Error("Not authorized");
+
+    if (post.deletedAt === undefined) {
+      throw new Error("Move the post to the trash before deleting it forever");
+    }
+
+    await purgePost(ctx, post._id);
     return { success: true };
   },
 });
+
+// ✅ Get the user's trashed posts, most recently deleted first
+export const getTrashedPosts = query({
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return [];
+
+    const user = await ctx.db
+      .query("users")
+      .filter(q => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+      .unique();
+
+    if (!user) return [];
+
+    const posts = await ctx.db
+      .query("posts")
+      .withIndex("by_author", q => q.eq("authorId", user._id))
+      .filter(q => q.neq(q.field("deletedAt"), undefined))
+      .collect();
+
+    return posts
+      .map(post => ({
+        ...post,
+        purgeAt: post.deletedAt! + TRASH_RETENTION_MS,
+      }))
+      .sort((a, b) => b.deletedAt! - a.deletedAt!);
+  },
+});
+
+// ✅ Permanently delete posts that have been in the trash past the retention window (cron)
+export const purgeTrash = internalMutation({
+  handler: async (ctx) => {
+    const cutoff = Date.now() - TRASH_RETENTION_MS;
+
+    const expired = await ctx.db
+      .query("posts")
+      .withIndex("by_deleted", q => q.gt("deletedAt", 0).lte("deletedAt", cutoff))
+      .take(PURGE_BATCH_SIZE);
+
+    for (const post of expired) {
+      await purgePost(ctx, post._id);
+    }
+
+    // Keep going in fresh transactions until the backlog is cleared
+    if (expired.length === PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.posts.purgeTrash, {});
+    }
+
+    return { purged: expired.length };
+  },
+});
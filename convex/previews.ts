@@ -0,0 +1,201 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id, Doc } from "./_generated/dataModel";
+import { getCoAuthors, getPostRole } from "./collaborators";
+
+// Type definitions
+type PreviewLink = {
+  token: string;
+  expiresAt: number;
+};
+
+type PreviewPost = Doc<"posts"> & {
+  author: {
+    _id: Id<"users">;
+    name: string;
+    username?: string;
+    imageUrl?: string;
+  };
+  coAuthors: {
+    _id: Id<"users">;
+    name: string;
+    username?: string;
+    imageUrl?: string;
+  }[];
+  previewExpiresAt: number;
+};
+
+type RevokePreviewLinksResponse = {
+  revoked: number;
+};
+
+const PREVIEW_LINK_TTL_MS: number = 7 * 24 * 60 * 60 * 1000;
+
+// Links about to lapse are replaced rather than handed out again
+const PREVIEW_LINK_MIN_REMAINING_MS: number = 24 * 60 * 60 * 1000;
+
+// Get a shareable preview link for a post, reusing a live one when possible
+export const getOrCreatePreviewLink = mutation({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args): Promise<PreviewLink> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user: Doc<"users"> | null = await ctx.db
+      .query("users")
+      .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post || post.deletedAt !== undefined) {
+      throw new Error("Post not found");
+    }
+
+    if (!(await getPostRole(ctx, post, user._id))) {
+      throw new Error("Not authorized");
+    }
+
+    const now: number = Date.now();
+
+    const existing: Doc<"postPreviews">[] = await ctx.db
+      .query("postPreviews")
+      .withIndex("by_post", (q) => q.eq("postId", args.postId))
+      .collect();
+
+    const live: Doc<"postPreviews"> | undefined = existing.find(
+      (preview: Doc<"postPreviews">) =>
+        preview.revokedAt === undefined &&
+        preview.expiresAt - now > PREVIEW_LINK_MIN_REMAINING_MS
+    );
+
+    if (live) {
+      return { token: live.token, expiresAt: live.expiresAt };
+    }
+
+    const token: string = crypto.randomUUID().replace(/-/g, "");
+    const expiresAt: number = now + PREVIEW_LINK_TTL_MS;
+
+    const previewId: Id<"postPreviews"> = await ctx.db.insert("postPreviews", {
+      postId: args.postId,
+      authorId: user._id,
+      token,
+      expiresAt,
+      createdAt: now,
+    });
+
+    // Queries can't watch the clock, so expiry is written down when it comes
+    await ctx.scheduler.runAt(expiresAt, internal.previews.expirePreviewLink, {
+      previewId,
+    });
+
+    return { token, expiresAt };
+  },
+});
+
+// Revoke every outstanding preview link for a post
+export const revokePreviewLinks = mutation({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args): Promise<RevokePreviewLinksResponse> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user: Doc<"users"> | null = await ctx.db
+      .query("users")
+      .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    if (!(await getPostRole(ctx, post, user._id))) {
+      throw new Error("Not authorized");
+    }
+
+    const now: number = Date.now();
+
+    const previews: Doc<"postPreviews">[] = await ctx.db
+      .query("postPreviews")
+      .withIndex("by_post", (q) => q.eq("postId", args.postId))
+      .collect();
+
+    let revoked: number = 0;
+    for (const preview of previews) {
+      if (preview.revokedAt === undefined && preview.expiresAt > now) {
+        await ctx.db.patch(preview._id, { revokedAt: now });
+        revoked++;
+      }
+    }
+
+    return { revoked };
+  },
+});
+
+// Mark a preview link expired, so open previews stop showing the post
+export const expirePreviewLink = internalMutation({
+  args: { previewId: v.id("postPreviews") },
+  handler: async (ctx, args) => {
+    const preview: Doc<"postPreviews"> | null = await ctx.db.get(args.previewId);
+    if (preview && preview.expiredAt === undefined) {
+      await ctx.db.patch(preview._id, { expiredAt: Date.now() });
+    }
+  },
+});
+
+// Get the post behind a preview link (no auth - the token is the credential)
+export const getPreviewPost = query({
+  args: { token: v.string() },
+  handler: async (ctx, args): Promise<PreviewPost | null> => {
+    const preview: Doc<"postPreviews"> | null = await ctx.db
+      .query("postPreviews")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .unique();
+
+    // expiredAt is what ends an open preview; the clock check only covers
+    // links made before expiry was scheduled, when a preview is opened
+    if (
+      !preview ||
+      preview.revokedAt !== undefined ||
+      preview.expiredAt !== undefined ||
+      preview.expiresAt <= Date.now()
+    ) {
+      return null;
+    }
+
+    const post: Doc<"posts"> | null = await ctx.db.get(preview.postId);
+    if (!post || post.deletedAt !== undefined) {
+      return null;
+    }
+
+    const author: Doc<"users"> | null = await ctx.db.get(post.authorId);
+    if (!author) {
+      return null;
+    }
+
+    return {
+      ...post,
+      author: {
+        _id: author._id,
+        name: author.name,
+        username: author.username,
+        imageUrl: author.imageUrl,
+      },
+      coAuthors: await getCoAuthors(ctx, post._id),
+      previewExpiresAt: preview.expiresAt,
+    };
+  },
+});
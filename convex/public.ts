@@ -1,6 +1,8 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { paginationOptsValidator, type PaginationResult } from "convex/server";
+import { mutation, query, type QueryCtx } from "./_generated/server";
 import { Id, Doc } from "./_generated/dataModel";
+import { getCoAuthors } from "./collaborators";
 
 // Type definitions
 type AuthorInfo = {
@@ -12,81 +14,213 @@ type AuthorInfo = {
 
 type PostWithAuthor = Doc<"posts"> & {
   author: AuthorInfo;
+  coAuthors: AuthorInfo[];
 };
 
-type PostsResponse = {
-  posts: PostWithAuthor[];
-  hasMore: boolean;
-  nextCursor: Id<"posts"> | null;
+type ProfileStats = {
+  postCount: number;
+  totalViews: number;
+  totalLikes: number;
 };
 
-type PostResponse = PostWithAuthor | null;
+type PostResponse = (PostWithAuthor & {
+  publication: { name: string; slug: string } | null;
+}) | null;
 
 type IncrementViewCountResponse = {
   success: boolean;
 };
 
-// Get published posts by username (for public profile)
+// Whether the signed-in viewer may read this author's followers-only posts
+export async function canViewFollowersOnly(
+  ctx: QueryCtx,
+  authorId: Id<"users">
+): Promise<boolean> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return false;
+  }
+
+  const viewer = await ctx.db
+    .query("users")
+    .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+    .unique();
+
+  if (!viewer) {
+    return false;
+  }
+
+  if (viewer._id === authorId) {
+    return true;
+  }
+
+  const follow = await ctx.db
+    .query("follows")
+    .withIndex("by_relationship", (q) =>
+      q.eq("followerId", viewer._id).eq("followingId", authorId)
+    )
+    .unique();
+
+  return !!follow;
+}
+
+// Which published posts a profile lists, under its visibility rules for the current viewer
+async function getProfileAccess(
+  ctx: QueryCtx,
+  user: Doc<"users">
+): Promise<(post: Doc<"posts">) => boolean> {
+  // Unlisted posts never appear on the profile; followers-only ones only for followers
+  const showFollowersOnly = await canViewFollowersOnly(ctx, user._id);
+
+  return (post: Doc<"posts">): boolean =>
+    post.status === "published" &&
+    post.deletedAt === undefined &&
+    post.visibility !== "unlisted" &&
+    (post.visibility !== "followers" || showFollowersOnly);
+}
+
+// Posts the user co-wrote that the profile lists alongside their own
+async function getCoAuthoredPosts(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  isListed: (post: Doc<"posts">) => boolean
+): Promise<Doc<"posts">[]> {
+  const collaborations: Doc<"postCollaborators">[] = await ctx.db
+    .query("postCollaborators")
+    .withIndex("by_user_status", (q) =>
+      q.eq("userId", user._id).eq("status", "accepted")
+    )
+    .collect();
+
+  return (
+    await Promise.all(collaborations.map((row) => ctx.db.get(row.postId)))
+  ).filter((post): post is Doc<"posts"> => !!post && isListed(post));
+}
+
+// Get published posts by username (for public profile), newest first
 export const getPublishedPostsByUsername = query({
   args: {
     username: v.string(),
-    limit: v.optional(v.number()),
-    cursor: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
   },
-  handler: async (ctx, args): Promise<PostsResponse> => {
+  handler: async (ctx, args): Promise<PaginationResult<PostWithAuthor>> => {
     // First get the user by username
     const user = await ctx.db
       .query("users")
-      .filter((q) => q.eq(q.field("username"), args.username))
+      .withIndex("by_username", (q) => q.eq("username", args.username))
       .unique();
 
     if (!user) {
-      return { posts: [], hasMore: false, nextCursor: null };
+      return { page: [], isDone: true, continueCursor: "" };
     }
 
-    // Get published posts by this user
-    let query = ctx.db
+    const isListed = await getProfileAccess(ctx, user);
+
+    // Get a page of the user's own published posts
+    const result = await ctx.db
       .query("posts")
-      .filter((q) =>
-        q.and(
-          q.eq(q.field("authorId"), user._id),
-          q.eq(q.field("status"), "published")
-        )
+      .withIndex("by_author_status", (q) =>
+        q.eq("authorId", user._id).eq("status", "published")
       )
-      .order("desc");
+      .order("desc")
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .paginate(args.paginationOpts);
+    const ownPosts = result.page.filter(isListed);
 
-    const limit = args.limit || 10;
-    const posts = await query.take(limit + 1);
+    // Co-written posts go on the page covering their creation time: newer than
+    // this page's last own post (unless it's the last page), and older than the
+    // previous page's last one - the oldest own post newer than this page
+    const firstOnPage = result.page[0];
+    const previousPageLast = args.paginationOpts.cursor
+      ? await ctx.db
+          .query("posts")
+          .withIndex("by_author_status", (q) =>
+            firstOnPage
+              ? q
+                  .eq("authorId", user._id)
+                  .eq("status", "published")
+                  .gt("_creationTime", firstOnPage._creationTime)
+              : q.eq("authorId", user._id).eq("status", "published")
+          )
+          .filter((q) => q.eq(q.field("deletedAt"), undefined))
+          .first()
+      : null;
+    const newerThan: number = result.isDone
+      ? -Infinity
+      : result.page[result.page.length - 1]?._creationTime ?? Infinity;
+    const olderThan: number = previousPageLast?._creationTime ?? Infinity;
 
-    const hasMore = posts.length > limit;
-    const finalPosts = hasMore ? posts.slice(0, limit) : posts;
+    const coAuthoredPosts = (
+      await getCoAuthoredPosts(ctx, user, isListed)
+    ).filter(
+      (post) => post._creationTime > newerThan && post._creationTime < olderThan
+    );
+
+    const posts = [...ownPosts, ...coAuthoredPosts].sort(
+      (a, b) => b._creationTime - a._creationTime
+    );
 
-    // Add author info to each post
+    // Add author and co-author info to each post
     const postsWithAuthor: PostWithAuthor[] = await Promise.all(
-      finalPosts.map(async (post): Promise<PostWithAuthor> => ({
-        ...post,
-        author: {
-          _id: user._id,
-          name: user.name,
-          username: user.username,
-          imageUrl: user.imageUrl,
-        },
-      }))
+      posts.map(async (post): Promise<PostWithAuthor> => {
+        const author =
+          post.authorId === user._id ? user : await ctx.db.get(post.authorId);
+        return {
+          ...post,
+          author: {
+            _id: post.authorId,
+            name: author?.name ?? "Unknown",
+            username: author?.username,
+            imageUrl: author?.imageUrl,
+          },
+          coAuthors: await getCoAuthors(ctx, post._id),
+        };
+      })
     );
 
+    return { ...result, page: postsWithAuthor };
+  },
+});
+
+// Totals across every post a profile lists, for its stats bar
+export const getProfileStats = query({
+  args: { username: v.string() },
+  handler: async (ctx, args): Promise<ProfileStats | null> => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_username", (q) => q.eq("username", args.username))
+      .unique();
+
+    if (!user) {
+      return null;
+    }
+
+    const isListed = await getProfileAccess(ctx, user);
+    const ownPosts = await ctx.db
+      .query("posts")
+      .withIndex("by_author_status", (q) =>
+        q.eq("authorId", user._id).eq("status", "published")
+      )
+      .collect();
+
+    const posts = [
+      ...ownPosts.filter(isListed),
+      ...(await getCoAuthoredPosts(ctx, user, isListed)),
+    ];
+
     return {
-      posts: postsWithAuthor,
-      hasMore,
-      nextCursor: hasMore ? finalPosts[finalPosts.length - 1]._id : null,
+      postCount: posts.length,
+      totalViews: posts.reduce((total, post) => total + post.viewCount, 0),
+      totalLikes: posts.reduce((total, post) => total + post.likeCount, 0),
     };
   },
 });
 
-// Get a single published post by username and post ID
+// Get a single published post by username and slug (or post ID)
 export const getPublishedPost = query({
   args: {
     username: v.string(),
-    postId: v.id("posts"),
+    slugOrId: v.string(),
   },
   handler: async (ctx, args): Promise<PostResponse> => {
     // Get the user by username
@@ -99,20 +233,61 @@ export const getPublishedPost = query({
       return null;
     }
 
-    // Get the post
-    const post = await ctx.db.get(args.postId);
+    // Resolve the post: current slug, then raw post ID, then a retired slug
+    let post: Doc<"posts"> | null = await ctx.db
+      .query("posts")
+      .withIndex("by_author_slug", (q) =>
+        q.eq("authorId", user._id).eq("slug", args.slugOrId)
+      )
+      .first();
 
     if (!post) {
+      const postId = ctx.db.normalizeId("posts", args.slugOrId);
+      if (postId) {
+        post = await ctx.db.get(postId);
+      }
+    }
+
+    if (!post) {
+      const redirect = await ctx.db
+        .query("postSlugRedirects")
+        .withIndex("by_author_slug", (q) =>
+          q.eq("authorId", user._id).eq("slug", args.slugOrId)
+        )
+        .unique();
+
+      if (redirect) {
+        post = await ctx.db.get(redirect.postId);
+      }
+    }
+
+    if (!post) {
+      return null;
+    }
+
+    // Verify the post belongs to this user, is published and not trashed
+    if (
+      post.authorId !== user._id ||
+      post.status !== "published" ||
+      post.deletedAt !== undefined
+    ) {
       return null;
     }
 
-    // Verify the post belongs to this user and is published
-    if (post.authorId !== user._id || post.status !== "published") {
+    // Unlisted posts are readable by anyone with the link
+    if (
+      post.visibility === "followers" &&
+      !(await canViewFollowersOnly(ctx, user._id))
+    ) {
       return null;
     }
 
-    // Return post with author info
-    const postWithAuthor: PostWithAuthor = {
+    const publication = post.publicationId
+      ? await ctx.db.get(post.publicationId)
+      : null;
+
+    // Return post with author and publication info
+    const postWithAuthor: PostResponse = {
       ...post,
       author: {
         _id: user._id,
@@ -120,6 +295,10 @@ export const getPublishedPost = query({
         username: user.username,
         imageUrl: user.imageUrl,
       },
+      coAuthors: await getCoAuthors(ctx, post._id),
+      publication: publication
+        ? { name: publication.name, slug: publication.slug }
+        : null,
     };
 
     return postWithAuthor;
@@ -132,7 +311,7 @@ export const incrementViewCount = mutation({
   handler: async (ctx, args): Promise<IncrementViewCountResponse | void> => {
     const post = await ctx.db.get(args.postId);
 
-    if (!post || post.status !== "published") {
+    if (!post || post.status !== "published" || post.deletedAt !== undefined) {
       return;
     }
 
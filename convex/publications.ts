@@ -0,0 +1,587 @@
+import { v } from "convex/values";
+import {
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import type { Id, Doc } from "./_generated/dataModel";
+import { canViewFollowersOnly } from "./public";
+import { slugify } from "../lib/slug";
+
+// Type definitions
+export type PublicationRole = "admin" | "editor" | "writer";
+
+type AuthorInfo = {
+  _id: Id<"users">;
+  name: string;
+  username?: string;
+  imageUrl?: string;
+};
+
+type MemberWithUser = Doc<"publicationMembers"> & {
+  user: AuthorInfo | null;
+};
+
+type PublicationSummary = Doc<"publications"> & {
+  role: PublicationRole;
+};
+
+type PublicationPost = Doc<"posts"> & {
+  author: AuthorInfo | null;
+};
+
+type PublicationDashboard = {
+  publication: Doc<"publications">;
+  role: PublicationRole;
+  members: MemberWithUser[];
+  posts: PublicationPost[];
+};
+
+type PublishedPublication = {
+  publication: Doc<"publications">;
+  members: (AuthorInfo & { role: PublicationRole })[];
+  posts: (Doc<"posts"> & { author: AuthorInfo })[];
+};
+
+const MAX_NAME_LENGTH: number = 80;
+const MAX_DESCRIPTION_LENGTH: number = 500;
+const MAX_MEMBERS: number = 50;
+
+const publicationRole = v.union(
+  v.literal("admin"),
+  v.literal("editor"),
+  v.literal("writer")
+);
+
+const toAuthorInfo = (user: Doc<"users">): AuthorInfo => ({
+  _id: user._id,
+  name: user.name,
+  username: user.username,
+  imageUrl: user.imageUrl,
+});
+
+async function getCurrentUser(
+  ctx: QueryCtx | MutationCtx
+): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  return await ctx.db
+    .query("users")
+    .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+    .unique();
+}
+
+async function requireCurrentUser(ctx: MutationCtx): Promise<Doc<"users">> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  return user;
+}
+
+function validatePublicationFields(name?: string, description?: string): void {
+  if (name !== undefined) {
+    if (!name.trim()) {
+      throw new Error("Publication name is required");
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      throw new Error(
+        `Publication name must be ${MAX_NAME_LENGTH} characters or less`
+      );
+    }
+  }
+
+  if (description !== undefined && description.trim().length > MAX_DESCRIPTION_LENGTH) {
+    throw new Error(
+      `Description must be ${MAX_DESCRIPTION_LENGTH} characters or less`
+    );
+  }
+}
+
+// A user's role in a publication, or null if they aren't a member
+export async function getPublicationRole(
+  ctx: QueryCtx | MutationCtx,
+  publicationId: Id<"publications">,
+  userId: Id<"users">
+): Promise<PublicationRole | null> {
+  const member: Doc<"publicationMembers"> | null = await ctx.db
+    .query("publicationMembers")
+    .withIndex("by_publication_user", (q) =>
+      q.eq("publicationId", publicationId).eq("userId", userId)
+    )
+    .unique();
+
+  return member?.role ?? null;
+}
+
+// Load a publication the signed-in user has one of `roles` in, or throw
+async function getPublicationAs(
+  ctx: MutationCtx,
+  publicationId: Id<"publications">,
+  roles: PublicationRole[]
+): Promise<{ user: Doc<"users">; publication: Doc<"publications"> }> {
+  const user = await requireCurrentUser(ctx);
+
+  const publication: Doc<"publications"> | null = await ctx.db.get(
+    publicationId
+  );
+  if (!publication) {
+    throw new Error("Publication not found");
+  }
+
+  const role = await getPublicationRole(ctx, publicationId, user._id);
+  if (!role || !roles.includes(role)) {
+    throw new Error("Not authorized");
+  }
+
+  return { user, publication };
+}
+
+// Admins can't all leave - someone has to be able to manage the publication
+async function assertKeepsAnAdmin(
+  ctx: MutationCtx,
+  member: Doc<"publicationMembers">
+): Promise<void> {
+  if (member.role !== "admin") {
+    return;
+  }
+
+  const admins: Doc<"publicationMembers">[] = await ctx.db
+    .query("publicationMembers")
+    .withIndex("by_publication", (q) =>
+      q.eq("publicationId", member.publicationId)
+    )
+    .filter((q) => q.eq(q.field("role"), "admin"))
+    .collect();
+
+  if (admins.length <= 1) {
+    throw new Error("A publication needs at least one admin");
+  }
+}
+
+// Move a post into a publication (or out with null) - shared by the post mutations.
+// Any member can add their own posts; the caller has already checked they own the post.
+export async function setPostPublication(
+  ctx: MutationCtx,
+  post: Doc<"posts">,
+  publicationId: Id<"publications"> | null,
+  userId: Id<"users">
+): Promise<void> {
+  if ((post.publicationId ?? null) === publicationId) {
+    return;
+  }
+
+  if (publicationId) {
+    const publication: Doc<"publications"> | null = await ctx.db.get(
+      publicationId
+    );
+    if (!publication || !(await getPublicationRole(ctx, publicationId, userId))) {
+      throw new Error("Publication not found");
+    }
+  }
+
+  await ctx.db.patch(post._id, { publicationId: publicationId ?? undefined });
+}
+
+// Create a publication with the signed-in user as its first admin
+export const create = mutation({
+  args: {
+    name: v.string(),
+    slug: v.optional(v.string()),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Id<"publications">> => {
+    const user = await requireCurrentUser(ctx);
+
+    validatePublicationFields(args.name, args.description);
+
+    const slug: string = slugify(args.slug?.trim() || args.name);
+    const existing: Doc<"publications"> | null = await ctx.db
+      .query("publications")
+      .withIndex("by_slug", (q) => q.eq("slug", slug))
+      .unique();
+
+    if (existing) {
+      throw new Error(`The URL /publications/${slug} is already taken`);
+    }
+
+    const now: number = Date.now();
+    const publicationId = await ctx.db.insert("publications", {
+      name: args.name.trim(),
+      slug,
+      description: args.description?.trim() || undefined,
+      createdBy: user._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.db.insert("publicationMembers", {
+      publicationId,
+      userId: user._id,
+      role: "admin",
+      createdAt: now,
+    });
+
+    return publicationId;
+  },
+});
+
+// Change a publication's profile (the URL stays the same)
+export const update = mutation({
+  args: {
+    id: v.id("publications"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    logoUrl: v.optional(v.string()), // Empty string removes the logo
+  },
+  handler: async (ctx, args): Promise<Id<"publications">> => {
+    await getPublicationAs(ctx, args.id, ["admin"]);
+    validatePublicationFields(args.name, args.description);
+
+    await ctx.db.patch(args.id, {
+      ...(args.name !== undefined && { name: args.name.trim() }),
+      ...(args.description !== undefined && {
+        description: args.description.trim() || undefined,
+      }),
+      ...(args.logoUrl !== undefined && {
+        logoUrl: args.logoUrl.trim() || undefined,
+      }),
+      updatedAt: Date.now(),
+    });
+
+    return args.id;
+  },
+});
+
+// Delete a publication; its posts go back to being their authors' own
+export const remove = mutation({
+  args: { id: v.id("publications") },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    await getPublicationAs(ctx, args.id, ["admin"]);
+
+    const posts: Doc<"posts">[] = await ctx.db
+      .query("posts")
+      .withIndex("by_publication_status", (q) => q.eq("publicationId", args.id))
+      .collect();
+    for (const post of posts) {
+      await ctx.db.patch(post._id, { publicationId: undefined });
+    }
+
+    const members: Doc<"publicationMembers">[] = await ctx.db
+      .query("publicationMembers")
+      .withIndex("by_publication", (q) => q.eq("publicationId", args.id))
+      .collect();
+    for (const member of members) {
+      await ctx.db.delete(member._id);
+    }
+
+    await ctx.db.delete(args.id);
+    return { success: true };
+  },
+});
+
+// Add a user (by username) to a publication
+export const addMember = mutation({
+  args: {
+    publicationId: v.id("publications"),
+    username: v.string(),
+    role: publicationRole,
+  },
+  handler: async (ctx, args): Promise<Id<"publicationMembers">> => {
+    const { publication } = await getPublicationAs(ctx, args.publicationId, [
+      "admin",
+    ]);
+
+    const username = args.username.trim().replace(/^@/, "");
+    const member: Doc<"users"> | null = await ctx.db
+      .query("users")
+      .withIndex("by_username", (q) => q.eq("username", username))
+      .unique();
+
+    if (!member) {
+      throw new Error(`No user found with the username @${username}`);
+    }
+
+    if (await getPublicationRole(ctx, publication._id, member._id)) {
+      throw new Error(`@${username} is already a member`);
+    }
+
+    const members: Doc<"publicationMembers">[] = await ctx.db
+      .query("publicationMembers")
+      .withIndex("by_publication", (q) =>
+        q.eq("publicationId", publication._id)
+      )
+      .collect();
+
+    if (members.length >= MAX_MEMBERS) {
+      throw new Error(`A publication can have at most ${MAX_MEMBERS} members`);
+    }
+
+    return await ctx.db.insert("publicationMembers", {
+      publicationId: publication._id,
+      userId: member._id,
+      role: args.role,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Change a member's role
+export const updateMemberRole = mutation({
+  args: {
+    memberId: v.id("publicationMembers"),
+    role: publicationRole,
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const member: Doc<"publicationMembers"> | null = await ctx.db.get(
+      args.memberId
+    );
+    if (!member) {
+      throw new Error("Member not found");
+    }
+
+    await getPublicationAs(ctx, member.publicationId, ["admin"]);
+
+    if (args.role !== "admin") {
+      await assertKeepsAnAdmin(ctx, member);
+    }
+
+    await ctx.db.patch(member._id, { role: args.role });
+    return { success: true };
+  },
+});
+
+// Remove a member; members may also leave on their own. Their posts stay in the publication.
+export const removeMember = mutation({
+  args: { memberId: v.id("publicationMembers") },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const user = await requireCurrentUser(ctx);
+
+    const member: Doc<"publicationMembers"> | null = await ctx.db.get(
+      args.memberId
+    );
+    if (!member) {
+      throw new Error("Member not found");
+    }
+
+    if (member.userId !== user._id) {
+      await getPublicationAs(ctx, member.publicationId, ["admin"]);
+    }
+
+    await assertKeepsAnAdmin(ctx, member);
+
+    await ctx.db.delete(member._id);
+    return { success: true };
+  },
+});
+
+// Take a post out of a publication (admins and editors)
+export const removePost = mutation({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post || !post.publicationId) {
+      throw new Error("Post not found");
+    }
+
+    await getPublicationAs(ctx, post.publicationId, ["admin", "editor"]);
+
+    await ctx.db.patch(post._id, { publicationId: undefined });
+    return { success: true };
+  },
+});
+
+// Get the publications the signed-in user belongs to
+export const getMyPublications = query({
+  handler: async (ctx): Promise<PublicationSummary[]> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const memberships: Doc<"publicationMembers">[] = await ctx.db
+      .query("publicationMembers")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const results = await Promise.all(
+      memberships.map(async (membership): Promise<PublicationSummary | null> => {
+        const publication: Doc<"publications"> | null = await ctx.db.get(
+          membership.publicationId
+        );
+        return publication ? { ...publication, role: membership.role } : null;
+      })
+    );
+
+    return results
+      .filter((result): result is PublicationSummary => result !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// Get a publication with its members and posts, for its members' dashboard
+export const getPublicationDashboard = query({
+  args: { id: v.id("publications") },
+  handler: async (ctx, args): Promise<PublicationDashboard | null> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return null;
+    }
+
+    const publication: Doc<"publications"> | null = await ctx.db.get(args.id);
+    if (!publication) {
+      return null;
+    }
+
+    const role = await getPublicationRole(ctx, publication._id, user._id);
+    if (!role) {
+      return null;
+    }
+
+    const members: Doc<"publicationMembers">[] = await ctx.db
+      .query("publicationMembers")
+      .withIndex("by_publication", (q) =>
+        q.eq("publicationId", publication._id)
+      )
+      .collect();
+
+    const posts: Doc<"posts">[] = await ctx.db
+      .query("posts")
+      .withIndex("by_publication_status", (q) =>
+        q.eq("publicationId", publication._id)
+      )
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+
+    // Several posts usually share an author
+    const users = new Map<Id<"users">, AuthorInfo | null>();
+    const getUser = async (userId: Id<"users">): Promise<AuthorInfo | null> => {
+      if (!users.has(userId)) {
+        const found: Doc<"users"> | null = await ctx.db.get(userId);
+        users.set(userId, found ? toAuthorInfo(found) : null);
+      }
+      return users.get(userId)!;
+    };
+
+    const roleOrder: PublicationRole[] = ["admin", "editor", "writer"];
+
+    return {
+      publication,
+      role,
+      members: (
+        await Promise.all(
+          members.map(
+            async (member): Promise<MemberWithUser> => ({
+              ...member,
+              user: await getUser(member.userId),
+            })
+          )
+        )
+      ).sort(
+        (a, b) =>
+          roleOrder.indexOf(a.role) - roleOrder.indexOf(b.role) ||
+          a.createdAt - b.createdAt
+      ),
+      posts: (
+        await Promise.all(
+          posts.map(
+            async (post): Promise<PublicationPost> => ({
+              ...post,
+              author: await getUser(post.authorId),
+            })
+          )
+        )
+      ).sort((a, b) => b.updatedAt - a.updatedAt),
+    };
+  },
+});
+
+// Get a publication's public profile: members and published posts, newest first
+export const getPublishedPublication = query({
+  args: { slug: v.string() },
+  handler: async (ctx, args): Promise<PublishedPublication | null> => {
+    const publication: Doc<"publications"> | null = await ctx.db
+      .query("publications")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .unique();
+
+    if (!publication) {
+      return null;
+    }
+
+    const members: Doc<"publicationMembers">[] = await ctx.db
+      .query("publicationMembers")
+      .withIndex("by_publication", (q) =>
+        q.eq("publicationId", publication._id)
+      )
+      .collect();
+
+    const posts: Doc<"posts">[] = await ctx.db
+      .query("posts")
+      .withIndex("by_publication_status", (q) =>
+        q.eq("publicationId", publication._id).eq("status", "published")
+      )
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("deletedAt"), undefined),
+          q.neq(q.field("visibility"), "unlisted")
+        )
+      )
+      .collect();
+
+    // Followers-only posts follow each author's own visibility rules
+    const authors = new Map<Id<"users">, Doc<"users"> | null>();
+    const followsAuthor = new Map<Id<"users">, boolean>();
+    const listed: (Doc<"posts"> & { author: AuthorInfo })[] = [];
+
+    for (const post of posts) {
+      if (post.visibility === "followers") {
+        if (!followsAuthor.has(post.authorId)) {
+          followsAuthor.set(
+            post.authorId,
+            await canViewFollowersOnly(ctx, post.authorId)
+          );
+        }
+        if (!followsAuthor.get(post.authorId)) {
+          continue;
+        }
+      }
+
+      if (!authors.has(post.authorId)) {
+        authors.set(post.authorId, await ctx.db.get(post.authorId));
+      }
+      const author = authors.get(post.authorId);
+      if (!author) {
+        continue;
+      }
+
+      listed.push({ ...post, author: toAuthorInfo(author) });
+    }
+
+    const memberUsers = await Promise.all(
+      members.map(async (member) => {
+        const user: Doc<"users"> | null = await ctx.db.get(member.userId);
+        return user ? { ...toAuthorInfo(user), role: member.role } : null;
+      })
+    );
+
+    return {
+      publication,
+      members: memberUsers.filter(
+        (member): member is AuthorInfo & { role: PublicationRole } =>
+          member !== null
+      ),
+      posts: listed.sort((a, b) => (b.publishedAt ?? 0) - (a.publishedAt ?? 0)),
+    };
+  },
+});
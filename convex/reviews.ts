@@ -0,0 +1,616 @@
+import { v } from "convex/values";
+import {
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import type { Id, Doc } from "./_generated/dataModel";
+import { getCoAuthors, getPostRole } from "./collaborators";
+
+// Type definitions
+type ReviewAccess = "reviewer" | "member";
+
+type AuthorInfo = {
+  _id: Id<"users">;
+  name: string;
+  username?: string;
+  imageUrl?: string;
+};
+
+type ReviewerWithUser = Doc<"reviewers"> & {
+  reviewer: AuthorInfo | null;
+};
+
+type ReviewQueueItem = {
+  _id: Id<"posts">;
+  title: string;
+  reviewRequestedAt?: number;
+  updatedAt: number;
+  author: AuthorInfo | null;
+  openNotes: number;
+};
+
+type NoteWithAuthor = Doc<"reviewNotes"> & {
+  author: AuthorInfo | null;
+};
+
+type ReviewPostResponse = {
+  post: Doc<"posts">;
+  author: AuthorInfo | null;
+  coAuthors: AuthorInfo[];
+  access: ReviewAccess;
+};
+
+type PostReviewState = {
+  required: boolean;
+  status?: Doc<"posts">["status"];
+  decision?: Doc<"posts">["reviewDecision"];
+  reviewer: AuthorInfo | null;
+  reviewedAt?: number;
+  openNotes: number;
+};
+
+const MAX_REVIEWERS: number = 10;
+
+const toAuthorInfo = (user: Doc<"users">): AuthorInfo => ({
+  _id: user._id,
+  name: user.name,
+  username: user.username,
+  imageUrl: user.imageUrl,
+});
+
+async function getCurrentUser(
+  ctx: QueryCtx | MutationCtx
+): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  return await ctx.db
+    .query("users")
+    .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+    .unique();
+}
+
+async function requireCurrentUser(ctx: MutationCtx): Promise<Doc<"users">> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  return user;
+}
+
+async function isReviewerOf(
+  ctx: QueryCtx | MutationCtx,
+  authorId: Id<"users">,
+  reviewerId: Id<"users">
+): Promise<boolean> {
+  const reviewer: Doc<"reviewers"> | null = await ctx.db
+    .query("reviewers")
+    .withIndex("by_author_reviewer", (q) =>
+      q.eq("authorId", authorId).eq("reviewerId", reviewerId)
+    )
+    .unique();
+
+  return reviewer !== null;
+}
+
+// Posts by an author with designated reviewers must be approved before they go live
+export async function requiresReview(
+  ctx: QueryCtx | MutationCtx,
+  authorId: Id<"users">
+): Promise<boolean> {
+  const reviewer: Doc<"reviewers"> | null = await ctx.db
+    .query("reviewers")
+    .withIndex("by_author", (q) => q.eq("authorId", authorId))
+    .first();
+
+  return reviewer !== null;
+}
+
+// Whether a post must be approved before it goes live - because its author has
+// reviewers, or because it was submitted for review while they did
+export async function needsApproval(
+  ctx: QueryCtx | MutationCtx,
+  post: Doc<"posts">
+): Promise<boolean> {
+  return post.reviewRequired === true || (await requiresReview(ctx, post.authorId));
+}
+
+// Fields that put a post in the review queue as a fresh request - when it's
+// submitted, and when the text of a live post that needs approval changes
+export const reviewRequestFields = (now: number) => ({
+  status: "in_review" as const,
+  reviewDecision: undefined,
+  reviewedBy: undefined,
+  reviewedAt: undefined,
+  reviewRequestedAt: now,
+  reviewRequired: true,
+});
+
+// Throw unless the post may be published or scheduled - shared by the post mutations
+export async function assertCanPublish(
+  ctx: QueryCtx | MutationCtx,
+  post: Doc<"posts">
+): Promise<void> {
+  if (post.status === "in_review") {
+    throw new Error("This post is waiting for review");
+  }
+
+  if (post.reviewDecision !== "approved" && (await needsApproval(ctx, post))) {
+    throw new Error("This post needs a reviewer's approval before publishing");
+  }
+}
+
+// Who may see a post's review: its co-authors, and the author's reviewers
+// while it's in review or after they've decided on it
+async function getReviewAccess(
+  ctx: QueryCtx | MutationCtx,
+  post: Doc<"posts">,
+  userId: Id<"users">
+): Promise<ReviewAccess | null> {
+  if (await getPostRole(ctx, post, userId)) {
+    return "member";
+  }
+
+  if (
+    (post.status === "in_review" || post.reviewedBy === userId) &&
+    (await isReviewerOf(ctx, post.authorId, userId))
+  ) {
+    return "reviewer";
+  }
+
+  return null;
+}
+
+// Load a live post the signed-in user can see the review of, or throw
+async function getReviewablePost(
+  ctx: MutationCtx,
+  postId: Id<"posts">
+): Promise<{ user: Doc<"users">; post: Doc<"posts">; access: ReviewAccess }> {
+  const user = await requireCurrentUser(ctx);
+
+  const post: Doc<"posts"> | null = await ctx.db.get(postId);
+  if (!post || post.deletedAt !== undefined) {
+    throw new Error("Post not found");
+  }
+
+  const access = await getReviewAccess(ctx, post, user._id);
+  if (!access) {
+    throw new Error("Not authorized");
+  }
+
+  return { user, post, access };
+}
+
+// Designate a user (by username) to review the signed-in user's posts
+export const addReviewer = mutation({
+  args: { username: v.string() },
+  handler: async (ctx, args): Promise<Id<"reviewers">> => {
+    const user = await requireCurrentUser(ctx);
+
+    const username = args.username.trim().replace(/^@/, "");
+    const reviewer: Doc<"users"> | null = await ctx.db
+      .query("users")
+      .withIndex("by_username", (q) => q.eq("username", username))
+      .unique();
+
+    if (!reviewer) {
+      throw new Error(`No user found with the username @${username}`);
+    }
+
+    if (reviewer._id === user._id) {
+      throw new Error("You can't review your own posts");
+    }
+
+    if (await isReviewerOf(ctx, user._id, reviewer._id)) {
+      throw new Error(`@${username} is already one of your reviewers`);
+    }
+
+    const reviewers: Doc<"reviewers">[] = await ctx.db
+      .query("reviewers")
+      .withIndex("by_author", (q) => q.eq("authorId", user._id))
+      .collect();
+
+    if (reviewers.length >= MAX_REVIEWERS) {
+      throw new Error(`You can have at most ${MAX_REVIEWERS} reviewers`);
+    }
+
+    return await ctx.db.insert("reviewers", {
+      authorId: user._id,
+      reviewerId: reviewer._id,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Stop a user from reviewing the signed-in user's posts
+export const removeReviewer = mutation({
+  args: { id: v.id("reviewers") },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const user = await requireCurrentUser(ctx);
+
+    const reviewer: Doc<"reviewers"> | null = await ctx.db.get(args.id);
+    if (!reviewer || reviewer.authorId !== user._id) {
+      throw new Error("Reviewer not found");
+    }
+
+    // Reviewers can't be dropped to get a post out of review, or to publish
+    // one they approved without them
+    const inReview: Doc<"posts"> | null = await ctx.db
+      .query("posts")
+      .withIndex("by_author_status", (q) =>
+        q.eq("authorId", user._id).eq("status", "in_review")
+      )
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .first();
+    const approvedDraft: Doc<"posts"> | null = await ctx.db
+      .query("posts")
+      .withIndex("by_author_status", (q) =>
+        q.eq("authorId", user._id).eq("status", "draft")
+      )
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("deletedAt"), undefined),
+          q.eq(q.field("reviewDecision"), "approved")
+        )
+      )
+      .first();
+
+    if (inReview || approvedDraft) {
+      throw new Error(
+        "You can't remove reviewers while posts are in review or approved but unpublished"
+      );
+    }
+
+    await ctx.db.delete(reviewer._id);
+    return { success: true };
+  },
+});
+
+// Get the signed-in user's designated reviewers
+export const getMyReviewers = query({
+  handler: async (ctx): Promise<ReviewerWithUser[]> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const reviewers: Doc<"reviewers">[] = await ctx.db
+      .query("reviewers")
+      .withIndex("by_author", (q) => q.eq("authorId", user._id))
+      .collect();
+
+    return await Promise.all(
+      reviewers.map(async (reviewer): Promise<ReviewerWithUser> => {
+        const member: Doc<"users"> | null = await ctx.db.get(
+          reviewer.reviewerId
+        );
+        return { ...reviewer, reviewer: member ? toAuthorInfo(member) : null };
+      })
+    );
+  },
+});
+
+// Hand a draft to the author's reviewers
+export const submitForReview = mutation({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const user = await requireCurrentUser(ctx);
+
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post || post.deletedAt !== undefined) {
+      throw new Error("Post not found");
+    }
+
+    if ((await getPostRole(ctx, post, user._id)) !== "owner") {
+      throw new Error("Only the post's owners can submit it for review");
+    }
+
+    if (post.status !== "draft") {
+      throw new Error("Only drafts can be submitted for review");
+    }
+
+    if (post.scheduledFor !== undefined) {
+      throw new Error("Cancel the scheduled publication before submitting");
+    }
+
+    if (!(await requiresReview(ctx, post.authorId))) {
+      throw new Error("Add a reviewer in Settings before submitting for review");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(post._id, {
+      ...reviewRequestFields(now),
+      updatedAt: now,
+    });
+
+    return { success: true };
+  },
+});
+
+// Take a post back out of the review queue
+export const withdrawReview = mutation({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const user = await requireCurrentUser(ctx);
+
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post || post.deletedAt !== undefined) {
+      throw new Error("Post not found");
+    }
+
+    if ((await getPostRole(ctx, post, user._id)) !== "owner") {
+      throw new Error("Not authorized");
+    }
+
+    if (post.status !== "in_review") {
+      throw new Error("This post isn't in review");
+    }
+
+    await ctx.db.patch(post._id, {
+      status: "draft",
+      reviewRequestedAt: undefined,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+// Approve a post or send it back with changes requested; either way it returns to draft
+export const decide = mutation({
+  args: {
+    postId: v.id("posts"),
+    decision: v.union(v.literal("approved"), v.literal("changes_requested")),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const { user, post, access } = await getReviewablePost(ctx, args.postId);
+
+    if (access !== "reviewer") {
+      throw new Error("Only the author's reviewers can decide on a post");
+    }
+
+    if (post.status !== "in_review") {
+      throw new Error("This post isn't in review");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(post._id, {
+      status: "draft",
+      reviewDecision: args.decision,
+      reviewedBy: user._id,
+      reviewedAt: now,
+      reviewRequestedAt: undefined,
+    });
+
+    return { success: true };
+  },
+});
+
+// Leave a note on a post, optionally quoting the passage it's about
+export const addNote = mutation({
+  args: {
+    postId: v.id("posts"),
+    quote: v.optional(v.string()),
+    body: v.string(),
+  },
+  handler: async (ctx, args): Promise<Id<"reviewNotes">> => {
+    const { user, post } = await getReviewablePost(ctx, args.postId);
+
+    const body = args.body.trim();
+    if (!body) {
+      throw new Error("Note can't be empty");
+    }
+
+    return await ctx.db.insert("reviewNotes", {
+      postId: post._id,
+      authorId: user._id,
+      quote: args.quote?.trim() || undefined,
+      body,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Mark a note as addressed, or reopen it
+export const resolveNote = mutation({
+  args: {
+    id: v.id("reviewNotes"),
+    resolved: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const note: Doc<"reviewNotes"> | null = await ctx.db.get(args.id);
+    if (!note) {
+      throw new Error("Note not found");
+    }
+
+    await getReviewablePost(ctx, note.postId);
+
+    await ctx.db.patch(note._id, {
+      resolvedAt: args.resolved ? Date.now() : undefined,
+    });
+    return { success: true };
+  },
+});
+
+// Delete a note (only whoever wrote it)
+export const deleteNote = mutation({
+  args: { id: v.id("reviewNotes") },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const user = await requireCurrentUser(ctx);
+
+    const note: Doc<"reviewNotes"> | null = await ctx.db.get(args.id);
+    if (!note || note.authorId !== user._id) {
+      throw new Error("Note not found");
+    }
+
+    await ctx.db.delete(note._id);
+    return { success: true };
+  },
+});
+
+// Get a post's review notes, open ones first
+export const getNotes = query({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args): Promise<NoteWithAuthor[]> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post || !(await getReviewAccess(ctx, post, user._id))) {
+      return [];
+    }
+
+    const notes: Doc<"reviewNotes">[] = await ctx.db
+      .query("reviewNotes")
+      .withIndex("by_post", (q) => q.eq("postId", post._id))
+      .collect();
+
+    const results = await Promise.all(
+      notes.map(async (note): Promise<NoteWithAuthor> => {
+        const author: Doc<"users"> | null = await ctx.db.get(note.authorId);
+        return { ...note, author: author ? toAuthorInfo(author) : null };
+      })
+    );
+
+    return results.sort(
+      (a, b) =>
+        Number(a.resolvedAt !== undefined) - Number(b.resolvedAt !== undefined) ||
+        a.createdAt - b.createdAt
+    );
+  },
+});
+
+// Get the posts waiting for the signed-in user's review, oldest request first
+export const getReviewQueue = query({
+  handler: async (ctx): Promise<ReviewQueueItem[]> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const assignments: Doc<"reviewers">[] = await ctx.db
+      .query("reviewers")
+      .withIndex("by_reviewer", (q) => q.eq("reviewerId", user._id))
+      .collect();
+
+    const queue: ReviewQueueItem[] = [];
+    for (const assignment of assignments) {
+      const author: Doc<"users"> | null = await ctx.db.get(
+        assignment.authorId
+      );
+      const posts: Doc<"posts">[] = await ctx.db
+        .query("posts")
+        .withIndex("by_author_status", (q) =>
+          q.eq("authorId", assignment.authorId).eq("status", "in_review")
+        )
+        .filter((q) => q.eq(q.field("deletedAt"), undefined))
+        .collect();
+
+      for (const post of posts) {
+        const notes: Doc<"reviewNotes">[] = await ctx.db
+          .query("reviewNotes")
+          .withIndex("by_post", (q) => q.eq("postId", post._id))
+          .filter((q) => q.eq(q.field("resolvedAt"), undefined))
+          .collect();
+
+        queue.push({
+          _id: post._id,
+          title: post.title,
+          reviewRequestedAt: post.reviewRequestedAt,
+          updatedAt: post.updatedAt,
+          author: author ? toAuthorInfo(author) : null,
+          openNotes: notes.length,
+        });
+      }
+    }
+
+    return queue.sort(
+      (a, b) =>
+        (a.reviewRequestedAt ?? a.updatedAt) -
+        (b.reviewRequestedAt ?? b.updatedAt)
+    );
+  },
+});
+
+// Get a post for the review screen
+export const getReviewPost = query({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args): Promise<ReviewPostResponse | null> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return null;
+    }
+
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post || post.deletedAt !== undefined) {
+      return null;
+    }
+
+    const access = await getReviewAccess(ctx, post, user._id);
+    if (!access) {
+      return null;
+    }
+
+    const author: Doc<"users"> | null = await ctx.db.get(post.authorId);
+    return {
+      post,
+      author: author ? toAuthorInfo(author) : null,
+      coAuthors: await getCoAuthors(ctx, post._id),
+      access,
+    };
+  },
+});
+
+// Whether the editor's post (or a new post by the signed-in user) needs approval, and where it stands
+export const getPostReviewState = query({
+  args: { postId: v.optional(v.id("posts")) },
+  handler: async (ctx, args): Promise<PostReviewState | null> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return null;
+    }
+
+    if (!args.postId) {
+      return {
+        required: await requiresReview(ctx, user._id),
+        reviewer: null,
+        openNotes: 0,
+      };
+    }
+
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post || !(await getPostRole(ctx, post, user._id))) {
+      return null;
+    }
+
+    const reviewer: Doc<"users"> | null = post.reviewedBy
+      ? await ctx.db.get(post.reviewedBy)
+      : null;
+    const notes: Doc<"reviewNotes">[] = await ctx.db
+      .query("reviewNotes")
+      .withIndex("by_post", (q) => q.eq("postId", post._id))
+      .filter((q) => q.eq(q.field("resolvedAt"), undefined))
+      .collect();
+
+    return {
+      required: await needsApproval(ctx, post),
+      status: post.status,
+      decision: post.reviewDecision,
+      reviewer: reviewer ? toAuthorInfo(reviewer) : null,
+      reviewedAt: post.reviewedAt,
+      openNotes: notes.length,
+    };
+  },
+});
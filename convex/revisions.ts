@@ -0,0 +1,260 @@
+import { v } from "convex/values";
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import type { Id, Doc } from "./_generated/dataModel";
+import { getPostRole } from "./collaborators";
+import { needsApproval, reviewRequestFields } from "./reviews";
+import { sanitizeHtml } from "../lib/sanitize-html";
+import { getReadingStats } from "../lib/post-text";
+import { getSearchText } from "../lib/search";
+
+// Type definitions
+type RevisionSource = Doc<"postRevisions">["source"];
+
+type RevisionEditor = {
+  _id: Id<"users">;
+  name: string;
+  imageUrl?: string;
+};
+
+type RevisionWithEditor = Doc<"postRevisions"> & {
+  editor: RevisionEditor | null;
+};
+
+type RecordRevisionArgs = {
+  postId: Id<"posts">;
+  editorId: Id<"users">;
+  title: string;
+  content: string;
+  source: RevisionSource;
+  note?: string;
+};
+
+type RestoreRevisionResponse = {
+  title: string;
+  content: string;
+  version: number;
+};
+
+// Consecutive autosaves within this window update one revision instead of piling up
+const SAVE_COALESCE_WINDOW_MS: number = 10 * 60 * 1000;
+
+// Record a snapshot of a post - shared by the posts mutations
+export async function recordRevision(
+  ctx: MutationCtx,
+  args: RecordRevisionArgs
+): Promise<Id<"postRevisions"> | null> {
+  const latest: Doc<"postRevisions"> | null = await ctx.db
+    .query("postRevisions")
+    .withIndex("by_post", (q) => q.eq("postId", args.postId))
+    .order("desc")
+    .first();
+
+  const now: number = Date.now();
+
+  if (latest) {
+    const unchanged: boolean =
+      latest.title === args.title && latest.content === args.content;
+
+    // Nothing new to keep (a publish of unchanged content still gets its own entry)
+    if (unchanged && args.source === "save") {
+      return null;
+    }
+
+    // Fold rapid plain saves by the same editor into the latest save revision
+    if (
+      args.source === "save" &&
+      latest.source === "save" &&
+      latest.editorId === args.editorId &&
+      now - latest.updatedAt < SAVE_COALESCE_WINDOW_MS
+    ) {
+      await ctx.db.patch(latest._id, {
+        title: args.title,
+        content: args.content,
+        updatedAt: now,
+      });
+      return latest._id;
+    }
+  }
+
+  return await ctx.db.insert("postRevisions", {
+    postId: args.postId,
+    editorId: args.editorId,
+    title: args.title,
+    content: args.content,
+    source: args.source,
+    note: args.note,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+// Get revision history for a post (newest first, post authors only)
+export const getPostRevisions = query({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args): Promise<RevisionWithEditor[]> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const user: Doc<"users"> | null = await ctx.db
+      .query("users")
+      .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+      .unique();
+
+    if (!user) {
+      return [];
+    }
+
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post || !(await getPostRole(ctx, post, user._id))) {
+      return [];
+    }
+
+    const revisions: Doc<"postRevisions">[] = await ctx.db
+      .query("postRevisions")
+      .withIndex("by_post", (q) => q.eq("postId", args.postId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      revisions.map(
+        async (revision: Doc<"postRevisions">): Promise<RevisionWithEditor> => {
+          const editor: Doc<"users"> | null = await ctx.db.get(
+            revision.editorId
+          );
+          return {
+            ...revision,
+            editor: editor
+              ? { _id: editor._id, name: editor.name, imageUrl: editor.imageUrl }
+              : null,
+          };
+        }
+      )
+    );
+  },
+});
+
+// Snapshot the editor's current state, e.g. right before an AI rewrite replaces it
+export const createSnapshot = mutation({
+  args: {
+    postId: v.id("posts"),
+    title: v.string(),
+    content: v.string(),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Id<"postRevisions"> | null> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user: Doc<"users"> | null = await ctx.db
+      .query("users")
+      .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    if (!(await getPostRole(ctx, post, user._id))) {
+      throw new Error("Not authorized");
+    }
+
+    return await recordRevision(ctx, {
+      postId: args.postId,
+      editorId: user._id,
+      title: args.title,
+      content: sanitizeHtml(args.content),
+      source: "ai",
+      note: args.note,
+    });
+  },
+});
+
+// Restore a post's title and content from an earlier revision
+export const restore = mutation({
+  args: { revisionId: v.id("postRevisions") },
+  handler: async (ctx, args): Promise<RestoreRevisionResponse> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user: Doc<"users"> | null = await ctx.db
+      .query("users")
+      .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const revision: Doc<"postRevisions"> | null = await ctx.db.get(
+      args.revisionId
+    );
+    if (!revision) {
+      throw new Error("Revision not found");
+    }
+
+    const post: Doc<"posts"> | null = await ctx.db.get(revision.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    if (!(await getPostRole(ctx, post, user._id))) {
+      throw new Error("Not authorized");
+    }
+
+    if (post.deletedAt !== undefined) {
+      throw new Error("Restore this post from the trash before editing it");
+    }
+
+    // Older revisions may predate sanitization on write
+    const content = sanitizeHtml(revision.content);
+    const version: number = (post.version ?? 0) + 1;
+
+    // Like any other rewrite, restoring different text into an approved,
+    // unpublished post sends it back for another review, and a live post
+    // that needs approval comes down until the restored text is approved
+    const changesText: boolean =
+      revision.title !== post.title || content !== post.content;
+    const changesApprovedText: boolean =
+      changesText &&
+      post.reviewDecision === "approved" &&
+      post.status !== "published";
+    const changesLiveText: boolean =
+      changesText &&
+      post.status === "published" &&
+      (await needsApproval(ctx, post));
+    const now: number = Date.now();
+
+    await ctx.db.patch(post._id, {
+      title: revision.title,
+      content,
+      ...getReadingStats(content),
+      searchText: getSearchText({ ...post, title: revision.title, content }),
+      ...(changesApprovedText ? { reviewDecision: undefined } : {}),
+      ...(changesLiveText ? reviewRequestFields(now) : {}),
+      updatedAt: now,
+      version,
+    });
+
+    await recordRevision(ctx, {
+      postId: post._id,
+      editorId: user._id,
+      title: revision.title,
+      content,
+      source: "restore",
+      note: "Restored from an earlier revision",
+    });
+
+    return { title: revision.title, content, version };
+  },
+});
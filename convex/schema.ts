@@ -24,8 +24,27 @@ export default defineSchema({
   // Posts/Articles - Main content
   posts: defineTable({
     title: v.string(),
+    slug: v.optional(v.string()), // URL slug, unique per author
     content: v.string(), // Rich text content (JSON string or HTML)
-    status: v.union(v.literal("draft"), v.literal("published")),
+    status: v.union(
+      v.literal("draft"),
+      v.literal("in_review"), // Submitted, waiting for a reviewer's decision
+      v.literal("published")
+    ),
+    // Latest review decision - publishing needs "approved" when the author has reviewers
+    reviewDecision: v.optional(
+      v.union(v.literal("approved"), v.literal("changes_requested"))
+    ),
+    reviewedBy: v.optional(v.id("users")),
+    reviewedAt: v.optional(v.number()),
+    reviewRequestedAt: v.optional(v.number()),
+    // Set once it's submitted for review - it needs approval to go live from
+    // then on, even if the author's reviewers change
+    reviewRequired: v.optional(v.boolean()),
+    // Who can read it once published - missing means public
+    visibility: v.optional(
+      v.union(v.literal("public"), v.literal("unlisted"), v.literal("followers"))
+    ),
 
     // Author relationship
     authorId: v.id("users"),
@@ -34,12 +53,20 @@ export default defineSchema({
     tags: v.array(v.string()),
     category: v.optional(v.string()), // Single category
     featuredImage: v.optional(v.string()), // ImageKit URL
+    wordCount: v.optional(v.number()), // Kept in sync with content on save
+    readingTime: v.optional(v.number()), // Minutes
+    searchText: v.optional(v.string()), // Plain text of title, body, tags and category
 
     // Timestamps
     createdAt: v.number(),
     updatedAt: v.number(),
+    version: v.optional(v.number()), // Bumped by every editor save, for conflict detection
     publishedAt: v.optional(v.number()),
     scheduledFor: v.optional(v.number()), // For scheduled publishing
+    scheduledFunctionId: v.optional(v.id("_scheduled_functions")), // Pending publish job
+    deletedAt: v.optional(v.number()), // Set while the post sits in the trash
+    seriesId: v.optional(v.id("series")), // Series this post is a part of
+    publicationId: v.optional(v.id("publications")), // Team blog it's published under
 
     // Analytics
     viewCount: v.number(),
@@ -49,7 +76,207 @@ export default defineSchema({
     .index("by_status", ["status"])
     .index("by_published", ["status", "publishedAt"])
     .index("by_author_status", ["authorId", "status"])
-    .searchIndex("search_content", { searchField: "title" }),
+    .index("by_author_published", ["authorId", "status", "publishedAt"]) // An author's posts, newest published first
+    .index("by_author_slug", ["authorId", "slug"]) // Public URL lookup
+    .index("by_deleted", ["deletedAt"]) // Trash purge
+    .index("by_series", ["seriesId"])
+    .index("by_publication_status", ["publicationId", "status"])
+    .index("by_category_published", ["category", "status", "publishedAt"])
+    .searchIndex("search_content", { searchField: "title" })
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["status", "authorId", "category"],
+    }),
+
+  // Tags of listed posts (published, public, not trashed), one row per tag -
+  // kept in sync with the posts for the /tag/[tag] pages
+  postTags: defineTable({
+    postId: v.id("posts"),
+    tag: v.string(), // Normalized with normalizeTag
+    publishedAt: v.number(),
+  })
+    .index("by_post", ["postId"])
+    .index("by_tag_published", ["tag", "publishedAt"]),
+
+  // How many listed posts carry each tag
+  tagCounts: defineTable({
+    tag: v.string(),
+    postCount: v.number(),
+
+    updatedAt: v.number(),
+  })
+    .index("by_tag", ["tag"])
+    .index("by_count", ["postCount"]),
+
+  // Precomputed trending scores of listed posts, one row per post and window -
+  // rewritten by each trending run, posts with no engagement in a window have none
+  trendingScores: defineTable({
+    postId: v.id("posts"),
+    window: v.union(v.literal("24h"), v.literal("7d"), v.literal("30d")),
+    score: v.number(),
+
+    computedAt: v.number(),
+  })
+    .index("by_window_score", ["window", "score"])
+    .index("by_post", ["postId"])
+    .index("by_computed", ["computedAt"]),
+
+  // Multi-part collections of an author's posts, e.g. a tutorial in parts
+  series: defineTable({
+    authorId: v.id("users"),
+    title: v.string(),
+    slug: v.string(), // URL slug, unique per author: /[username]/series/[slug]
+    description: v.optional(v.string()),
+    postIds: v.array(v.id("posts")), // Parts in reading order
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_author", ["authorId"])
+    .index("by_author_slug", ["authorId", "slug"]),
+
+  // Team-owned blogs with their own profile page: /publications/[slug]
+  publications: defineTable({
+    name: v.string(),
+    slug: v.string(), // Globally unique
+    description: v.optional(v.string()),
+    logoUrl: v.optional(v.string()), // ImageKit URL
+    createdBy: v.id("users"),
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_slug", ["slug"]),
+
+  // Members of a publication - admins manage it, editors edit its posts, writers add their own
+  publicationMembers: defineTable({
+    publicationId: v.id("publications"),
+    userId: v.id("users"),
+    role: v.union(v.literal("admin"), v.literal("editor"), v.literal("writer")),
+
+    createdAt: v.number(),
+  })
+    .index("by_publication", ["publicationId"])
+    .index("by_user", ["userId"])
+    .index("by_publication_user", ["publicationId", "userId"]),
+
+  // Co-authors of a post besides its original author (who is always an owner)
+  postCollaborators: defineTable({
+    postId: v.id("posts"),
+    userId: v.id("users"),
+    invitedBy: v.id("users"),
+    role: v.union(v.literal("owner"), v.literal("editor")),
+    status: v.union(v.literal("pending"), v.literal("accepted")),
+
+    createdAt: v.number(),
+    acceptedAt: v.optional(v.number()),
+  })
+    .index("by_post", ["postId"])
+    .index("by_post_user", ["postId", "userId"])
+    .index("by_user_status", ["userId", "status"]),
+
+  // Reviewers an author has designated; their posts must be approved before publishing
+  reviewers: defineTable({
+    authorId: v.id("users"),
+    reviewerId: v.id("users"),
+
+    createdAt: v.number(),
+  })
+    .index("by_author", ["authorId"])
+    .index("by_reviewer", ["reviewerId"])
+    .index("by_author_reviewer", ["authorId", "reviewerId"]),
+
+  // Review notes on a post, optionally anchored to a quoted passage
+  reviewNotes: defineTable({
+    postId: v.id("posts"),
+    authorId: v.id("users"), // Who wrote the note
+
+    quote: v.optional(v.string()), // Selected text the note refers to
+    body: v.string(),
+    resolvedAt: v.optional(v.number()),
+
+    createdAt: v.number(),
+  }).index("by_post", ["postId"]),
+
+  // Old post slugs that permanently redirect to the post's current URL
+  postSlugRedirects: defineTable({
+    authorId: v.id("users"),
+    slug: v.string(),
+    postId: v.id("posts"),
+
+    createdAt: v.number(),
+  })
+    .index("by_author_slug", ["authorId", "slug"])
+    .index("by_post", ["postId"]),
+
+  // Expiring, revocable links for sharing an unpublished post
+  postPreviews: defineTable({
+    postId: v.id("posts"),
+    authorId: v.id("users"),
+    token: v.string(), // Unguessable id used in /preview/[token]
+
+    expiresAt: v.number(),
+    expiredAt: v.optional(v.number()), // Set by the job scheduled for expiresAt
+    revokedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_token", ["token"])
+    .index("by_post", ["postId"]),
+
+  // Post revision history - snapshots taken on save, publish and AI rewrites
+  postRevisions: defineTable({
+    postId: v.id("posts"),
+    editorId: v.id("users"), // User who made this revision
+
+    title: v.string(),
+    content: v.string(),
+    source: v.union(
+      v.literal("save"),
+      v.literal("publish"),
+      v.literal("ai"),
+      v.literal("restore")
+    ),
+    note: v.optional(v.string()), // e.g. "Before AI expand"
+
+    createdAt: v.number(),
+    updatedAt: v.number(), // Autosaves fold into the latest "save" revision
+  }).index("by_post", ["postId"]),
+
+  // Live editing session of a post - the shared Quill document co-writers edit
+  collabDocuments: defineTable({
+    postId: v.id("posts"),
+    contents: v.string(), // JSON Quill delta of the whole document
+    version: v.number(), // Number of edits applied since the session started
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_post", ["postId"]),
+
+  // Edits applied to a live editing session, in the order the server accepted them
+  collabEdits: defineTable({
+    documentId: v.id("collabDocuments"),
+    userId: v.id("users"),
+    clientId: v.string(), // Editor tab that made the edit
+
+    version: v.number(), // Document version this edit produced
+    delta: v.string(), // JSON Quill delta against the previous version
+
+    createdAt: v.number(),
+  }).index("by_document_version", ["documentId", "version"]),
+
+  // Who has a post open in the editor and where their cursor is
+  editorPresence: defineTable({
+    postId: v.id("posts"),
+    userId: v.id("users"),
+    clientId: v.string(),
+
+    cursorIndex: v.optional(v.number()),
+    cursorLength: v.optional(v.number()),
+
+    updatedAt: v.number(), // Heartbeat - stale rows are cleaned up by a cron
+  })
+    .index("by_post", ["postId"])
+    .index("by_client", ["clientId"])
+    .index("by_updated", ["updatedAt"]),
 
   // Comments system
   comments: defineTable({
@@ -69,7 +296,8 @@ export default defineSchema({
   })
     .index("by_post", ["postId"])
     .index("by_post_status", ["postId", "status"])
-    .index("by_author", ["authorId"]),
+    .index("by_author", ["authorId"])
+    .index("by_created", ["createdAt"]),
 
   // Likes system
   likes: defineTable({
@@ -80,7 +308,8 @@ export default defineSchema({
   })
     .index("by_post", ["postId"])
     .index("by_user", ["userId"])
-    .index("by_post_user", ["postId", "userId"]), // Prevent duplicate likes
+    .index("by_post_user", ["postId", "userId"]) // Prevent duplicate likes
+    .index("by_created", ["createdAt"]),
 
   // Follow/Subscribe system (combines following and newsletter subscription)
   follows: defineTable({
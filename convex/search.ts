@@ -0,0 +1,253 @@
+import { v } from "convex/values";
+import { internalMutation, query, type QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id, Doc } from "./_generated/dataModel";
+import { getCoAuthors } from "./collaborators";
+import { htmlToText } from "../lib/post-text";
+import { getSearchSnippet, getSearchText, matchesSearch } from "../lib/search";
+
+// Type definitions
+type AuthorInfo = {
+  _id: Id<"users">;
+  name: string;
+  username?: string;
+  imageUrl?: string;
+};
+
+type SearchResult = {
+  _id: Id<"posts">;
+  title: string;
+  slug?: string;
+  tags: string[];
+  category?: string;
+  featuredImage?: string;
+  publishedAt?: number;
+  readingTime?: number;
+  author: AuthorInfo;
+  coAuthors: AuthorInfo[];
+  snippet: string; // Plain text around the first match, for highlighting
+};
+
+type UserPostResult = Doc<"posts"> & {
+  username?: string;
+  role: "owner" | "editor";
+  shared: boolean;
+};
+
+type SearchPostsArgs = {
+  query: string;
+  author?: string;
+  tag?: string;
+  category?: string;
+  from?: number;
+  to?: number;
+};
+
+const MAX_RESULTS: number = 20;
+// Matches fetched before the filters the index can't apply (tag, dates, visibility)
+const MAX_CANDIDATES: number = 100;
+const BACKFILL_BATCH_SIZE: number = 100;
+
+async function getCurrentUser(ctx: QueryCtx): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  return await ctx.db
+    .query("users")
+    .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+    .unique();
+}
+
+// Published, public posts matching the filters - best matches first, or the
+// newest when there's no search text
+async function findPublishedPosts(
+  ctx: QueryCtx,
+  args: SearchPostsArgs,
+  authorId: Id<"users"> | undefined
+): Promise<Doc<"posts">[]> {
+  if (args.query.trim()) {
+    return await ctx.db
+      .query("posts")
+      .withSearchIndex("search_text", (q) => {
+        let search = q.search("searchText", args.query).eq("status", "published");
+        if (authorId) {
+          search = search.eq("authorId", authorId);
+        }
+        if (args.category) {
+          search = search.eq("category", args.category);
+        }
+        return search;
+      })
+      .take(MAX_CANDIDATES);
+  }
+
+  const posts: Doc<"posts">[] = authorId
+    ? await ctx.db
+        .query("posts")
+        .withIndex("by_author_status", (q) =>
+          q.eq("authorId", authorId).eq("status", "published")
+        )
+        .order("desc")
+        .take(MAX_CANDIDATES)
+    : await ctx.db
+        .query("posts")
+        .withIndex("by_published", (q) => q.eq("status", "published"))
+        .order("desc")
+        .take(MAX_CANDIDATES);
+
+  return args.category
+    ? posts.filter((post: Doc<"posts">) => post.category === args.category)
+    : posts;
+}
+
+// Search published posts by their text, tags and category
+export const searchPosts = query({
+  args: {
+    query: v.string(),
+    author: v.optional(v.string()), // Username
+    tag: v.optional(v.string()),
+    category: v.optional(v.string()),
+    from: v.optional(v.number()), // Published at or after
+    to: v.optional(v.number()), // Published before
+  },
+  handler: async (ctx, args: SearchPostsArgs): Promise<SearchResult[]> => {
+    let authorId: Id<"users"> | undefined;
+    if (args.author) {
+      const author = await ctx.db
+        .query("users")
+        .withIndex("by_username", (q) => q.eq("username", args.author))
+        .unique();
+      if (!author) {
+        return [];
+      }
+      authorId = author._id;
+    }
+
+    const tag: string | undefined = args.tag?.toLowerCase();
+    const posts = (await findPublishedPosts(ctx, args, authorId)).filter(
+      (post: Doc<"posts">) =>
+        post.deletedAt === undefined &&
+        post.visibility !== "unlisted" &&
+        post.visibility !== "followers" &&
+        (!tag || post.tags.some((postTag) => postTag.toLowerCase() === tag)) &&
+        (args.from === undefined || (post.publishedAt ?? 0) >= args.from) &&
+        (args.to === undefined || (post.publishedAt ?? 0) < args.to)
+    );
+
+    const results: (SearchResult | null)[] = await Promise.all(
+      posts
+        .slice(0, MAX_RESULTS)
+        .map(async (post: Doc<"posts">): Promise<SearchResult | null> => {
+          const author: Doc<"users"> | null = await ctx.db.get(post.authorId);
+          if (!author) {
+            return null;
+          }
+
+          return {
+            _id: post._id,
+            title: post.title,
+            slug: post.slug,
+            tags: post.tags,
+            category: post.category,
+            featuredImage: post.featuredImage,
+            publishedAt: post.publishedAt,
+            readingTime: post.readingTime,
+            author: {
+              _id: author._id,
+              name: author.name,
+              username: author.username,
+              imageUrl: author.imageUrl,
+            },
+            coAuthors: await getCoAuthors(ctx, post._id),
+            snippet: getSearchSnippet(htmlToText(post.content), args.query),
+          };
+        })
+    );
+
+    return results.filter(
+      (result): result is SearchResult => result !== null
+    );
+  },
+});
+
+// Search the signed-in user's own and co-authored posts, in any status
+export const searchUserPosts = query({
+  args: { query: v.string() },
+  handler: async (ctx, args): Promise<UserPostResult[]> => {
+    const user = await getCurrentUser(ctx);
+    if (!user || !args.query.trim()) {
+      return [];
+    }
+
+    const owned: Doc<"posts">[] = await ctx.db
+      .query("posts")
+      .withSearchIndex("search_text", (q) =>
+        q.search("searchText", args.query).eq("authorId", user._id)
+      )
+      .take(MAX_CANDIDATES);
+
+    // Co-authored posts are few, so they're matched here rather than through
+    // the index, which can only filter on a single author
+    const collaborations = await ctx.db
+      .query("postCollaborators")
+      .withIndex("by_user_status", (q) =>
+        q.eq("userId", user._id).eq("status", "accepted")
+      )
+      .collect();
+
+    const shared: UserPostResult[] = [];
+    for (const collaboration of collaborations) {
+      const post = await ctx.db.get(collaboration.postId);
+      if (!post || post.deletedAt !== undefined) {
+        continue;
+      }
+      if (!matchesSearch(post.searchText ?? getSearchText(post), args.query)) {
+        continue;
+      }
+
+      const author = await ctx.db.get(post.authorId);
+      shared.push({
+        ...post,
+        username: author?.username,
+        role: collaboration.role,
+        shared: true,
+      });
+    }
+
+    return [
+      ...owned
+        .filter((post: Doc<"posts">) => post.deletedAt === undefined)
+        .map((post: Doc<"posts">) => ({
+          ...post,
+          username: user.username,
+          role: "owner" as const,
+          shared: false,
+        })),
+      ...shared,
+    ];
+  },
+});
+
+// Index posts saved before search covered their text. Run once after
+// deploying: npx convex run search:backfillSearchText
+export const backfillSearchText = internalMutation({
+  handler: async (ctx) => {
+    const posts = await ctx.db
+      .query("posts")
+      .filter((q) => q.eq(q.field("searchText"), undefined))
+      .take(BACKFILL_BATCH_SIZE);
+
+    for (const post of posts) {
+      await ctx.db.patch(post._id, { searchText: getSearchText(post) });
+    }
+
+    // Keep going in fresh transactions until every post is indexed
+    if (posts.length === BACKFILL_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.search.backfillSearchText, {});
+    }
+
+    return { indexed: posts.length };
+  },
+});
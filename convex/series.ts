@@ -0,0 +1,407 @@
+import { v } from "convex/values";
+import {
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import type { Id, Doc } from "./_generated/dataModel";
+import { canViewFollowersOnly } from "./public";
+import { slugify } from "../lib/slug";
+
+// Type definitions
+type AuthorInfo = {
+  _id: Id<"users">;
+  name: string;
+  username?: string;
+  imageUrl?: string;
+};
+
+type SeriesSummary = Doc<"series"> & {
+  postCount: number;
+};
+
+type SeriesPart = {
+  _id: Id<"posts">;
+  title: string;
+  slug?: string;
+  publishedAt?: number;
+};
+
+type SeriesNavigation = {
+  series: Doc<"series">;
+  parts: SeriesPart[];
+  currentIndex: number;
+} | null;
+
+type PublishedSeries = {
+  series: Doc<"series">;
+  author: AuthorInfo;
+  posts: Doc<"posts">[];
+} | null;
+
+const MAX_SERIES_TITLE_LENGTH: number = 120;
+const MAX_SERIES_DESCRIPTION_LENGTH: number = 500;
+
+// Posts readers can reach from a series: published, not trashed, not unlisted
+function isListedPart(
+  post: Doc<"posts"> | null,
+  showFollowersOnly: boolean
+): post is Doc<"posts"> {
+  return (
+    !!post &&
+    post.status === "published" &&
+    post.deletedAt === undefined &&
+    post.visibility !== "unlisted" &&
+    (showFollowersOnly || post.visibility !== "followers")
+  );
+}
+
+async function getCurrentUser(
+  ctx: QueryCtx | MutationCtx
+): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  return await ctx.db
+    .query("users")
+    .filter((q) => q.eq(q.field("tokenIdentifier"), identity.tokenIdentifier))
+    .unique();
+}
+
+// Load a series the signed-in user owns, or throw
+async function getOwnedSeries(
+  ctx: MutationCtx,
+  seriesId: Id<"series">
+): Promise<Doc<"series">> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const series: Doc<"series"> | null = await ctx.db.get(seriesId);
+  if (!series) {
+    throw new Error("Series not found");
+  }
+
+  if (series.authorId !== user._id) {
+    throw new Error("Not authorized");
+  }
+
+  return series;
+}
+
+function validateSeriesFields(title?: string, description?: string): void {
+  if (title !== undefined && title.trim().length === 0) {
+    throw new Error("Series title is required");
+  }
+
+  if (title !== undefined && title.trim().length > MAX_SERIES_TITLE_LENGTH) {
+    throw new Error("Series title is too long");
+  }
+
+  if (
+    description !== undefined &&
+    description.trim().length > MAX_SERIES_DESCRIPTION_LENGTH
+  ) {
+    throw new Error("Series description is too long");
+  }
+}
+
+// Move a post into a series (appended as the last part) or out of its series
+// - shared by the posts mutations
+export async function setPostSeries(
+  ctx: MutationCtx,
+  post: Doc<"posts">,
+  seriesId: Id<"series"> | null
+): Promise<void> {
+  if ((post.seriesId ?? null) === seriesId) {
+    return;
+  }
+
+  if (seriesId) {
+    const series: Doc<"series"> | null = await ctx.db.get(seriesId);
+    if (!series || series.authorId !== post.authorId) {
+      throw new Error("Series not found");
+    }
+
+    await ctx.db.patch(seriesId, {
+      postIds: [...series.postIds.filter((id) => id !== post._id), post._id],
+      updatedAt: Date.now(),
+    });
+  }
+
+  if (post.seriesId) {
+    const previous: Doc<"series"> | null = await ctx.db.get(post.seriesId);
+    if (previous) {
+      await ctx.db.patch(previous._id, {
+        postIds: previous.postIds.filter((id) => id !== post._id),
+        updatedAt: Date.now(),
+      });
+    }
+  }
+
+  await ctx.db.patch(post._id, { seriesId: seriesId ?? undefined });
+}
+
+// Create a new, empty series
+export const create = mutation({
+  args: {
+    title: v.string(),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Id<"series">> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    validateSeriesFields(args.title, args.description);
+
+    // Slugs are unique per author, so collisions get -2, -3...
+    const base: string = slugify(args.title);
+    let slug: string = base;
+    let suffix: number = 2;
+    while (
+      await ctx.db
+        .query("series")
+        .withIndex("by_author_slug", (q) =>
+          q.eq("authorId", user._id).eq("slug", slug)
+        )
+        .first()
+    ) {
+      slug = `${base}-${suffix++}`;
+    }
+
+    const now: number = Date.now();
+
+    return await ctx.db.insert("series", {
+      authorId: user._id,
+      title: args.title.trim(),
+      slug,
+      description: args.description?.trim() || undefined,
+      postIds: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Rename a series or change its description (the URL stays the same)
+export const update = mutation({
+  args: {
+    id: v.id("series"),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Id<"series">> => {
+    await getOwnedSeries(ctx, args.id);
+    validateSeriesFields(args.title, args.description);
+
+    await ctx.db.patch(args.id, {
+      ...(args.title !== undefined && { title: args.title.trim() }),
+      ...(args.description !== undefined && {
+        description: args.description.trim() || undefined,
+      }),
+      updatedAt: Date.now(),
+    });
+
+    return args.id;
+  },
+});
+
+// Put the parts of a series in a new order
+export const reorder = mutation({
+  args: {
+    id: v.id("series"),
+    postIds: v.array(v.id("posts")),
+  },
+  handler: async (ctx, args): Promise<Id<"series">> => {
+    const series = await getOwnedSeries(ctx, args.id);
+
+    // Only a reordering - parts are added and removed through the posts
+    const current = new Set<Id<"posts">>(series.postIds);
+    if (
+      args.postIds.length !== series.postIds.length ||
+      new Set(args.postIds).size !== args.postIds.length ||
+      !args.postIds.every((id) => current.has(id))
+    ) {
+      throw new Error("The new order must contain exactly the series' posts");
+    }
+
+    await ctx.db.patch(args.id, {
+      postIds: args.postIds,
+      updatedAt: Date.now(),
+    });
+
+    return args.id;
+  },
+});
+
+// Delete a series; its posts stay, they just stop being parts
+export const remove = mutation({
+  args: { id: v.id("series") },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const series = await getOwnedSeries(ctx, args.id);
+
+    const posts: Doc<"posts">[] = await ctx.db
+      .query("posts")
+      .withIndex("by_series", (q) => q.eq("seriesId", series._id))
+      .collect();
+
+    for (const post of posts) {
+      await ctx.db.patch(post._id, { seriesId: undefined });
+    }
+
+    await ctx.db.delete(series._id);
+    return { success: true };
+  },
+});
+
+// Get the signed-in user's series for the editor's series picker
+export const getMySeries = query({
+  handler: async (ctx): Promise<SeriesSummary[]> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const series: Doc<"series">[] = await ctx.db
+      .query("series")
+      .withIndex("by_author", (q) => q.eq("authorId", user._id))
+      .collect();
+
+    return series
+      .map((item) => ({ ...item, postCount: item.postIds.length }))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+});
+
+// Get the series a published post belongs to, with the parts a reader can open
+export const getSeriesNavigation = query({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args): Promise<SeriesNavigation> => {
+    const post: Doc<"posts"> | null = await ctx.db.get(args.postId);
+    if (!post?.seriesId) {
+      return null;
+    }
+
+    const series: Doc<"series"> | null = await ctx.db.get(post.seriesId);
+    if (!series) {
+      return null;
+    }
+
+    const showFollowersOnly = await canViewFollowersOnly(ctx, series.authorId);
+    const posts = await Promise.all(series.postIds.map((id) => ctx.db.get(id)));
+
+    // The post being read always shows, even when it's unlisted
+    const parts: SeriesPart[] = posts
+      .filter(
+        (part): part is Doc<"posts"> =>
+          part?._id === post._id || isListedPart(part, showFollowersOnly)
+      )
+      .map((part) => ({
+        _id: part._id,
+        title: part.title,
+        slug: part.slug,
+        publishedAt: part.publishedAt,
+      }));
+
+    return {
+      series,
+      parts,
+      currentIndex: parts.findIndex((part) => part._id === post._id),
+    };
+  },
+});
+
+// Get a series and its readable parts for the series landing page
+export const getPublishedSeries = query({
+  args: {
+    username: v.string(),
+    slug: v.string(),
+  },
+  handler: async (ctx, args): Promise<PublishedSeries> => {
+    const user = await ctx.db
+      .query("users")
+      .filter((q) => q.eq(q.field("username"), args.username))
+      .unique();
+
+    if (!user) {
+      return null;
+    }
+
+    const series: Doc<"series"> | null = await ctx.db
+      .query("series")
+      .withIndex("by_author_slug", (q) =>
+        q.eq("authorId", user._id).eq("slug", args.slug)
+      )
+      .unique();
+
+    if (!series) {
+      return null;
+    }
+
+    const showFollowersOnly = await canViewFollowersOnly(ctx, user._id);
+    const posts = await Promise.all(series.postIds.map((id) => ctx.db.get(id)));
+
+    return {
+      series,
+      author: {
+        _id: user._id,
+        name: user.name,
+        username: user.username,
+        imageUrl: user.imageUrl,
+      },
+      posts: posts.filter((post) => isListedPart(post, showFollowersOnly)),
+    };
+  },
+});
+
+// Get an author's series that have at least one readable part (public profile)
+export const getSeriesByUsername = query({
+  args: { username: v.string() },
+  handler: async (ctx, args): Promise<SeriesSummary[]> => {
+    const user = await ctx.db
+      .query("users")
+      .filter((q) => q.eq(q.field("username"), args.username))
+      .unique();
+
+    if (!user) {
+      return [];
+    }
+
+    const showFollowersOnly = await canViewFollowersOnly(ctx, user._id);
+    const series: Doc<"series">[] = await ctx.db
+      .query("series")
+      .withIndex("by_author", (q) => q.eq("authorId", user._id))
+      .collect();
+
+    const summaries: SeriesSummary[] = await Promise.all(
+      series.map(async (item): Promise<SeriesSummary> => {
+        const posts = await Promise.all(item.postIds.map((id) => ctx.db.get(id)));
+        return {
+          ...item,
+          postCount: posts.filter((post) => isListedPart(post, showFollowersOnly))
+            .length,
+        };
+      })
+    );
+
+    return summaries
+      .filter((item) => item.postCount > 0)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+});
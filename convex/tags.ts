@@ -0,0 +1,224 @@
+import { v } from "convex/values";
+import { paginationOptsValidator, type PaginationResult } from "convex/server";
+import {
+  internalMutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id, Doc } from "./_generated/dataModel";
+import { getCoAuthors } from "./collaborators";
+import { normalizeTag } from "../lib/tags";
+
+// Type definitions
+type AuthorInfo = {
+  _id: Id<"users">;
+  name: string;
+  username?: string;
+  imageUrl?: string;
+};
+
+type PostWithAuthor = Doc<"posts"> & {
+  author: AuthorInfo;
+  coAuthors: AuthorInfo[];
+};
+
+type TagCount = {
+  tag: string;
+  postCount: number;
+};
+
+const BACKFILL_BATCH_SIZE: number = 100;
+
+// Whether a post shows up on tag and category pages
+const isListed = (post: Doc<"posts">): boolean =>
+  post.status === "published" &&
+  post.deletedAt === undefined &&
+  post.visibility !== "unlisted" &&
+  post.visibility !== "followers";
+
+async function adjustTagCount(
+  ctx: MutationCtx,
+  tag: string,
+  change: number
+): Promise<void> {
+  const existing = await ctx.db
+    .query("tagCounts")
+    .withIndex("by_tag", (q) => q.eq("tag", tag))
+    .unique();
+
+  const postCount: number = (existing?.postCount ?? 0) + change;
+  if (existing && postCount <= 0) {
+    await ctx.db.delete(existing._id);
+  } else if (existing) {
+    await ctx.db.patch(existing._id, { postCount, updatedAt: Date.now() });
+  } else if (postCount > 0) {
+    await ctx.db.insert("tagCounts", { tag, postCount, updatedAt: Date.now() });
+  }
+}
+
+// Bring a post's tag rows and the tag counts in line with the post as it is
+// now. Call after any write that can change its status, tags, visibility or
+// trash state - including deleting it.
+export async function syncPostTags(
+  ctx: MutationCtx,
+  postId: Id<"posts">
+): Promise<void> {
+  const post: Doc<"posts"> | null = await ctx.db.get(postId);
+  const wanted: Set<string> = new Set(
+    post && isListed(post)
+      ? post.tags.map(normalizeTag).filter((tag: string) => tag.length > 0)
+      : []
+  );
+  const publishedAt: number = post?.publishedAt ?? 0;
+
+  const existing = await ctx.db
+    .query("postTags")
+    .withIndex("by_post", (q) => q.eq("postId", postId))
+    .collect();
+
+  for (const row of existing) {
+    if (!wanted.delete(row.tag)) {
+      await ctx.db.delete(row._id);
+      await adjustTagCount(ctx, row.tag, -1);
+    } else if (row.publishedAt !== publishedAt) {
+      await ctx.db.patch(row._id, { publishedAt });
+    }
+  }
+
+  // What's left wasn't tagged before
+  for (const tag of wanted) {
+    await ctx.db.insert("postTags", { postId, tag, publishedAt });
+    await adjustTagCount(ctx, tag, 1);
+  }
+}
+
+// Attach the author and co-authors to each post, dropping posts whose author is gone
+async function withAuthors(
+  ctx: QueryCtx,
+  posts: Doc<"posts">[]
+): Promise<PostWithAuthor[]> {
+  const results: PostWithAuthor[] = [];
+  for (const post of posts) {
+    const author: Doc<"users"> | null = await ctx.db.get(post.authorId);
+    if (!author) {
+      continue;
+    }
+
+    results.push({
+      ...post,
+      author: {
+        _id: author._id,
+        name: author.name,
+        username: author.username,
+        imageUrl: author.imageUrl,
+      },
+      coAuthors: await getCoAuthors(ctx, post._id),
+    });
+  }
+  return results;
+}
+
+// Most used tags across listed posts
+export const getPopularTags = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args): Promise<TagCount[]> => {
+    const tags = await ctx.db
+      .query("tagCounts")
+      .withIndex("by_count")
+      .order("desc")
+      .take(args.limit || 20);
+
+    return tags.map((tag) => ({ tag: tag.tag, postCount: tag.postCount }));
+  },
+});
+
+// Number of listed posts with a tag, or null for a tag nobody uses
+export const getTag = query({
+  args: { tag: v.string() },
+  handler: async (ctx, args): Promise<TagCount | null> => {
+    const tag = await ctx.db
+      .query("tagCounts")
+      .withIndex("by_tag", (q) => q.eq("tag", normalizeTag(args.tag)))
+      .unique();
+
+    return tag ? { tag: tag.tag, postCount: tag.postCount } : null;
+  },
+});
+
+// Listed posts with a tag, newest first
+export const getTagPosts = query({
+  args: {
+    tag: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args): Promise<PaginationResult<PostWithAuthor>> => {
+    const result = await ctx.db
+      .query("postTags")
+      .withIndex("by_tag_published", (q) => q.eq("tag", normalizeTag(args.tag)))
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    const posts: Doc<"posts">[] = [];
+    for (const row of result.page) {
+      const post: Doc<"posts"> | null = await ctx.db.get(row.postId);
+      if (post && isListed(post)) {
+        posts.push(post);
+      }
+    }
+
+    return { ...result, page: await withAuthors(ctx, posts) };
+  },
+});
+
+// Listed posts in a category, newest first
+export const getCategoryPosts = query({
+  args: {
+    category: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args): Promise<PaginationResult<PostWithAuthor>> => {
+    const result = await ctx.db
+      .query("posts")
+      .withIndex("by_category_published", (q) =>
+        q.eq("category", args.category).eq("status", "published")
+      )
+      .order("desc")
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("deletedAt"), undefined),
+          q.neq(q.field("visibility"), "unlisted"),
+          q.neq(q.field("visibility"), "followers")
+        )
+      )
+      .paginate(args.paginationOpts);
+
+    return { ...result, page: await withAuthors(ctx, result.page) };
+  },
+});
+
+// Index the tags of posts published before tag pages existed. Run once after
+// deploying: npx convex run tags:backfillPostTags
+export const backfillPostTags = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("posts")
+      .withIndex("by_status", (q) => q.eq("status", "published"))
+      .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH_SIZE });
+
+    for (const post of result.page) {
+      await syncPostTags(ctx, post._id);
+    }
+
+    // Keep going in fresh transactions until every post is indexed
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.tags.backfillPostTags, {
+        cursor: result.continueCursor,
+      });
+    }
+
+    return { indexed: result.page.length };
+  },
+});
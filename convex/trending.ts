@@ -0,0 +1,290 @@
+import { v } from "convex/values";
+import { paginationOptsValidator, type PaginationResult } from "convex/server";
+import { internalMutation, query, type MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id, Doc } from "./_generated/dataModel";
+import { getCoAuthors } from "./collaborators";
+import {
+  ENGAGEMENT_WEIGHTS,
+  MAX_TRENDING_WINDOW_MS,
+  TRENDING_WINDOWS,
+  dailyViewsAt,
+  scoreEngagement,
+  type EngagementEvent,
+} from "../lib/trending";
+
+// Type definitions
+type AuthorInfo = {
+  _id: Id<"users">;
+  name: string;
+  username?: string;
+  imageUrl?: string;
+};
+
+type TrendingPost = Doc<"posts"> & {
+  trendingScore: number;
+  author: AuthorInfo;
+  coAuthors: AuthorInfo[];
+};
+
+const windowValidator = v.union(
+  v.literal("24h"),
+  v.literal("7d"),
+  v.literal("30d")
+);
+
+// Engagement rows a trending run reads, in order
+const ENGAGEMENT_SOURCES = ["dailyStats", "likes", "comments"] as const;
+
+type EngagementSource = (typeof ENGAGEMENT_SOURCES)[number];
+
+const engagementSourceValidator = v.union(
+  v.literal("dailyStats"),
+  v.literal("likes"),
+  v.literal("comments")
+);
+
+// Engagement rows, or stale scores, one transaction handles
+const TRENDING_BATCH_SIZE: number = 100;
+
+// Whether a post can show up on the Trending tab
+const isListed = (post: Doc<"posts">): boolean =>
+  post.status === "published" &&
+  post.deletedAt === undefined &&
+  post.visibility !== "unlisted" &&
+  post.visibility !== "followers";
+
+// Every view, like and approved comment the post got in the widest window
+async function getEngagement(
+  ctx: MutationCtx,
+  postId: Id<"posts">,
+  now: number
+): Promise<EngagementEvent[]> {
+  const cutoff: number = now - MAX_TRENDING_WINDOW_MS;
+  const cutoffDate: string = new Date(cutoff).toISOString().split("T")[0]; // YYYY-MM-DD
+  const events: EngagementEvent[] = [];
+
+  const stats: Doc<"dailyStats">[] = await ctx.db
+    .query("dailyStats")
+    .withIndex("by_post_date", (q) =>
+      q.eq("postId", postId).gte("date", cutoffDate)
+    )
+    .collect();
+  for (const stat of stats) {
+    events.push({
+      at: dailyViewsAt(stat.date, now),
+      weight: stat.views * ENGAGEMENT_WEIGHTS.view,
+    });
+  }
+
+  const likes: Doc<"likes">[] = await ctx.db
+    .query("likes")
+    .withIndex("by_post", (q) => q.eq("postId", postId))
+    .filter((q) => q.gte(q.field("createdAt"), cutoff))
+    .collect();
+  for (const like of likes) {
+    events.push({ at: like.createdAt, weight: ENGAGEMENT_WEIGHTS.like });
+  }
+
+  const comments: Doc<"comments">[] = await ctx.db
+    .query("comments")
+    .withIndex("by_post_status", (q) =>
+      q.eq("postId", postId).eq("status", "approved")
+    )
+    .filter((q) => q.gte(q.field("createdAt"), cutoff))
+    .collect();
+  for (const comment of comments) {
+    events.push({ at: comment.createdAt, weight: ENGAGEMENT_WEIGHTS.comment });
+  }
+
+  return events;
+}
+
+// Bring the post's trendingScores rows in line with its engagement: update
+// the windows it still scores in, add new ones, drop the rest
+async function rescorePost(
+  ctx: MutationCtx,
+  postId: Id<"posts">,
+  now: number
+): Promise<void> {
+  const post: Doc<"posts"> | null = await ctx.db.get(postId);
+  const events: EngagementEvent[] =
+    post && isListed(post) ? await getEngagement(ctx, postId, now) : [];
+
+  const existing: Doc<"trendingScores">[] = await ctx.db
+    .query("trendingScores")
+    .withIndex("by_post", (q) => q.eq("postId", postId))
+    .collect();
+
+  for (const window of TRENDING_WINDOWS) {
+    const score: number = scoreEngagement(events, window, now);
+    const row: Doc<"trendingScores"> | undefined = existing.find(
+      (row: Doc<"trendingScores">) => row.window === window
+    );
+
+    if (score <= 0) {
+      if (row) {
+        await ctx.db.delete(row._id);
+      }
+    } else if (row) {
+      await ctx.db.patch(row._id, { score, computedAt: now });
+    } else {
+      await ctx.db.insert("trendingScores", {
+        postId,
+        window,
+        score,
+        computedAt: now,
+      });
+    }
+  }
+}
+
+// Rescore every post with engagement in the widest window, one batch of
+// engagement rows per transaction: first daily views, then likes, then
+// comments. Started by the trending cron.
+export const computeTrendingScores = internalMutation({
+  args: {
+    startedAt: v.optional(v.number()),
+    source: v.optional(engagementSourceValidator),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    // Every batch scores as of the run's start, so its scores agree
+    const now: number = args.startedAt ?? Date.now();
+    const source: EngagementSource = args.source ?? "dailyStats";
+    const cutoff: number = now - MAX_TRENDING_WINDOW_MS;
+    const cutoffDate: string = new Date(cutoff).toISOString().split("T")[0]; // YYYY-MM-DD
+    const paginationOpts = {
+      cursor: args.cursor ?? null,
+      numItems: TRENDING_BATCH_SIZE,
+    };
+
+    const result: PaginationResult<{ postId: Id<"posts"> }> =
+      source === "dailyStats"
+        ? await ctx.db
+            .query("dailyStats")
+            .withIndex("by_date", (q) => q.gte("date", cutoffDate))
+            .paginate(paginationOpts)
+        : source === "likes"
+          ? await ctx.db
+              .query("likes")
+              .withIndex("by_created", (q) => q.gte("createdAt", cutoff))
+              .paginate(paginationOpts)
+          : await ctx.db
+              .query("comments")
+              .withIndex("by_created", (q) => q.gte("createdAt", cutoff))
+              .filter((q) => q.eq(q.field("status"), "approved"))
+              .paginate(paginationOpts);
+
+    let rescored: number = 0;
+    const postIds: Set<Id<"posts">> = new Set(
+      result.page.map((row: { postId: Id<"posts"> }) => row.postId)
+    );
+    for (const postId of postIds) {
+      // Already rescored this run, from an earlier batch
+      const current: Doc<"trendingScores"> | null = await ctx.db
+        .query("trendingScores")
+        .withIndex("by_post", (q) => q.eq("postId", postId))
+        .first();
+      if (current?.computedAt === now) {
+        continue;
+      }
+
+      await rescorePost(ctx, postId, now);
+      rescored++;
+    }
+
+    // Keep going in fresh transactions until every source is read, then
+    // drop the scores of posts whose engagement has aged out
+    const next: EngagementSource | undefined =
+      ENGAGEMENT_SOURCES[ENGAGEMENT_SOURCES.indexOf(source) + 1];
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.trending.computeTrendingScores, {
+        startedAt: now,
+        source,
+        cursor: result.continueCursor,
+      });
+    } else if (next) {
+      await ctx.scheduler.runAfter(0, internal.trending.computeTrendingScores, {
+        startedAt: now,
+        source: next,
+      });
+    } else {
+      await ctx.scheduler.runAfter(0, internal.trending.dropStaleScores, {
+        startedAt: now,
+      });
+    }
+
+    return { rescored };
+  },
+});
+
+// Delete the scores a run didn't rewrite - posts with no engagement left in
+// any window - a batch per transaction
+export const dropStaleScores = internalMutation({
+  args: { startedAt: v.number() },
+  handler: async (ctx, args) => {
+    const stale: Doc<"trendingScores">[] = await ctx.db
+      .query("trendingScores")
+      .withIndex("by_computed", (q) => q.lt("computedAt", args.startedAt))
+      .take(TRENDING_BATCH_SIZE);
+
+    for (const row of stale) {
+      await ctx.db.delete(row._id);
+    }
+
+    if (stale.length === TRENDING_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.trending.dropStaleScores, {
+        startedAt: args.startedAt,
+      });
+    }
+
+    return { dropped: stale.length };
+  },
+});
+
+// Get the posts with the most recent engagement in the window, hottest first
+export const getTrendingPosts = query({
+  args: {
+    window: windowValidator,
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<PaginationResult<TrendingPost>> => {
+    const result = await ctx.db
+      .query("trendingScores")
+      .withIndex("by_window_score", (q) => q.eq("window", args.window))
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    // Scores are up to a cron interval old, so skip posts unlisted since
+    const trendingPosts: TrendingPost[] = [];
+    for (const row of result.page) {
+      const post: Doc<"posts"> | null = await ctx.db.get(row.postId);
+      if (!post || !isListed(post)) {
+        continue;
+      }
+
+      const author: Doc<"users"> | null = await ctx.db.get(post.authorId);
+      if (!author) {
+        continue;
+      }
+
+      trendingPosts.push({
+        ...post,
+        trendingScore: row.score,
+        author: {
+          _id: author._id,
+          name: author.name,
+          username: author.username,
+          imageUrl: author.imageUrl,
+        },
+        coAuthors: await getCoAuthors(ctx, post._id),
+      });
+    }
+
+    return { ...result, page: trendingPosts };
+  },
+});
@@ -0,0 +1,281 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import Delta from "quill-delta";
+import type { Quill } from "react-quill-new";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+
+// Type definitions
+export type Collaborator = {
+  clientId: string;
+  userId: Id<"users">;
+  name: string;
+  imageUrl?: string;
+  cursorIndex?: number;
+  cursorLength?: number;
+  color: string;
+};
+
+type Session = {
+  documentId: Id<"collabDocuments">;
+  version: number;
+};
+
+const HEARTBEAT_INTERVAL_MS: number = 10 * 1000;
+const CURSOR_THROTTLE_MS: number = 250;
+
+const COLLABORATOR_COLORS: string[] = [
+  "#F87171",
+  "#FB923C",
+  "#FACC15",
+  "#4ADE80",
+  "#2DD4BF",
+  "#60A5FA",
+  "#A78BFA",
+  "#F472B6",
+];
+
+// Same user, same color - in every tab and on every co-writer's screen
+export function getCollaboratorColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+}
+
+const sameDocument = (a: Delta, b: Delta): boolean =>
+  JSON.stringify(a.ops) === JSON.stringify(b.ops);
+
+/**
+ * Keeps a Quill editor in sync with everyone else editing the same post.
+ *
+ * Local changes go to the server one at a time: while one edit is in flight,
+ * further typing is buffered. Remote edits are transformed past the in-flight
+ * and buffered changes before they're applied, so every editor converges on
+ * the document the server holds. Also reports this editor's cursor and
+ * returns the other people who have the post open.
+ */
+export function useCollaborativeQuill(
+  postId: Id<"posts"> | undefined,
+  quill: Quill | null
+): Collaborator[] {
+  const [clientId] = useState<string>(() => crypto.randomUUID());
+  const [session, setSession] = useState<Session | null>(null);
+
+  // Only the latest join may install its session
+  const joinIdRef = useRef<number>(0);
+  const sessionRef = useRef<Session | null>(null);
+  const inflightRef = useRef<Delta | null>(null);
+  const bufferRef = useRef<Delta | null>(null);
+  // Set while applying server changes so they aren't sent back as local edits
+  const applyingRemoteRef = useRef<boolean>(false);
+  const joinRef = useRef<() => void>(() => {});
+
+  const openDocument = useMutation(api.collab.openDocument);
+  const submitEdit = useMutation(api.collab.submitEdit);
+  const updatePresence = useMutation(api.collab.updatePresence);
+  const leave = useMutation(api.collab.leave);
+
+  const edits = useQuery(
+    api.collab.getEdits,
+    session ? { documentId: session.documentId, since: session.version } : "skip"
+  );
+  const presence = useQuery(
+    api.collab.getPresence,
+    postId ? { postId } : "skip"
+  );
+
+  // Send the buffered changes once the previous edit has been accepted
+  const flush = useCallback((): void => {
+    const current = sessionRef.current;
+    if (!current || inflightRef.current || !bufferRef.current) return;
+
+    const delta = bufferRef.current;
+    inflightRef.current = delta;
+    bufferRef.current = null;
+
+    submitEdit({
+      documentId: current.documentId,
+      clientId,
+      baseVersion: current.version,
+      delta: JSON.stringify(delta.ops),
+    }).catch(() => {
+      // The session ended or this editor fell too far behind - start over
+      joinRef.current();
+    });
+  }, [clientId, submitEdit]);
+
+  // Join the post's editing session, seeding it with this editor's document
+  // when nobody else is in it
+  const join = useCallback((): void => {
+    if (!postId || !quill) return;
+
+    const joinId = ++joinIdRef.current;
+    sessionRef.current = null;
+    inflightRef.current = null;
+    bufferRef.current = null;
+    const sent = quill.getContents();
+
+    openDocument({ postId, clientId, contents: JSON.stringify(sent.ops) })
+      .then((opened) => {
+        if (joinId !== joinIdRef.current) return;
+
+        const shared = new Delta(JSON.parse(opened.contents));
+        const local = quill.getContents();
+
+        if (sameDocument(shared, sent)) {
+          // Keep whatever was typed while joining
+          const typed = sent.diff(local);
+          bufferRef.current = typed.length() > 0 ? typed : null;
+        } else {
+          applyingRemoteRef.current = true;
+          quill.setContents(shared, "api");
+          applyingRemoteRef.current = false;
+          bufferRef.current = null;
+        }
+
+        inflightRef.current = null;
+        sessionRef.current = {
+          documentId: opened.documentId,
+          version: opened.version,
+        };
+        setSession(sessionRef.current);
+        flush();
+      })
+      .catch(() => {
+        // Collaboration is best-effort; the editor keeps working on its own
+      });
+  }, [postId, quill, clientId, openDocument, flush]);
+
+  // Join once the editor is ready, and again if it moves to another post
+  useEffect(() => {
+    joinRef.current = join;
+    join();
+  }, [join]);
+
+  // Queue local changes
+  useEffect(() => {
+    if (!quill) return;
+
+    const handleTextChange = (delta: Delta): void => {
+      if (applyingRemoteRef.current || !sessionRef.current) return;
+
+      bufferRef.current = bufferRef.current
+        ? bufferRef.current.compose(delta)
+        : delta;
+      flush();
+    };
+
+    quill.on("text-change", handleTextChange);
+    return () => {
+      quill.off("text-change", handleTextChange);
+    };
+  }, [quill, flush]);
+
+  // Apply edits from the server in version order
+  useEffect(() => {
+    if (edits === undefined || !quill) return;
+    if (edits === null) {
+      // The session was reset, or this editor fell too far behind, while it was away
+      if (sessionRef.current) join();
+      return;
+    }
+
+    const current = sessionRef.current;
+    if (!current) return;
+
+    let version = current.version;
+    for (const edit of edits) {
+      if (edit.version !== version + 1) continue;
+      version = edit.version;
+
+      if (edit.clientId === clientId) {
+        // The server accepted our in-flight edit
+        inflightRef.current = null;
+        continue;
+      }
+
+      let remote = new Delta(JSON.parse(edit.delta));
+      // The server ordered the remote edit first, so it wins ties
+      if (inflightRef.current) {
+        const inflight = inflightRef.current;
+        inflightRef.current = remote.transform(inflight, true);
+        remote = inflight.transform(remote, false);
+      }
+      if (bufferRef.current) {
+        const buffer = bufferRef.current;
+        bufferRef.current = remote.transform(buffer, true);
+        remote = buffer.transform(remote, false);
+      }
+
+      const selection = quill.getSelection();
+      applyingRemoteRef.current = true;
+      quill.updateContents(remote, "api");
+      applyingRemoteRef.current = false;
+      if (selection) {
+        const start = remote.transformPosition(selection.index);
+        const end = remote.transformPosition(
+          selection.index + selection.length
+        );
+        quill.setSelection(start, end - start, "silent");
+      }
+    }
+
+    if (version !== current.version) {
+      sessionRef.current = { ...current, version };
+      setSession(sessionRef.current);
+      flush();
+    }
+  }, [edits, quill, clientId, join, flush]);
+
+  // Share the cursor, and keep a heartbeat while the post is open
+  useEffect(() => {
+    if (!postId || !quill) return;
+
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+
+    const sendPresence = (): void => {
+      timeout = null;
+      const selection = quill.getSelection();
+      updatePresence({
+        postId,
+        clientId,
+        cursorIndex: selection?.index,
+        cursorLength: selection?.length,
+      }).catch(() => {
+        // A missed heartbeat is picked up by the next one
+      });
+    };
+
+    const handleEditorChange = (): void => {
+      if (!timeout) timeout = setTimeout(sendPresence, CURSOR_THROTTLE_MS);
+    };
+
+    const handleUnload = (): void => {
+      // The page may be gone before this lands - the presence TTL covers that
+      leave({ clientId }).catch(() => {});
+    };
+
+    quill.on("editor-change", handleEditorChange);
+    window.addEventListener("beforeunload", handleUnload);
+    const heartbeat = setInterval(sendPresence, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      quill.off("editor-change", handleEditorChange);
+      window.removeEventListener("beforeunload", handleUnload);
+      clearInterval(heartbeat);
+      if (timeout) clearTimeout(timeout);
+      leave({ clientId }).catch(() => {});
+    };
+  }, [postId, quill, clientId, updatePresence, leave]);
+
+  return (presence ?? [])
+    .filter((editor) => editor.clientId !== clientId)
+    .map((editor) => ({
+      ...editor,
+      color: getCollaboratorColor(editor.userId),
+    }));
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// The value as it was once it stopped changing for `delay` ms - for
+// search-as-you-type without a query per keystroke
+export function useDebouncedValue<Value>(value: Value, delay: number): Value {
+  const [debounced, setDebounced] = useState<Value>(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+}
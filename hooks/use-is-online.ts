@@ -0,0 +1,35 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { useConvex } from "convex/react";
+
+// Whether the app can reach the Convex backend right now. Before the first
+// connection it counts as online, so pages don't flash an offline state.
+export function useIsOnline(): boolean {
+  const convex = useConvex();
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const unsubscribe = convex.subscribeToConnectionState(onChange);
+      window.addEventListener("online", onChange);
+      window.addEventListener("offline", onChange);
+
+      return () => {
+        unsubscribe();
+        window.removeEventListener("online", onChange);
+        window.removeEventListener("offline", onChange);
+      };
+    },
+    [convex]
+  );
+
+  const getSnapshot = useCallback((): boolean => {
+    const state = convex.connectionState();
+    return (
+      navigator.onLine &&
+      (state.isWebSocketConnected || !state.hasEverConnected)
+    );
+  }, [convex]);
+
+  return useSyncExternalStore(subscribe, getSnapshot, () => true);
+}
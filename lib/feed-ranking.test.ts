@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_SIGNALS,
+  compareFeedKeys,
+  getLikedTags,
+  getRankKey,
+  getTagAffinity,
+  type FeedKey,
+  type RankablePost,
+  type ReaderSignals,
+} from "./feed-ranking";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15);
+
+type TestPost = RankablePost & { _id: string };
+
+const post = (_id: string, overrides: Partial<RankablePost> = {}): TestPost => ({
+  _id,
+  authorId: "author",
+  tags: [],
+  publishedAt: NOW,
+  viewCount: 0,
+  likeCount: 0,
+  ...overrides,
+});
+
+const ids = (posts: TestPost[]): string[] => posts.map((item) => item._id);
+
+// Order posts the way getForYouFeed pages through them
+const rankPosts = (
+  posts: TestPost[],
+  reader: ReaderSignals,
+  now: number
+): TestPost[] => {
+  const key = (item: TestPost): FeedKey => [
+    getRankKey(item, reader, now),
+    item._id,
+  ];
+  return [...posts].sort((a, b) => compareFeedKeys(key(a), key(b)));
+};
+
+const signals = (overrides: Partial<ReaderSignals>): ReaderSignals => ({
+  ...EMPTY_SIGNALS,
+  ...overrides,
+});
+
+describe("getLikedTags", () => {
+  it("counts each liked post once per normalized tag", () => {
+    const likedTags = getLikedTags([
+      { tags: ["React", "#react", "css"] },
+      { tags: ["react"] },
+    ]);
+
+    expect(Object.fromEntries(likedTags)).toEqual({ react: 2, css: 1 });
+  });
+
+  it("is empty without any likes", () => {
+    expect(getLikedTags([]).size).toBe(0);
+  });
+});
+
+describe("getTagAffinity", () => {
+  const likedTags = new Map([
+    ["react", 3],
+    ["css", 1],
+  ]);
+
+  it("is the share of liked tags the post carries", () => {
+    expect(getTagAffinity(["react"], likedTags)).toBeCloseTo(0.75);
+    expect(getTagAffinity(["CSS"], likedTags)).toBeCloseTo(0.25);
+    expect(getTagAffinity(["react", "css"], likedTags)).toBe(1);
+  });
+
+  it("doesn't count a tag twice", () => {
+    expect(getTagAffinity(["react", "React"], likedTags)).toBeCloseTo(0.75);
+  });
+
+  it("is 0 without a like history", () => {
+    expect(getTagAffinity(["react"], new Map())).toBe(0);
+  });
+});
+
+describe("For you ranking", () => {
+  it("puts posts with the reader's most liked tags first", () => {
+    const reader = signals({
+      likedTags: new Map([
+        ["react", 3],
+        ["css", 1],
+      ]),
+    });
+
+    const ranked = rankPosts(
+      [
+        post("untagged"),
+        post("css", { tags: ["css"] }),
+        post("react", { tags: ["React"] }),
+      ],
+      reader,
+      NOW
+    );
+
+    expect(ids(ranked)).toEqual(["react", "css", "untagged"]);
+  });
+
+  it("lets a liked tag outweigh a day or two of age", () => {
+    const reader = signals({ likedTags: new Map([["react", 1]]) });
+
+    const ranked = rankPosts(
+      [
+        post("new", { publishedAt: NOW - HOUR }),
+        post("liked", { publishedAt: NOW - 48 * HOUR, tags: ["react"] }),
+      ],
+      reader,
+      NOW
+    );
+
+    expect(ids(ranked)).toEqual(["liked", "new"]);
+  });
+
+  it("boosts followed authors", () => {
+    const reader = signals({ followedAuthorIds: new Set(["followed"]) });
+
+    const ranked = rankPosts(
+      [post("other"), post("followed", { authorId: "followed" })],
+      reader,
+      NOW
+    );
+
+    expect(ids(ranked)).toEqual(["followed", "other"]);
+  });
+
+  it("decays older posts below newer ones with the same signals", () => {
+    const ranked = rankPosts(
+      [
+        post("week", { publishedAt: NOW - 7 * 24 * HOUR }),
+        post("hour", { publishedAt: NOW - HOUR }),
+        post("day", { publishedAt: NOW - 24 * HOUR }),
+      ],
+      EMPTY_SIGNALS,
+      NOW
+    );
+
+    expect(ids(ranked)).toEqual(["hour", "day", "week"]);
+  });
+
+  it("doesn't let popularity bury much newer posts", () => {
+    const ranked = rankPosts(
+      [
+        post("viral", {
+          publishedAt: NOW - 7 * 24 * HOUR,
+          viewCount: 100000,
+          likeCount: 5000,
+        }),
+        post("fresh", { publishedAt: NOW - HOUR }),
+      ],
+      EMPTY_SIGNALS,
+      NOW
+    );
+
+    expect(ids(ranked)).toEqual(["fresh", "viral"]);
+  });
+
+  it("breaks exact ties by post ID", () => {
+    expect(ids(rankPosts([post("a"), post("b")], EMPTY_SIGNALS, NOW))).toEqual(
+      ["b", "a"]
+    );
+  });
+
+  it("ranks posts dated in the future as if published now", () => {
+    const ranked = rankPosts(
+      [
+        post("future", { publishedAt: NOW + 365 * 24 * HOUR }),
+        post("liked", { publishedAt: NOW - HOUR, tags: ["react"] }),
+      ],
+      signals({ likedTags: new Map([["react", 1]]) }),
+      NOW
+    );
+
+    expect(ids(ranked)).toEqual(["liked", "future"]);
+    expect(
+      getRankKey(post("soon", { publishedAt: NOW + HOUR }), EMPTY_SIGNALS, NOW)
+    ).toBe(getRankKey(post("now"), EMPTY_SIGNALS, NOW));
+  });
+
+  it("ranks by recency and popularity without a like history", () => {
+    const ranked = rankPosts(
+      [
+        post("quiet", { viewCount: 1 }),
+        post("popular", { viewCount: 500, likeCount: 40 }),
+        post("old", { publishedAt: NOW - 72 * HOUR, viewCount: 500 }),
+      ],
+      signals({ likedTags: getLikedTags([]) }),
+      NOW
+    );
+
+    expect(ids(ranked)).toEqual(["popular", "quiet", "old"]);
+  });
+
+  it("gives the same order whenever it's ranked", () => {
+    const posts = [
+      post("a", { publishedAt: NOW - 5 * HOUR, tags: ["react"] }),
+      post("b", { publishedAt: NOW - HOUR }),
+      post("c", { publishedAt: NOW - 30 * HOUR, viewCount: 900 }),
+    ];
+    const reader = signals({ likedTags: new Map([["react", 1]]) });
+
+    expect(ids(rankPosts(posts, reader, NOW + 72 * HOUR))).toEqual(
+      ids(rankPosts(posts, reader, NOW))
+    );
+  });
+});
@@ -0,0 +1,50 @@
+// Anchor ids for the h1-h3 headings of post HTML, and the outline they form.
+// Ids come from the heading text (numbered when repeated), so links to a
+// section keep working as long as its heading and those before it don't change.
+import { htmlToText } from "./post-text";
+
+export interface PostHeading {
+  id: string;
+  text: string;
+  level: 1 | 2 | 3;
+}
+
+const HEADING_PATTERN = /<h([1-3])((?:\s[^>]*)?)>([\s\S]*?)<\/h\1>/gi;
+
+const toAnchorId = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // Strip accents
+    .toLowerCase()
+    .replace(/['\u2019]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+    .replace(/-+$/g, "") || "section";
+
+// Give every heading an id (replacing any it had) and list them in order
+export const addHeadingAnchors = (
+  html: string
+): { html: string; headings: PostHeading[] } => {
+  const headings: PostHeading[] = [];
+  const used = new Map<string, number>();
+
+  const anchored = html.replace(
+    HEADING_PATTERN,
+    (match: string, level: string, attributes: string, inner: string) => {
+      const text = htmlToText(inner);
+      if (!text) return match;
+
+      const base = toAnchorId(text);
+      const count = (used.get(base) ?? 0) + 1;
+      used.set(base, count);
+      const id = count === 1 ? base : `${base}-${count}`;
+
+      headings.push({ id, text, level: Number(level) as PostHeading["level"] });
+      const rest = attributes.replace(/\sid\s*=\s*("[^"]*"|'[^']*'|\S+)/i, "");
+      return `<h${level} id="${id}"${rest}>${inner}</h${level}>`;
+    }
+  );
+
+  return { html: anchored, headings };
+};
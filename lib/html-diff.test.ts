@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { diffHtml, diffStats, mergeHtml } from "./html-diff";
+
+// A long post: `count` paragraphs of ten words each
+const paragraphs = (count: number, word: (index: number) => string): string[] =>
+  Array.from(
+    { length: count },
+    (_, index) =>
+      `<p>${Array.from({ length: 10 }, () => word(index)).join(" ")}</p>`
+  );
+
+describe("diffHtml", () => {
+  it("marks changed words and keeps the markup", () => {
+    expect(
+      diffHtml("<p>The quick fox</p>", "<p>The slow fox</p>")
+    ).toBe(
+      '<p>The <del class="diff-del">quick</del><ins class="diff-ins">slow</ins> fox</p>'
+    );
+  });
+
+  it("passes added markup through and drops removed markup", () => {
+    expect(diffHtml("<p>a</p>", "<p>a</p><h2>b</h2>")).toBe(
+      '<p>a</p><h2><ins class="diff-ins">b</ins></h2>'
+    );
+    expect(diffHtml("<p>a</p><h2>b</h2>", "<p>a</p>")).toBe(
+      '<p>a</p><del class="diff-del">b</del>'
+    );
+  });
+});
+
+describe("diffStats", () => {
+  it("counts inserted and deleted words", () => {
+    expect(
+      diffStats("<p>one two three</p>", "<p>one four five three</p>")
+    ).toEqual({ insertedWords: 2, deletedWords: 1 });
+  });
+
+  it("is zero for identical documents", () => {
+    expect(diffStats("<p>same</p>", "<p>same</p>")).toEqual({
+      insertedWords: 0,
+      deletedWords: 0,
+    });
+  });
+
+  it("handles a long post rewritten from top to bottom", () => {
+    // ~44,000 tokens a side - a full word table would need gigabytes
+    const before = paragraphs(2000, (index) => `old${index}`).join("");
+    const after = paragraphs(2000, (index) => `new${index}`).join("");
+
+    expect(diffStats(before, after)).toEqual({
+      insertedWords: 20000,
+      deletedWords: 20000,
+    });
+  });
+
+  it("still diffs words inside the blocks of a long post that changed", () => {
+    const before = paragraphs(2000, (index) => `word${index}`);
+    const after = [...before];
+    after[10] = after[10].replace("word10 ", "changed ");
+    after[1990] = after[1990].replace("word1990 ", "edited ");
+
+    expect(diffStats(before.join(""), after.join(""))).toEqual({
+      insertedWords: 2,
+      deletedWords: 2,
+    });
+  });
+});
+
+describe("mergeHtml", () => {
+  it("applies changes each side made to different passages", () => {
+    expect(
+      mergeHtml(
+        "<p>one two three</p>",
+        "<p>ONE two three</p>",
+        "<p>one two THREE</p>"
+      )
+    ).toEqual({ html: "<p>ONE two THREE</p>", conflicts: 0 });
+  });
+
+  it("keeps both versions of a passage both sides changed", () => {
+    expect(
+      mergeHtml("<p>one</p>", "<p>mine</p>", "<p>theirs</p>")
+    ).toEqual({ html: "<p>minetheirs</p>", conflicts: 1 });
+  });
+});
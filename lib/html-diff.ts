@@ -0,0 +1,340 @@
+// HTML-aware word diff for comparing post revisions.
+// Tags are treated as atomic tokens so markup is never split, and only text
+// is wrapped in <ins>/<del>; the result follows the structure of the newer HTML.
+
+export type DiffOperation = "equal" | "insert" | "delete";
+
+export interface DiffChunk {
+  op: DiffOperation;
+  tokens: string[];
+}
+
+export interface DiffStats {
+  insertedWords: number;
+  deletedWords: number;
+}
+
+const TOKEN_PATTERN = /<[^>]+>|&[a-zA-Z0-9#]+;|\s+|[^\s<&]+|[<&]/g;
+
+const isTag = (token: string): boolean =>
+  token.startsWith("<") && token.endsWith(">") && token.length > 1;
+
+const isWord = (token: string): boolean => !isTag(token) && token.trim() !== "";
+
+// Split HTML into tag, whitespace and word tokens
+export const tokenizeHtml = (html: string): string[] =>
+  html.match(TOKEN_PATTERN) ?? [];
+
+// Biggest LCS table to allocate (4 bytes a cell). Past it, whole blocks are
+// diffed first and words only within the blocks that changed.
+const MAX_LCS_CELLS = 4_000_000;
+
+// Tokens that end a block of text, where a block-level diff can cut
+const BLOCK_END = /^<\/(p|h[1-6]|li|blockquote|pre|ol|ul)>$|^<br\s*\/?>$/i;
+
+// Longest-common-subsequence alignment of two lists, one operation per step:
+// "equal" takes an item from both, "delete" one from `a`, "insert" one from `b`
+const alignLcs = (a: string[], b: string[]): DiffOperation[] => {
+  const cols = b.length + 1;
+
+  // lengths[i * cols + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const ops: DiffOperation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push("equal");
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      ops.push("delete");
+      i++;
+    } else {
+      ops.push("insert");
+      j++;
+    }
+  }
+  while (i++ < a.length) ops.push("delete");
+  while (j++ < b.length) ops.push("insert");
+
+  return ops;
+};
+
+const fitsLcsTable = (a: unknown[], b: unknown[]): boolean =>
+  (a.length + 1) * (b.length + 1) <= MAX_LCS_CELLS;
+
+// Split tokens into blocks, each ending at a block-level closing tag
+const splitBlocks = (tokens: string[]): string[][] => {
+  const blocks: string[][] = [];
+  let block: string[] = [];
+  for (const token of tokens) {
+    block.push(token);
+    if (BLOCK_END.test(token)) {
+      blocks.push(block);
+      block = [];
+    }
+  }
+  if (block.length) blocks.push(block);
+  return blocks;
+};
+
+// Longest-common-subsequence diff over two token lists
+export const diffTokens = (before: string[], after: string[]): DiffChunk[] => {
+  // Trim the shared prefix/suffix so the table only covers the changed middle
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start++;
+  }
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (
+    endBefore > start &&
+    endAfter > start &&
+    before[endBefore - 1] === after[endAfter - 1]
+  ) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const chunks: DiffChunk[] = [];
+  const push = (op: DiffOperation, token: string): void => {
+    const last = chunks[chunks.length - 1];
+    if (last && last.op === op) {
+      last.tokens.push(token);
+    } else {
+      chunks.push({ op, tokens: [token] });
+    }
+  };
+
+  // Word-level diff, or - when even that is too big - all of `a` replaced by `b`
+  const diffWords = (a: string[], b: string[]): void => {
+    if (!fitsLcsTable(a, b)) {
+      a.forEach((token) => push("delete", token));
+      b.forEach((token) => push("insert", token));
+      return;
+    }
+
+    let i = 0;
+    let j = 0;
+    for (const op of alignLcs(a, b)) {
+      push(op, op === "insert" ? b[j++] : a[i++]);
+      if (op === "equal") j++;
+    }
+  };
+
+  before.slice(0, start).forEach((token) => push("equal", token));
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const blocksA = splitBlocks(a);
+  const blocksB = splitBlocks(b);
+  if (fitsLcsTable(a, b) || !fitsLcsTable(blocksA, blocksB)) {
+    diffWords(a, b);
+  } else {
+    // Match unchanged blocks, then diff words between the ones that changed
+    let deleted: string[] = [];
+    let inserted: string[] = [];
+    let i = 0;
+    let j = 0;
+    for (const op of alignLcs(
+      blocksA.map((block) => block.join("")),
+      blocksB.map((block) => block.join(""))
+    )) {
+      if (op === "delete") {
+        deleted.push(...blocksA[i++]);
+      } else if (op === "insert") {
+        inserted.push(...blocksB[j++]);
+      } else {
+        diffWords(deleted, inserted);
+        deleted = [];
+        inserted = [];
+        blocksA[i++].forEach((token) => push("equal", token));
+        j++;
+      }
+    }
+    diffWords(deleted, inserted);
+  }
+
+  before.slice(endBefore).forEach((token) => push("equal", token));
+
+  return chunks;
+};
+
+// Wrap runs of text in a marker element, passing tags through untouched
+const wrapText = (tokens: string[], tag: "ins" | "del"): string => {
+  let html = "";
+  let run = "";
+
+  const flush = (): void => {
+    if (run.trim()) {
+      html += `<${tag} class="diff-${tag}">${run}</${tag}>`;
+    } else {
+      html += run;
+    }
+    run = "";
+  };
+
+  for (const token of tokens) {
+    if (isTag(token)) {
+      flush();
+      // Deleted markup is dropped so the output keeps the newer structure
+      if (tag === "ins") html += token;
+    } else {
+      run += token;
+    }
+  }
+  flush();
+
+  return html;
+};
+
+// Render a diff between two HTML documents as annotated HTML
+export const diffHtml = (before: string, after: string): string =>
+  diffTokens(tokenizeHtml(before), tokenizeHtml(after))
+    .map((chunk) =>
+      chunk.op === "equal"
+        ? chunk.tokens.join("")
+        : wrapText(chunk.tokens, chunk.op === "insert" ? "ins" : "del")
+    )
+    .join("");
+
+// Count changed words between two HTML documents
+export const diffStats = (before: string, after: string): DiffStats =>
+  diffTokens(tokenizeHtml(before), tokenizeHtml(after)).reduce(
+    (stats: DiffStats, chunk: DiffChunk) => {
+      const words = chunk.tokens.filter(isWord).length;
+      if (chunk.op === "insert") stats.insertedWords += words;
+      if (chunk.op === "delete") stats.deletedWords += words;
+      return stats;
+    },
+    { insertedWords: 0, deletedWords: 0 }
+  );
+
+type Hunk = {
+  start: number; // First replaced base token
+  end: number; // One past the last replaced base token
+  tokens: string[]; // Replacement
+};
+
+export interface MergeResult {
+  html: string;
+  conflicts: number;
+}
+
+// Changes from `base` to `changed` as replacements of base token ranges
+const toHunks = (base: string[], changed: string[]): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let position = 0;
+  let current: Hunk | null = null;
+
+  for (const chunk of diffTokens(base, changed)) {
+    if (chunk.op === "equal") {
+      current = null;
+      position += chunk.tokens.length;
+      continue;
+    }
+
+    if (!current) {
+      current = { start: position, end: position, tokens: [] };
+      hunks.push(current);
+    }
+    if (chunk.op === "delete") {
+      position += chunk.tokens.length;
+      current.end = position;
+    } else {
+      current.tokens.push(...chunk.tokens);
+    }
+  }
+
+  return hunks;
+};
+
+// Apply hunks that all fall within base[start..end)
+const applyHunks = (
+  base: string[],
+  start: number,
+  end: number,
+  hunks: Hunk[]
+): string[] => {
+  const result: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(position, hunk.start), ...hunk.tokens);
+    position = hunk.end;
+  }
+  result.push(...base.slice(position, end));
+  return result;
+};
+
+// Three-way merge of two edits of the same HTML document. Changes only one
+// side made are applied; where both sides changed the same passage, both
+// versions are kept (mine first) for the writer to reconcile.
+export const mergeHtml = (
+  base: string,
+  mine: string,
+  theirs: string
+): MergeResult => {
+  const baseTokens = tokenizeHtml(base);
+  const hunks = [
+    ...toHunks(baseTokens, tokenizeHtml(mine)).map((hunk) => ({
+      ...hunk,
+      mine: true,
+    })),
+    ...toHunks(baseTokens, tokenizeHtml(theirs)).map((hunk) => ({
+      ...hunk,
+      mine: false,
+    })),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+
+  while (i < hunks.length) {
+    // Group hunks whose base ranges overlap or touch
+    const start = hunks[i].start;
+    let end = hunks[i].end;
+    const group = [hunks[i++]];
+    while (i < hunks.length && hunks[i].start <= end) {
+      end = Math.max(end, hunks[i].end);
+      group.push(hunks[i++]);
+    }
+
+    output.push(...baseTokens.slice(position, start));
+    position = end;
+
+    const ours = group.filter((hunk) => hunk.mine);
+    const others = group.filter((hunk) => !hunk.mine);
+    const oursResult = applyHunks(baseTokens, start, end, ours);
+    const othersResult = applyHunks(baseTokens, start, end, others);
+
+    if (!others.length || oursResult.join("") === othersResult.join("")) {
+      output.push(...oursResult);
+    } else if (!ours.length) {
+      output.push(...othersResult);
+    } else {
+      conflicts++;
+      output.push(...oursResult, ...othersResult);
+    }
+  }
+
+  output.push(...baseTokens.slice(position));
+
+  return { html: output.join(""), conflicts };
+};
@@ -158,16 +158,11 @@ export type ImageKitUploadResponse =
   | ImageKitUploadSuccessResponse
   | ImageKitUploadErrorResponse;
 
-// Upload file to ImageKit using your server-side API
-export const uploadToImageKit = async (
-  file: File,
-  fileName: string
+// POST an upload to your server-side API and normalize the result
+const postUpload = async (
+  formData: FormData
 ): Promise<ImageKitUploadResponse> => {
   try {
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("fileName", fileName);
-
     const response = await fetch("/api/imagekit/upload", {
       method: "POST",
       body: formData,
@@ -200,4 +195,28 @@ export const uploadToImageKit = async (
       error: errorMessage,
     };
   }
-};
\ No newline at end of file
+};
+
+// Upload file to ImageKit using your server-side API
+export const uploadToImageKit = async (
+  file: File,
+  fileName: string
+): Promise<ImageKitUploadResponse> => {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("fileName", fileName);
+
+  return postUpload(formData);
+};
+
+// Copy a remote image into ImageKit (e.g. when importing posts from another blog)
+export const uploadUrlToImageKit = async (
+  url: string,
+  fileName: string
+): Promise<ImageKitUploadResponse> => {
+  const formData = new FormData();
+  formData.append("url", url);
+  formData.append("fileName", fileName);
+
+  return postUpload(formData);
+};
@@ -0,0 +1,68 @@
+// Unsaved editor state kept in the browser's IndexedDB, so a dropped
+// connection or a closed tab never costs the writer their work.
+
+export type LocalDraftSave = "draft" | "publish" | "schedule";
+
+export interface LocalDraft<Values> {
+  key: string; // Post id, or NEW_DRAFT_KEY for a post that was never saved
+  values: Values;
+  base: { title: string; content: string }; // Saved version the values build on
+  baseVersion: number;
+  pendingSave?: LocalDraftSave; // Save requested while offline, replayed on reconnect
+  savedAt: number;
+}
+
+export const NEW_DRAFT_KEY = "new";
+
+const DB_NAME = "post-editor";
+const DB_VERSION = 1;
+const STORE = "drafts";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry, e.g. after the user allows storage
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getLocalDraft = async <Values>(
+  key: string
+): Promise<LocalDraft<Values> | null> =>
+  (await runRequest<LocalDraft<Values> | undefined>("readonly", (store) =>
+    store.get(key)
+  )) ?? null;
+
+export const saveLocalDraft = async <Values>(
+  draft: LocalDraft<Values>
+): Promise<void> => {
+  await runRequest("readwrite", (store) => store.put(draft));
+};
+
+export const deleteLocalDraft = async (key: string): Promise<void> => {
+  await runRequest("readwrite", (store) => store.delete(key));
+};
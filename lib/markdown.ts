@@ -0,0 +1,452 @@
+// Markdown ↔ Quill HTML conversion for importing and exporting posts.
+// Import only emits what the editor understands (p, h1-h3, strong/em/s, links,
+// images, blockquote, pre, flat lists with ql-indent-N); raw HTML is escaped.
+
+export type FrontMatter = Record<string, string | string[]>;
+
+export interface ImportedMarkdownPost {
+  title: string;
+  slug?: string;
+  content: string;
+  tags: string[];
+  category?: string;
+  featuredImage?: string;
+}
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_TAGS = 10;
+const MAX_INDENT = 8;
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Links may only point at the web, mail or somewhere on this site
+const safeUrl = (url: string): string | null =>
+  /^(https?:\/\/|mailto:|\/|#)/i.test(url) ? url : null;
+
+const unquote = (value: string): string => {
+  const trimmed = value.trim();
+  const quoted = /^(["'])(.*)\1$/.exec(trimmed);
+  if (!quoted) return trimmed;
+
+  // Double-quoted YAML strings use JSON-style escapes
+  if (quoted[1] === '"') {
+    try {
+      return JSON.parse(trimmed) as string;
+    } catch {
+      return quoted[2];
+    }
+  }
+  return quoted[2];
+};
+
+// Split a leading `---` YAML block off the document. Supports the flat subset
+// posts use: `key: value`, `key: [a, b]` and `key:` followed by `- item` lines.
+export const parseFrontMatter = (
+  source: string
+): { data: FrontMatter; body: string } => {
+  const match = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(
+    source
+  );
+  if (!match) return { data: {}, body: source };
+
+  const data: FrontMatter = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const pair = /^([A-Za-z0-9_-]+)\s*:\s*(.*)$/.exec(line);
+    if (!pair) continue;
+
+    const key = pair[1].toLowerCase();
+    const value = pair[2].trim();
+    listKey = null;
+
+    if (!value) {
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith("[") && value.endsWith("]")) {
+      data[key] = value
+        .slice(1, -1)
+        .split(",")
+        .map(unquote)
+        .filter(Boolean);
+    } else {
+      data[key] = unquote(value);
+    }
+  }
+
+  return { data, body: source.slice(match[0].length) };
+};
+
+// Inline formatting: code spans, images, links, bold, italic, strikethrough
+const renderInline = (text: string): string => {
+  // Generated markup is parked in placeholders so later passes can't touch it
+  const stash: string[] = [];
+  const park = (html: string): string => `\uE000${stash.push(html) - 1}\uE000`;
+
+  let html = escapeHtml(text);
+
+  // Quill has no inline code format, so code spans become literal text
+  html = html.replace(/`([^`]+)`/g, (_, code: string) => park(code));
+
+  html = html.replace(
+    /!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g,
+    (whole: string, alt: string, src: string) => {
+      const url = safeUrl(src);
+      return url ? park(`<img src="${url}" alt="${alt}">`) : whole;
+    }
+  );
+
+  html = html.replace(
+    /\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g,
+    (whole: string, label: string, href: string) => {
+      const url = safeUrl(href);
+      return url ? `${park(`<a href="${url}">`)}${label}${park("</a>")}` : whole;
+    }
+  );
+
+  html = html.replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, (_, url: string) =>
+    park(`<a href="${url}">${url}</a>`)
+  );
+
+  html = html
+    .replace(/\*\*(?=\S)(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/\b__(?=\S)(.+?)__\b/g, "<strong>$1</strong>")
+    .replace(/\*(?=\S)(.+?)\*/g, "<em>$1</em>")
+    .replace(/\b_(?=\S)(.+?)_\b/g, "<em>$1</em>")
+    .replace(/~~(?=\S)(.+?)~~/g, "<s>$1</s>");
+
+  // Placeholders can nest (a link label holding a code span), so unwind until stable
+  let previous: string;
+  do {
+    previous = html;
+    html = html.replace(/\uE000(\d+)\uE000/g, (_, index: string) =>
+      stash[Number(index)]
+    );
+  } while (html !== previous);
+
+  return html;
+};
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+
+const startsBlock = (line: string): boolean =>
+  FENCE.test(line) ||
+  HEADING.test(line) ||
+  RULE.test(line) ||
+  QUOTE.test(line) ||
+  LIST_ITEM.test(line);
+
+// Convert a Markdown body to editor HTML
+export const markdownToHtml = (markdown: string): string => {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i++]);
+      }
+      i++; // Closing fence
+      blocks.push(`<pre>${escapeHtml(code.join("\n"))}</pre>`);
+      continue;
+    }
+
+    // Headings - the editor only has three levels
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3);
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    // Horizontal rules have no editor equivalent
+    if (RULE.test(line)) {
+      i++;
+      continue;
+    }
+
+    // Blockquote - every quoted paragraph becomes its own quote line
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(QUOTE.exec(lines[i++])![1]);
+      }
+      quoted
+        .join("\n")
+        .split(/\n\s*\n/)
+        .filter((paragraph) => paragraph.trim())
+        .forEach((paragraph) =>
+          blocks.push(
+            `<blockquote>${renderInline(paragraph.replace(/\n/g, " "))}</blockquote>`
+          )
+        );
+      continue;
+    }
+
+    // Lists - nesting is flattened to Quill's indent classes
+    if (LIST_ITEM.test(line)) {
+      const indents: number[] = [];
+      let listHtml = "";
+      let openTag: "ol" | "ul" | null = null;
+
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+
+        if (!item) {
+          // Indented continuation of the previous item
+          if (lines[i].trim() && /^\s+/.test(lines[i]) && openTag) {
+            listHtml = listHtml.replace(
+              /<\/li>$/,
+              ` ${renderInline(lines[i].trim())}</li>`
+            );
+            i++;
+            continue;
+          }
+          break;
+        }
+
+        const width = item[1].replace(/\t/g, "    ").length;
+        while (indents.length && width < indents[indents.length - 1]) {
+          indents.pop();
+        }
+        if (!indents.length || width > indents[indents.length - 1]) {
+          indents.push(width);
+        }
+        const level = Math.min(indents.length - 1, MAX_INDENT);
+
+        const tag = /^\d/.test(item[2]) ? "ol" : "ul";
+        if (tag !== openTag) {
+          if (openTag) listHtml += `</${openTag}>`;
+          listHtml += `<${tag}>`;
+          openTag = tag;
+        }
+
+        const indentClass = level > 0 ? ` class="ql-indent-${level}"` : "";
+        listHtml += `<li${indentClass}>${renderInline(item[3])}</li>`;
+        i++;
+      }
+
+      blocks.push(`${listHtml}</${openTag}>`);
+      continue;
+    }
+
+    // Paragraph - runs until a blank line or another block starts
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push(
+      `<p>${paragraph
+        .map((text, index) => {
+          const hardBreak = / {2,}$/.test(text) && index < paragraph.length - 1;
+          return renderInline(text.trim()) + (hardBreak ? "<br>" : "");
+        })
+        .join(" ")
+        .replace(/<br> /g, "<br>")}</p>`
+    );
+  }
+
+  return blocks.join("");
+};
+
+const firstValue = (value: string | string[] | undefined): string | undefined =>
+  (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+
+const toList = (value: string | string[] | undefined): string[] => {
+  if (!value) return [];
+  return Array.isArray(value) ? value : value.split(",");
+};
+
+// Map a Markdown file (front matter + body) onto the fields of a new post
+export const parseMarkdownPost = (
+  source: string,
+  fileName: string
+): ImportedMarkdownPost => {
+  const { data, body } = parseFrontMatter(source);
+  let markdown = body;
+
+  // A leading `# Heading` doubles as the title (and isn't repeated in the body)
+  let title = firstValue(data.title);
+  const heading = /^\s*#\s+(.+?)\s*#*\s*(?:\n|$)/.exec(markdown);
+  if (heading && (!title || heading[1] === title)) {
+    title = heading[1];
+    markdown = markdown.slice(heading[0].length);
+  }
+  if (!title) {
+    title = fileName.replace(/\.(md|markdown)$/i, "").replace(/[-_]+/g, " ");
+  }
+
+  const tags = Array.from(
+    new Set(
+      [...toList(data.tags), ...toList(data.keywords)]
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  ).slice(0, MAX_TAGS);
+
+  const cover = firstValue(
+    data.cover_image ?? data.cover ?? data.image ?? data.featuredimage
+  );
+
+  return {
+    title: title.trim().slice(0, MAX_TITLE_LENGTH),
+    slug: firstValue(data.slug),
+    content: markdownToHtml(markdown),
+    tags,
+    category: firstValue(data.category) ?? firstValue(data.categories),
+    featuredImage: cover && safeUrl(cover) ? cover : undefined,
+  };
+};
+
+export type FrontMatterValue = string | number | string[] | undefined;
+
+// Serialize fields as a `---` YAML block that parseFrontMatter can read back
+export const toFrontMatter = (data: Record<string, FrontMatterValue>): string => {
+  const lines = Object.entries(data)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      if (Array.isArray(value)) {
+        return `${key}: [${value.map((item) => JSON.stringify(item)).join(", ")}]`;
+      }
+      return `${key}: ${typeof value === "number" ? value : JSON.stringify(value)}`;
+    });
+
+  return `---\n${lines.join("\n")}\n---\n`;
+};
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+
+const getAttribute = (tag: string, name: string): string | undefined =>
+  new RegExp(`\\s${name}="([^"]*)"`, "i").exec(tag)?.[1];
+
+const inlineToMarkdown = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, "  \n")
+      .replace(
+        /<img\b[^>]*>/gi,
+        (tag: string) =>
+          `![${getAttribute(tag, "alt") ?? ""}](${getAttribute(tag, "src") ?? ""})`
+      )
+      .replace(
+        /<a\b([^>]*)>([\s\S]*?)<\/a>/gi,
+        (_, attributes: string, label: string) =>
+          `[${label}](${getAttribute(attributes, "href") ?? ""})`
+      )
+      .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, "**$2**")
+      .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, "*$2*")
+      .replace(/<(s|strike|del)\b[^>]*>([\s\S]*?)<\/\1>/gi, "~~$2~~")
+      .replace(/<[^>]+>/g, "") // Underline, colors, sizes... have no Markdown form
+  ).trim();
+
+const BLOCK_PATTERN =
+  /<(h[1-6]|p|blockquote|pre|ol|ul)\b([^>]*)>([\s\S]*?)<\/\1>|<div class="ql-code-block-container"[^>]*>((?:<div\b[^>]*>[\s\S]*?<\/div>)*)<\/div>|<iframe\b[^>]*>(?:<\/iframe>)?/gi;
+
+const listToMarkdown = (tag: string, html: string): string => {
+  const counters: number[] = [];
+
+  return Array.from(html.matchAll(/<li\b([^>]*)>([\s\S]*?)<\/li>/gi))
+    .map(([, attributes, item]) => {
+      const level = Number(/ql-indent-(\d+)/.exec(attributes)?.[1] ?? 0);
+      const kind = getAttribute(attributes, "data-list");
+      const ordered = kind ? kind === "ordered" : tag === "ol";
+
+      counters.length = level + 1;
+      counters[level] = (counters[level] ?? 0) + 1;
+
+      const marker =
+        kind === "checked"
+          ? "- [x]"
+          : kind === "unchecked"
+            ? "- [ ]"
+            : ordered
+              ? `${counters[level]}.`
+              : "-";
+
+      return `${"  ".repeat(level)}${marker} ${inlineToMarkdown(item)}`;
+    })
+    .join("\n");
+};
+
+// Convert editor HTML back to Markdown
+export const htmlToMarkdown = (html: string): string => {
+  const blocks: string[] = [];
+
+  for (const match of html.matchAll(BLOCK_PATTERN)) {
+    const [whole, tag, , inner, codeLines] = match;
+
+    if (codeLines !== undefined) {
+      const code = Array.from(
+        codeLines.matchAll(/<div\b[^>]*>([\s\S]*?)<\/div>/gi)
+      ).map(([, line]) => decodeEntities(line.replace(/<[^>]+>/g, "")));
+      blocks.push(`\`\`\`\n${code.join("\n")}\n\`\`\``);
+      continue;
+    }
+
+    if (!tag) {
+      // Embedded video
+      const src = getAttribute(whole, "src");
+      if (src) blocks.push(`[Video](${src})`);
+      continue;
+    }
+
+    const name = tag.toLowerCase();
+
+    if (name === "pre") {
+      const code = decodeEntities(inner.replace(/<[^>]+>/g, ""));
+      blocks.push(`\`\`\`\n${code.replace(/\n$/, "")}\n\`\`\``);
+    } else if (name === "ol" || name === "ul") {
+      blocks.push(listToMarkdown(name, inner));
+    } else {
+      const text = inlineToMarkdown(inner);
+      if (!text) continue; // Empty editor lines
+
+      if (name === "blockquote") {
+        blocks.push(`> ${text.replace(/\n/g, "\n> ")}`);
+      } else if (name.startsWith("h")) {
+        blocks.push(`${"#".repeat(Number(name[1]))} ${text}`);
+      } else {
+        blocks.push(text);
+      }
+    }
+  }
+
+  return blocks.join("\n\n") + "\n";
+};
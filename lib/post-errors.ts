@@ -0,0 +1,3 @@
+// Messages the post mutations throw as ConvexError data, so the editor can
+// tell them apart from any other failed save
+export const VERSION_CONFLICT = "This post was changed elsewhere since you opened it";
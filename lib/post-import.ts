@@ -0,0 +1,356 @@
+// Parsers for migrating posts from WordPress (WXR) and Medium exports.
+// Browser-only: relies on DOMParser. Nothing here touches the database - the
+// result is a dry-run report the user reviews before anything is imported.
+
+import { readZip } from "@/lib/zip";
+
+export type ImportSource = "WordPress" | "Medium";
+
+export interface ImportCandidate {
+  sourceId: string; // Stable id within the export, used as a React key
+  title: string;
+  content: string; // Cleaned HTML
+  status: "draft" | "published";
+  tags: string[];
+  category?: string;
+  featuredImage?: string;
+  createdAt?: number;
+  publishedAt?: number;
+  imageUrls: string[]; // Remote images that will be rehosted
+  warnings: string[];
+}
+
+export interface SkippedItem {
+  title: string;
+  reason: string;
+}
+
+export interface ImportReport {
+  source: ImportSource;
+  posts: ImportCandidate[];
+  skipped: SkippedItem[];
+}
+
+const MAX_TAGS = 10;
+const MAX_TITLE_LENGTH = 200;
+
+// Tags and attributes allowed to survive into imported content
+const ALLOWED_TAGS = new Set([
+  "p", "br", "h1", "h2", "h3", "strong", "b", "em", "i", "u", "s", "a", "img",
+  "blockquote", "pre", "code", "ul", "ol", "li", "iframe",
+]);
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href"],
+  img: ["src", "alt"],
+  iframe: ["src"],
+};
+const DROPPED_TAGS = new Set(["script", "style", "noscript", "form", "svg"]);
+
+const isHttpUrl = (url: string | null | undefined): url is string =>
+  !!url && /^https?:\/\//i.test(url);
+
+// Reduce foreign HTML to the tags and attributes our editor understands
+const cleanHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, "text/html");
+
+  const clean = (node: Element): void => {
+    for (const child of Array.from(node.children)) {
+      const tag = child.tagName.toLowerCase();
+
+      if (DROPPED_TAGS.has(tag)) {
+        child.remove();
+        continue;
+      }
+
+      clean(child);
+
+      // Older headings collapse into the three levels the editor has
+      if (/^h[4-6]$/.test(tag)) {
+        const heading = doc.createElement("h3");
+        heading.append(...Array.from(child.childNodes));
+        child.replaceWith(heading);
+        continue;
+      }
+
+      // Captions read best as an italic line under the image
+      if (tag === "figcaption") {
+        const caption = doc.createElement("p");
+        const em = doc.createElement("em");
+        em.append(...Array.from(child.childNodes));
+        caption.append(em);
+        child.replaceWith(caption);
+        continue;
+      }
+
+      if (!ALLOWED_TAGS.has(tag)) {
+        child.replaceWith(...Array.from(child.childNodes)); // Unwrap
+        continue;
+      }
+
+      const allowed = ALLOWED_ATTRIBUTES[tag] ?? [];
+      for (const attribute of Array.from(child.attributes)) {
+        if (!allowed.includes(attribute.name)) {
+          child.removeAttribute(attribute.name);
+        }
+      }
+
+      const url = child.getAttribute("href") ?? child.getAttribute("src");
+      if (url !== null && !isHttpUrl(url) && !/^(mailto:|\/|#)/i.test(url)) {
+        if (tag === "a") {
+          child.replaceWith(...Array.from(child.childNodes));
+        } else {
+          child.remove();
+        }
+      }
+    }
+  };
+
+  clean(doc.body);
+  return doc.body.innerHTML.trim();
+};
+
+// WordPress stores classic posts without <p> tags (wpautop adds them on render)
+const autoParagraph = (html: string): string =>
+  html
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((chunk) => chunk.trim())
+    .filter(Boolean)
+    .map((chunk) =>
+      /^<(p|h[1-6]|ul|ol|blockquote|pre|figure|div|table|hr)\b/i.test(chunk)
+        ? chunk
+        : `<p>${chunk.replace(/\n/g, "<br>")}</p>`
+    )
+    .join("");
+
+const collectImageUrls = (html: string, featuredImage?: string): string[] => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const urls = Array.from(doc.querySelectorAll("img"))
+    .map((img) => img.getAttribute("src"))
+    .filter(isHttpUrl);
+  if (isHttpUrl(featuredImage)) urls.push(featuredImage);
+  return Array.from(new Set(urls));
+};
+
+// Swap image sources for their rehosted copies
+export const replaceImageUrls = (
+  html: string,
+  urlMap: Map<string, string>
+): string => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, "text/html");
+  for (const img of Array.from(doc.querySelectorAll("img"))) {
+    const rehosted = urlMap.get(img.getAttribute("src") ?? "");
+    if (rehosted) img.setAttribute("src", rehosted);
+  }
+  return doc.body.innerHTML;
+};
+
+const normalizeTags = (tags: string[], warnings: string[]): string[] => {
+  const unique = Array.from(
+    new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))
+  );
+  if (unique.length > MAX_TAGS) {
+    warnings.push(`Only the first ${MAX_TAGS} of ${unique.length} tags are kept`);
+  }
+  return unique.slice(0, MAX_TAGS);
+};
+
+const buildCandidate = (
+  fields: Omit<ImportCandidate, "imageUrls">
+): ImportCandidate => {
+  const warnings = [...fields.warnings];
+
+  let title = fields.title.trim();
+  if (!title) {
+    title = "Untitled";
+    warnings.push("Has no title");
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    title = title.slice(0, MAX_TITLE_LENGTH);
+    warnings.push("Title was shortened to 200 characters");
+  }
+
+  if (!fields.content.replace(/<[^>]+>/g, "").trim()) {
+    warnings.push("Has no text content");
+  }
+
+  const tags = normalizeTags(fields.tags, warnings);
+
+  return {
+    ...fields,
+    title,
+    tags,
+    warnings,
+    imageUrls: collectImageUrls(fields.content, fields.featuredImage),
+  };
+};
+
+// WXR dates look like "2021-03-04 05:06:07"; drafts use all zeros
+const parseWxrDate = (value: string | undefined, utc: boolean): number | undefined => {
+  if (!value || value.startsWith("0000")) return undefined;
+  const time = Date.parse(value.replace(" ", "T") + (utc ? "Z" : ""));
+  return Number.isNaN(time) ? undefined : time;
+};
+
+// Parse a WordPress export (Tools → Export → WXR file)
+export const parseWxr = (xml: string): ImportReport => {
+  const doc = new DOMParser().parseFromString(xml, "text/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("This file isn't valid WordPress export XML");
+  }
+
+  const items = Array.from(doc.getElementsByTagName("item"));
+  const text = (item: Element, tag: string): string | undefined =>
+    item.getElementsByTagName(tag)[0]?.textContent ?? undefined;
+
+  // Featured images point at attachment items by id
+  const attachments = new Map<string, string>();
+  for (const item of items) {
+    if (text(item, "wp:post_type") === "attachment") {
+      const url = text(item, "wp:attachment_url");
+      if (url) attachments.set(text(item, "wp:post_id") ?? "", url);
+    }
+  }
+
+  const report: ImportReport = { source: "WordPress", posts: [], skipped: [] };
+
+  for (const item of items) {
+    const type = text(item, "wp:post_type");
+    if (type === "attachment") continue;
+
+    const title = text(item, "title") ?? "";
+    if (type !== "post") {
+      report.skipped.push({ title, reason: `${type ?? "Unknown"} items aren't imported` });
+      continue;
+    }
+
+    const wpStatus = text(item, "wp:status");
+    if (wpStatus === "trash" || wpStatus === "auto-draft") {
+      report.skipped.push({ title, reason: `WordPress status is "${wpStatus}"` });
+      continue;
+    }
+
+    const warnings: string[] = [];
+    const terms = Array.from(item.getElementsByTagName("category"));
+    const categories = terms
+      .filter((term) => term.getAttribute("domain") === "category")
+      .map((term) => term.textContent ?? "")
+      .filter((name) => name && name !== "Uncategorized");
+    const tags = terms
+      .filter((term) => term.getAttribute("domain") === "post_tag")
+      .map((term) => term.textContent ?? "");
+
+    // We have a single category; extras are kept as tags
+    if (categories.length > 1) {
+      warnings.push("Extra categories were added as tags");
+      tags.push(...categories.slice(1));
+    }
+
+    if (wpStatus !== "publish") {
+      warnings.push(`Imported as a draft (WordPress status "${wpStatus}")`);
+    }
+
+    const thumbnailId = Array.from(item.getElementsByTagName("wp:postmeta"))
+      .find((meta) => text(meta, "wp:meta_key") === "_thumbnail_id")
+      ?.getElementsByTagName("wp:meta_value")[0]?.textContent;
+
+    const raw = (text(item, "content:encoded") ?? "").replace(
+      /<!--\s*\/?wp:[\s\S]*?-->/g,
+      ""
+    );
+
+    const publishedAt =
+      parseWxrDate(text(item, "wp:post_date_gmt"), true) ??
+      parseWxrDate(text(item, "wp:post_date"), false);
+
+    report.posts.push(
+      buildCandidate({
+        sourceId: text(item, "wp:post_id") ?? `${report.posts.length}`,
+        title,
+        content: cleanHtml(autoParagraph(raw)),
+        status: wpStatus === "publish" ? "published" : "draft",
+        tags,
+        category: categories[0],
+        featuredImage: thumbnailId ? attachments.get(thumbnailId) : undefined,
+        createdAt: publishedAt,
+        publishedAt: wpStatus === "publish" ? publishedAt : undefined,
+        warnings,
+      })
+    );
+  }
+
+  return report;
+};
+
+// Parse a Medium export zip (Settings → Download your information)
+export const parseMediumExport = async (
+  buffer: ArrayBuffer
+): Promise<ImportReport> => {
+  const entries = await readZip(buffer);
+  const decoder = new TextDecoder();
+  const report: ImportReport = { source: "Medium", posts: [], skipped: [] };
+
+  const postFiles = entries.filter((entry) =>
+    /(^|\/)posts\/[^/]+\.html$/i.test(entry.name)
+  );
+  if (postFiles.length === 0) {
+    throw new Error("No posts found - is this a Medium export zip?");
+  }
+
+  for (const entry of postFiles) {
+    const html =
+      typeof entry.data === "string" ? entry.data : decoder.decode(entry.data);
+    const doc = new DOMParser().parseFromString(html, "text/html");
+    const fileName = entry.name.split("/").pop() ?? entry.name;
+    const title =
+      doc.querySelector(".p-name")?.textContent ??
+      doc.querySelector("title")?.textContent ??
+      "";
+
+    const body = doc.querySelector('section[data-field="body"]');
+    if (!body) {
+      report.skipped.push({ title: title || fileName, reason: "No post body found" });
+      continue;
+    }
+
+    // Medium repeats the title (and subtitle) at the top of the body
+    body
+      .querySelectorAll(".graf--title, .graf--subtitle")
+      .forEach((node) => node.remove());
+
+    const isDraft = fileName.startsWith("draft_");
+    const published = doc.querySelector("time.dt-published")?.getAttribute("datetime");
+    const publishedAt = published ? Date.parse(published) : undefined;
+    const content = cleanHtml(body.innerHTML);
+    const firstImage = new DOMParser()
+      .parseFromString(content, "text/html")
+      .querySelector("img")
+      ?.getAttribute("src");
+
+    report.posts.push(
+      buildCandidate({
+        sourceId: fileName,
+        title,
+        content,
+        status: isDraft ? "draft" : "published",
+        tags: [], // Medium exports don't include tags
+        featuredImage: isHttpUrl(firstImage) ? firstImage : undefined,
+        createdAt: publishedAt,
+        publishedAt: isDraft ? undefined : publishedAt,
+        warnings: [],
+      })
+    );
+  }
+
+  return report;
+};
+
+// Pick the parser from the file type
+export const parseImportFile = async (file: File): Promise<ImportReport> => {
+  if (/\.zip$/i.test(file.name)) {
+    return parseMediumExport(await file.arrayBuffer());
+  }
+  if (/\.xml$/i.test(file.name)) {
+    return parseWxr(await file.text());
+  }
+  throw new Error("Upload a WordPress .xml export or a Medium .zip export");
+};
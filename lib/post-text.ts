@@ -0,0 +1,35 @@
+// Plain-text views of post HTML, for reading time and anything else that
+// only cares about the words. String-based so it also runs in Convex.
+import { decodeEntities } from "./sanitize-html";
+
+const WORDS_PER_MINUTE = 200;
+
+// Block-level tags end a word even when no whitespace separates them
+const BLOCK_TAG_PATTERN = /<\/?(p|h[1-6]|li|ol|ul|blockquote|pre|br|div)[^>]*>/gi;
+
+export interface ReadingStats {
+  wordCount: number;
+  readingTime: number; // Minutes, at least 1
+}
+
+// Strip markup, keeping the text readers see
+export const htmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(BLOCK_TAG_PATTERN, " ")
+      .replace(/<[^>]*>/g, "")
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const countWords = (text: string): number =>
+  text ? text.split(" ").filter((word) => /[\p{L}\p{N}]/u.test(word)).length : 0;
+
+export const getReadingStats = (html: string): ReadingStats => {
+  const wordCount = countWords(htmlToText(html));
+  return {
+    wordCount,
+    readingTime: Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE)),
+  };
+};
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import { sanitizeHtml } from "./sanitize-html";
+
+describe("sanitizeHtml", () => {
+  describe("scripts", () => {
+    it("drops script tags together with their contents", () => {
+      expect(sanitizeHtml("<p>a</p><script>alert(1)</script><p>b</p>")).toBe(
+        "<p>a</p><p>b</p>"
+      );
+    });
+
+    it("drops script tags whatever their case", () => {
+      expect(sanitizeHtml("<ScRiPt>alert(1)</sCrIpT>ok")).toBe("ok");
+    });
+
+    it("drops everything after a script tag that is never closed", () => {
+      expect(sanitizeHtml("<p>a</p><script>alert(1)<p>b</p>")).toBe("<p>a</p>");
+    });
+
+    it("drops svg and iframe payloads", () => {
+      expect(sanitizeHtml('<svg onload="alert(1)"><circle /></svg>ok')).toBe("ok");
+      expect(sanitizeHtml('<iframe src="javascript:alert(1)"></iframe>')).toBe("");
+    });
+  });
+
+  describe("event handler attributes", () => {
+    it("strips onerror from images", () => {
+      expect(
+        sanitizeHtml('<img src="https://example.com/a.png" onerror="alert(1)">')
+      ).toBe('<img src="https://example.com/a.png">');
+    });
+
+    it("strips on* attributes however they are quoted", () => {
+      expect(
+        sanitizeHtml(
+          `<p onclick="alert(1)" ONMOUSEOVER='alert(2)' onfocus=alert(3)>hi</p>`
+        )
+      ).toBe("<p>hi</p>");
+    });
+
+    it("drops an image whose only source is unsafe", () => {
+      expect(sanitizeHtml('<img src="x" onerror="alert(1)">')).toBe("");
+    });
+  });
+
+  describe("javascript: links", () => {
+    it.each([
+      ["plain", "javascript:alert(1)"],
+      ["mixed case", "JaVaScRiPt:alert(1)"],
+      ["decimal entity", "&#106;avascript:alert(1)"],
+      ["hex entity", "&#x6A;avascript:alert(1)"],
+      ["entity without semicolon", "&#106avascript:alert(1)"],
+      ["named colon entity", "javascript&colon;alert(1)"],
+      ["encoded tab inside the scheme", "java&#9;script:alert(1)"],
+      ["leading whitespace", "  javascript:alert(1)"],
+      ["vbscript", "vbscript:msgbox(1)"],
+    ])("removes a %s href", (_, href) => {
+      expect(sanitizeHtml(`<a href="${href}">x</a>`)).toBe("<a>x</a>");
+    });
+
+    it("keeps web, mail and relative links", () => {
+      expect(sanitizeHtml('<a href="https://example.com">x</a>')).toBe(
+        '<a href="https://example.com">x</a>'
+      );
+      expect(sanitizeHtml('<a href="mailto:me@example.com">x</a>')).toBe(
+        '<a href="mailto:me@example.com">x</a>'
+      );
+      expect(sanitizeHtml('<a href="/about#team">x</a>')).toBe(
+        '<a href="/about#team">x</a>'
+      );
+    });
+  });
+
+  describe("data: URLs", () => {
+    it("removes data: links", () => {
+      expect(
+        sanitizeHtml('<a href="data:text/html;base64,PHNjcmlwdD4=">x</a>')
+      ).toBe("<a>x</a>");
+    });
+
+    it("drops data: images that aren't base64 raster images", () => {
+      expect(
+        sanitizeHtml('<img src="data:image/svg+xml;base64,PHN2Zz4=">')
+      ).toBe("");
+      expect(sanitizeHtml('<img src="data:text/html;base64,PHNjcmlwdD4=">')).toBe("");
+    });
+
+    it("keeps base64 raster images", () => {
+      expect(sanitizeHtml('<img src="data:image/png;base64,iVBORw0KGgo=">')).toBe(
+        '<img src="data:image/png;base64,iVBORw0KGgo=">'
+      );
+    });
+  });
+
+  describe("styles", () => {
+    it("drops style tags together with their contents", () => {
+      expect(sanitizeHtml("<style>body { display: none }</style><p>a</p>")).toBe(
+        "<p>a</p>"
+      );
+    });
+
+    it("keeps only color declarations from inline styles", () => {
+      expect(
+        sanitizeHtml(
+          '<span style="color: red; position: fixed; top: 0">a</span>'
+        )
+      ).toBe('<span style="color: red;">a</span>');
+    });
+
+    it("drops url() and expression() values", () => {
+      expect(
+        sanitizeHtml(
+          '<p style="background-color: url(javascript:alert(1)); color: expression(alert(1))">a</p>'
+        )
+      ).toBe("<p>a</p>");
+    });
+
+    it("cannot break out of the style attribute", () => {
+      expect(sanitizeHtml(`<p style='color: red" onclick="alert(1)'>a</p>`)).toBe(
+        "<p>a</p>"
+      );
+    });
+  });
+
+  describe("nested and unclosed tags", () => {
+    it("closes tags left open", () => {
+      expect(sanitizeHtml("<p><strong>bold")).toBe("<p><strong>bold</strong></p>");
+    });
+
+    it("closes inner tags when an outer one closes", () => {
+      expect(sanitizeHtml("<p><em>a</p>b")).toBe("<p><em>a</em></p>b");
+    });
+
+    it("ignores stray closing tags", () => {
+      expect(sanitizeHtml("a</strong></p>b")).toBe("ab");
+    });
+
+    it("drops a tag cut off before its closing bracket", () => {
+      expect(sanitizeHtml("<p>a</p><img src=x onerror=alert(1)")).toBe("<p>a</p>");
+    });
+
+    it("does not reassemble a script split around another tag", () => {
+      const html = sanitizeHtml("<scr<script>alert(1)</script>ipt>alert(2)</script>");
+      expect(html).not.toMatch(/<script/i);
+    });
+
+    it("drops comments and escapes stray angle brackets", () => {
+      expect(sanitizeHtml("<!-- <script>alert(1)</script> -->a < b > c")).toBe(
+        "a &lt; b &gt; c"
+      );
+    });
+
+    it("unwraps unknown tags but keeps their text", () => {
+      expect(sanitizeHtml("<article><section>text</section></article>")).toBe("text");
+    });
+  });
+
+  describe("allowed markup", () => {
+    it("keeps the formatting the editor produces", () => {
+      const html =
+        '<h2>Title</h2>' +
+        '<p class="ql-align-center">Hi <strong>there</strong>, <em>you</em> <u>and</u> <s>them</s></p>' +
+        '<blockquote>quote</blockquote>' +
+        '<ol><li data-list="bullet"><span contenteditable="false"></span>one</li></ol>' +
+        '<pre spellcheck="false">const a = 1;</pre>' +
+        '<p><code>x</code><br></p>';
+      expect(sanitizeHtml(html)).toBe(html);
+    });
+
+    it("keeps images and https embeds", () => {
+      expect(
+        sanitizeHtml('<img src="https://example.com/a.png" alt="A cat" width="200">')
+      ).toBe('<img src="https://example.com/a.png" alt="A cat" width="200">');
+      expect(
+        sanitizeHtml(
+          '<iframe src="https://www.youtube.com/embed/x" frameborder="0" allowfullscreen></iframe>'
+        )
+      ).toBe(
+        '<iframe src="https://www.youtube.com/embed/x" frameborder="0" allowfullscreen="true"></iframe>'
+      );
+    });
+
+    it("adds rel=noopener to links opening a new tab", () => {
+      expect(
+        sanitizeHtml('<a href="https://example.com" target="_blank">x</a>')
+      ).toBe(
+        '<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>'
+      );
+    });
+
+    it("rewrites older tags to the ones the editor uses", () => {
+      expect(sanitizeHtml("<b>a</b><i>b</i><h5>c</h5>")).toBe(
+        "<strong>a</strong><em>b</em><h3>c</h3>"
+      );
+    });
+
+    it("keeps only editor classes", () => {
+      expect(sanitizeHtml('<p class="ql-indent-1 evil">a</p>')).toBe(
+        '<p class="ql-indent-1">a</p>'
+      );
+    });
+  });
+});
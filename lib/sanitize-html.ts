@@ -0,0 +1,282 @@
+// Allowlist HTML sanitizer for post content.
+// String-based so it runs inside Convex mutations as well as in Node and the
+// browser. The allowlist mirrors what the Quill editor produces for the
+// formats enabled in post-editor-content.tsx; anything else is unwrapped
+// (unknown tags) or dropped together with its contents (script, style, ...).
+
+type AttributeRule = (value: string) => string | null;
+
+// Quill formatting classes: ql-align-center, ql-indent-2, ql-size-large, ...
+const QUILL_CLASS_PATTERN = /^ql-[a-z0-9-]+$/;
+
+// Colors from Quill's picker are written as rgb() or hex values
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|rgba?\(\s*[\d.\s,%]+\)|[a-z]+)$/i;
+
+const VOID_TAGS = new Set(["br", "img"]);
+
+// Tags removed along with everything inside them
+const DROPPED_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "textarea",
+  "title",
+  "select",
+  "object",
+  "embed",
+  "applet",
+  "svg",
+  "math",
+  "head",
+  "frameset",
+  "frame",
+  "xmp",
+  "plaintext",
+]);
+
+// Older or equivalent tags rewritten to the ones Quill uses
+const TAG_ALIASES: Record<string, string> = {
+  b: "strong",
+  i: "em",
+  strike: "s",
+  del: "s",
+  h4: "h3",
+  h5: "h3",
+  h6: "h3",
+};
+
+export const decodeEntities = (value: string): string =>
+  value.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi,
+    (match: string, entity: string) => {
+      const lower = entity.toLowerCase();
+      if (lower.startsWith("#x")) {
+        return String.fromCodePoint(parseInt(lower.slice(2), 16) || 0xfffd);
+      }
+      if (lower.startsWith("#")) {
+        return String.fromCodePoint(parseInt(lower.slice(1), 10) || 0xfffd);
+      }
+      const named: Record<string, string> = {
+        amp: "&",
+        lt: "<",
+        gt: ">",
+        quot: '"',
+        apos: "'",
+        nbsp: " ",
+        colon: ":",
+        tab: "\t",
+        newline: "\n",
+      };
+      return named[lower] ?? match;
+    }
+  );
+
+const escapeAttribute = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+// Browsers ignore whitespace and control characters inside a URL scheme
+const normalizeUrl = (value: string): string =>
+  value.replace(/[\u0000-\u0020\u007f]/g, "");
+
+// Links may point at the web, mail, or somewhere on this site
+const safeHref: AttributeRule = (value) => {
+  const url = normalizeUrl(value);
+  if (/^(https?:|mailto:)/i.test(url)) return url;
+  if (/^(\/(?!\/)|#|\?)/.test(url)) return url;
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(url) && !url.startsWith("//")) return url;
+  return null;
+};
+
+const safeImageSrc: AttributeRule = (value) => {
+  const url = normalizeUrl(value);
+  if (/^https?:/i.test(url) || /^\/(?!\/)/.test(url)) return url;
+  if (/^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=]+$/i.test(url)) {
+    return url;
+  }
+  return null;
+};
+
+// Embedded video has to come over https
+const safeFrameSrc: AttributeRule = (value) => {
+  const url = normalizeUrl(value);
+  return /^https:\/\//i.test(url) ? url : null;
+};
+
+const quillClasses: AttributeRule = (value) => {
+  const classes = value
+    .split(/\s+/)
+    .filter((name) => QUILL_CLASS_PATTERN.test(name));
+  return classes.length > 0 ? classes.join(" ") : null;
+};
+
+// Keep only text color and highlight, the two styles Quill writes inline
+const colorStyle: AttributeRule = (value) => {
+  const declarations = value
+    .split(";")
+    .map((declaration) => declaration.split(":").map((part) => part.trim()))
+    .filter(
+      ([property, color]) =>
+        (property === "color" || property === "background-color") &&
+        !!color &&
+        COLOR_PATTERN.test(color)
+    )
+    .map(([property, color]) => `${property}: ${color}`);
+  return declarations.length > 0 ? declarations.join("; ") + ";" : null;
+};
+
+const oneOf =
+  (...allowed: string[]): AttributeRule =>
+  (value) =>
+    allowed.includes(value) ? value : null;
+
+const GLOBAL_ATTRIBUTES: Record<string, AttributeRule> = {
+  class: quillClasses,
+  style: colorStyle,
+};
+
+const ALLOWED_TAGS: Record<string, Record<string, AttributeRule>> = {
+  p: {},
+  br: {},
+  h1: {},
+  h2: {},
+  h3: {},
+  strong: {},
+  em: {},
+  u: {},
+  s: {},
+  span: { contenteditable: oneOf("false") }, // Quill 2 list markers
+  code: {},
+  blockquote: {},
+  pre: { spellcheck: oneOf("false") },
+  div: {
+    "data-language": (value) => (/^[a-z0-9+#-]+$/i.test(value) ? value : null),
+  },
+  ol: {},
+  ul: {},
+  li: { "data-list": oneOf("bullet", "ordered", "checked", "unchecked") },
+  a: {
+    href: safeHref,
+    target: oneOf("_blank"),
+    rel: (value) => value.replace(/[^a-z\s]/gi, "") || null,
+  },
+  img: {
+    src: safeImageSrc,
+    alt: (value) => value,
+    width: (value) => (/^\d+$/.test(value) ? value : null),
+    height: (value) => (/^\d+$/.test(value) ? value : null),
+  },
+  iframe: {
+    src: safeFrameSrc,
+    frameborder: oneOf("0"),
+    allowfullscreen: (value) =>
+      value === "" || value === "true" ? "true" : null,
+  },
+};
+
+// Attributes that must be present for the tag to be kept at all
+const REQUIRED_ATTRIBUTES: Record<string, string> = {
+  img: "src",
+  iframe: "src",
+};
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<[!?][^>]*>?|<\/?[a-zA-Z][^>]*>?|[^<]+|</g;
+const TAG_PATTERN = /^<(\/?)([a-zA-Z][a-zA-Z0-9-]*)([\s\S]*?)\/?>$/;
+const ATTRIBUTE_PATTERN =
+  /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const sanitizeAttributes = (tag: string, source: string): string | null => {
+  const rules = { ...GLOBAL_ATTRIBUTES, ...ALLOWED_TAGS[tag] };
+  const kept = new Map<string, string>();
+
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    const rule = rules[name];
+    if (!rule || kept.has(name)) continue;
+
+    const raw = match[2] ?? match[3] ?? match[4] ?? "";
+    const value = rule(decodeEntities(raw));
+    if (value !== null) kept.set(name, value);
+  }
+
+  // Links opening a new tab must not get a handle on this page
+  if (tag === "a" && kept.get("target") === "_blank") {
+    kept.set("rel", "noopener noreferrer");
+  }
+
+  const required = REQUIRED_ATTRIBUTES[tag];
+  if (required && !kept.has(required)) return null;
+
+  return Array.from(kept)
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+    .join("");
+};
+
+// Strip everything outside the editor's allowlist from an HTML string
+export const sanitizeHtml = (html: string): string => {
+  if (!html) return "";
+
+  const output: string[] = [];
+  const open: string[] = [];
+  let dropping: string | null = null; // Inside a <script>, <style>, ...
+
+  for (const [token] of html.matchAll(TOKEN_PATTERN)) {
+    const tagMatch = token.startsWith("<") ? TAG_PATTERN.exec(token) : null;
+
+    if (dropping) {
+      if (tagMatch?.[1] && tagMatch[2].toLowerCase() === dropping) {
+        dropping = null;
+      }
+      continue;
+    }
+
+    if (!token.startsWith("<")) {
+      output.push(token.replace(/>/g, "&gt;"));
+      continue;
+    }
+
+    // Comments, doctypes, CDATA and broken tags never make it through
+    if (!tagMatch) {
+      if (token === "<") output.push("&lt;");
+      continue;
+    }
+
+    const [, closing, rawName, attributes] = tagMatch;
+    const lower = rawName.toLowerCase();
+    const name = TAG_ALIASES[lower] ?? lower;
+
+    if (DROPPED_TAGS.has(lower)) {
+      if (!closing && !token.endsWith("/>")) dropping = lower;
+      continue;
+    }
+
+    if (!(name in ALLOWED_TAGS)) continue; // Unwrap, keeping the text
+
+    if (closing) {
+      const index = open.lastIndexOf(name);
+      if (index === -1) continue;
+      // Close anything left open inside this element
+      while (open.length > index) {
+        output.push(`</${open.pop()}>`);
+      }
+      continue;
+    }
+
+    const safeAttributes = sanitizeAttributes(name, attributes);
+    if (safeAttributes === null) continue;
+
+    output.push(`<${name}${safeAttributes}>`);
+    if (!VOID_TAGS.has(name)) open.push(name);
+  }
+
+  while (open.length > 0) {
+    output.push(`</${open.pop()}>`);
+  }
+
+  return output.join("");
+};
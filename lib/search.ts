@@ -0,0 +1,83 @@
+// Full-text search helpers shared by the Convex search queries and the
+// search UI. Posts keep a plain-text copy of everything searchable in
+// `searchText`, which the `search_text` index covers.
+import { htmlToText } from "./post-text";
+
+const SNIPPET_LENGTH = 180;
+
+type SearchablePost = {
+  title: string;
+  content: string;
+  tags: string[];
+  category?: string;
+};
+
+export type SnippetPart = {
+  text: string;
+  match: boolean;
+};
+
+// What the search index sees for a post - title, body text, tags and category
+export const getSearchText = (post: SearchablePost): string =>
+  [post.title, htmlToText(post.content), ...post.tags, post.category ?? ""]
+    .join(" ")
+    .trim();
+
+// Lowercased words of a query, as the index tokenizes them
+export const getSearchTerms = (query: string): string[] =>
+  query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0);
+
+// Whether text contains every term of a query, matching the last one as a
+// prefix the way the search index does while the user is still typing
+export const matchesSearch = (text: string, query: string): boolean => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return false;
+
+  const words = getSearchTerms(text);
+  return terms.every((term, index) =>
+    words.some((word) =>
+      index === terms.length - 1 ? word.startsWith(term) : word === term
+    )
+  );
+};
+
+// A short passage of plain text around the first matching term
+export const getSearchSnippet = (text: string, query: string): string => {
+  const lower = text.toLowerCase();
+  const positions = getSearchTerms(query)
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position >= 0);
+
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  let start = Math.max(0, first - SNIPPET_LENGTH / 3);
+  // Start on a word boundary
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space >= 0 && space < first ? space + 1 : start;
+  }
+
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${
+    end < text.length ? "…" : ""
+  }`;
+};
+
+// Split text into the runs that match a query's terms and the runs between
+export const highlightTerms = (text: string, query: string): SnippetPart[] => {
+  const terms = getSearchTerms(query).map((term) =>
+    term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  );
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const pattern = new RegExp(`(${terms.join("|")})`, "gi");
+  return (
+    text
+      .split(pattern)
+      // split() puts the captured matches at odd indexes
+      .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+      .filter((part) => part.text.length > 0)
+  );
+};
@@ -0,0 +1,37 @@
+// Helpers for human-readable post URLs: /[username]/[slug]
+// Shared by the Convex post mutations and the editor settings.
+
+// Path segments under /[username] that a post slug must never shadow
+export const RESERVED_SLUGS: readonly string[] = [
+  "followers",
+  "edit",
+  "create",
+  "settings",
+  "posts",
+  "dashboard",
+  "series",
+];
+
+export const MAX_SLUG_LENGTH = 80;
+
+// Turn a title (or user input) into a lowercase, hyphenated slug
+export const slugify = (text: string): string => {
+  const slug = text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // Strip accents
+    .toLowerCase()
+    .replace(/['\u2019]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/g, "");
+
+  if (!slug) return "post";
+  return RESERVED_SLUGS.includes(slug) ? `${slug}-post` : slug;
+};
+
+// Whether a slug still looks generated from this title (optionally with a -N suffix)
+export const isSlugFromTitle = (slug: string, title: string): boolean => {
+  const base = slugify(title);
+  return slug === base || new RegExp(`^${base}-\\d+$`).test(slug);
+};
@@ -0,0 +1,12 @@
+// Tag and category browse URLs: /tag/[tag] and /category/[category].
+// Shared by the Convex tag index and the UI that links to it.
+
+// Tags are matched case-insensitively - "React" and "react" share a page
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#/, "").toLowerCase();
+
+export const tagUrl = (tag: string): string =>
+  `/tag/${encodeURIComponent(normalizeTag(tag))}`;
+
+export const categoryUrl = (category: string): string =>
+  `/category/${encodeURIComponent(category)}`;
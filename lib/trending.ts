@@ -0,0 +1,59 @@
+// Trending scores: engagement inside a time window, with recent engagement
+// counting for more. Pure functions, shared by the Convex cron that
+// precomputes scores and the Trending tab's window picker.
+
+export const TRENDING_WINDOWS = ["24h", "7d", "30d"] as const;
+
+export type TrendingWindow = (typeof TRENDING_WINDOWS)[number];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const TRENDING_WINDOW_OPTIONS: Record<
+  TrendingWindow,
+  { label: string; durationMs: number; halfLifeMs: number }
+> = {
+  "24h": { label: "Today", durationMs: 24 * HOUR_MS, halfLifeMs: 6 * HOUR_MS },
+  "7d": { label: "This week", durationMs: 7 * 24 * HOUR_MS, halfLifeMs: 36 * HOUR_MS },
+  "30d": { label: "This month", durationMs: 30 * 24 * HOUR_MS, halfLifeMs: 7 * 24 * HOUR_MS },
+};
+
+export const DEFAULT_TRENDING_WINDOW: TrendingWindow = "7d";
+
+// The widest window - how far back the cron reads engagement
+export const MAX_TRENDING_WINDOW_MS = Math.max(
+  ...TRENDING_WINDOWS.map((window) => TRENDING_WINDOW_OPTIONS[window].durationMs)
+);
+
+// How much one of each kind of engagement is worth
+export const ENGAGEMENT_WEIGHTS = {
+  view: 1,
+  like: 3,
+  comment: 5,
+} as const;
+
+export type EngagementEvent = {
+  at: number; // When it happened
+  weight: number; // ENGAGEMENT_WEIGHTS value, times how many it stands for
+};
+
+// Views are only counted per day, so a day's views are placed at its middle -
+// or at `now` for today, which hasn't reached its middle yet
+export const dailyViewsAt = (date: string, now: number): number =>
+  Math.min(now, Date.parse(`${date}T12:00:00Z`));
+
+// Sum of the window's engagement, each event halving in worth every half-life
+export const scoreEngagement = (
+  events: EngagementEvent[],
+  window: TrendingWindow,
+  now: number
+): number => {
+  const { durationMs, halfLifeMs } = TRENDING_WINDOW_OPTIONS[window];
+
+  let score = 0;
+  for (const event of events) {
+    const age = now - event.at;
+    if (age < 0 || age > durationMs) continue;
+    score += event.weight * Math.pow(0.5, age / halfLifeMs);
+  }
+  return score;
+};
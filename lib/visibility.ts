@@ -0,0 +1,23 @@
+// Who can read a published post. Shared by the Convex schema and the editor UI.
+
+export const POST_VISIBILITIES = ["public", "unlisted", "followers"] as const;
+
+export type PostVisibility = (typeof POST_VISIBILITIES)[number];
+
+export const VISIBILITY_OPTIONS: Record<
+  PostVisibility,
+  { label: string; description: string }
+> = {
+  public: {
+    label: "Public",
+    description: "Shown on your profile, in the feed and in trending",
+  },
+  unlisted: {
+    label: "Unlisted",
+    description: "Only people with the link can read it",
+  },
+  followers: {
+    label: "Followers only",
+    description: "Only you and your followers can read it",
+  },
+};